@@ -1,165 +1,598 @@
 
-import React, { useState, useCallback, useRef } from 'react';
-import { editImageWithPrompt, editImageWithSelection } from './services/geminiService';
-import { fileToBase64 } from './utils/fileUtils';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  editImageWithPrompt,
+  editImageWithPromptVariants,
+  editImageWithMaskVariants,
+  MAX_VARIANTS,
+  VariantVariation,
+  ClientProviderId,
+  imageEditProviders,
+  getActiveProviderId,
+  setActiveProviderId,
+} from './services/imageEditService';
+import { isCancellation } from './services/imageEditErrors';
+import { runRecipeStep } from './services/recipeRunner';
+import { getSessionUsage, loadBudgetSettings, setUsageProject, subscribeToUsage } from './services/usageStore';
+import { getBudgetState } from './utils/usage';
+import { MAX_REFERENCE_IMAGES, REFERENCE_ROLES } from './services/imageEditProvider';
+import { HISTORY_NODE_MIME, EXTERNAL_IMAGE_TYPES, fetchImageFile, getTransferredFiles, getTransferredUrl } from './utils/imageTransfer';
+import { dataUrlToBase64, downloadBlob } from './utils/fileUtils';
+import { preprocessImage, loadUploadSettings, saveUploadSettings } from './utils/imagePreprocess';
+import { composeMask } from './utils/maskUtils';
+import { buildProvenance, readProvenance } from './utils/provenance';
+import { keyBackgroundPrompt } from './utils/chromaKey';
+import { compositeMaskedEdit } from './utils/compositing';
+import { renderSourceFile } from './utils/exportUtils';
+import {
+  createEmptyHistory,
+  addHistoryNode,
+  addHistoryNodes,
+  toggleHistoryNodeStar,
+  checkoutHistoryNode,
+  undoHistory,
+  redoHistory,
+  canUndo,
+  canRedo,
+  getAdjustmentSteps,
+} from './utils/history';
+import {
+  ProjectState,
+  createProject,
+  saveProjectState,
+  loadProjectState,
+  getLastProjectId,
+  setLastProjectId,
+} from './services/projectStore';
 import ImageCard from './components/ImageCard';
+import HistoryStrip from './components/HistoryStrip';
+import BatchPanel from './components/BatchPanel';
+import ExportDialog from './components/ExportDialog';
+import CompliancePanel from './components/CompliancePanel';
+import ProjectList from './components/ProjectList';
+import UploadSettingsPanel from './components/UploadSettingsPanel';
+import VariantGrid from './components/VariantGrid';
+import AdjustmentPanel from './components/AdjustmentPanel';
+import ReferencePanel from './components/ReferencePanel';
+import DropZone from './components/DropZone';
+import RecipePanel from './components/RecipePanel';
+import CutoutPanel from './components/CutoutPanel';
+import ShadowPanel from './components/ShadowPanel';
+import UsageDashboard from './components/UsageDashboard';
+import { DEFAULT_ADJUSTMENTS, describeAdjustments } from './utils/adjustments';
 import { MagicWandIcon, UploadIcon, AlertTriangleIcon } from './components/Icons';
+import { LOCALES, Locale, LocalizedError, LocalizedMessage, MessageKey, describeError, toLocalizedMessage } from './i18n';
+import { useI18n } from './i18n/I18nProvider';
+import {
+  OriginalImage,
+  ReferenceImage,
+  Selection,
+  EditHistory,
+  MaskSettings,
+  CompositeSettings,
+  UploadSettings,
+  ImageAdjustments,
+  Recipe,
+  RecipeRun,
+  RecipeStepStatus,
+  KeyColor,
+} from './types';
 
-interface OriginalImage {
-  url: string;
-  base64: string;
-  mimeType: string;
-}
+type EditorMode = 'single' | 'batch';
 
-interface Selection {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+const VARIANT_COUNT_OPTIONS = [1, 2, 3, 4, 6, MAX_VARIANTS];
+
+const variationLabels: Record<VariantVariation, MessageKey> = {
+  none: 'app.variation.none',
+  seed: 'app.variation.seed',
+  temperature: 'app.variation.temperature',
+};
+
+// Delay before edits are written to IndexedDB, so bursts of changes are saved once.
+const AUTOSAVE_DELAY_MS = 1000;
 
 const App: React.FC = () => {
+  const { locale, setLocale, t, formatNumber } = useI18n();
+  const [mode, setMode] = useState<EditorMode>('single');
+  const [providerId, setProviderId] = useState<ClientProviderId>(getActiveProviderId);
   const [originalImage, setOriginalImage] = useState<OriginalImage | null>(null);
-  const [referenceImage, setReferenceImage] = useState<OriginalImage | null>(null);
-  const [editedImage, setEditedImage] = useState<string | null>(null);
+  const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>([]);
+  const [history, setHistory] = useState<EditHistory>(createEmptyHistory);
+  // Version used as the starting point for full-image edits; null means the original upload.
+  const [baseNodeId, setBaseNodeId] = useState<string | null>(null);
   const [prompt, setPrompt] = useState<string>('');
   const [inpaintPrompt, setInpaintPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
   const [isSelecting, setIsSelecting] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [complianceOverlay, setComplianceOverlay] = useState<string | null>(null);
   const [selection, setSelection] = useState<Selection | null>(null);
+  const [maskUrl, setMaskUrl] = useState<string | null>(null);
+  const [maskSettings, setMaskSettings] = useState<MaskSettings>({
+    tool: 'rectangle',
+    mode: 'add',
+    brushSize: 60,
+    brushHardness: 0.7,
+  });
+  const [compositeSettings, setCompositeSettings] = useState<CompositeSettings>({
+    enabled: true,
+    featherRadius: 8,
+    matchColors: true,
+  });
+  const [isReopeningAdjustments, setIsReopeningAdjustments] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [variantVariation, setVariantVariation] = useState<VariantVariation>('seed');
+  const [uploadSettings, setUploadSettings] = useState<UploadSettings>(loadUploadSettings);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState<string | null>(null);
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
+  const [recipeRun, setRecipeRun] = useState<RecipeRun | null>(null);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [sessionCost, setSessionCost] = useState(() => getSessionUsage().cost);
+  const [budget, setBudget] = useState(loadBudgetSettings);
+  // Set while a project is being loaded so the restored state is not immediately saved back.
+  const skipNextSaveRef = useRef(false);
 
+  const currentNode = history.currentId ? history.nodes[history.currentId] : null;
+  const editedImage = currentNode?.imageUrl ?? null;
+  const variants = currentNode?.variantGroupId
+    ? history.order.map(id => history.nodes[id]).filter(node => node.variantGroupId === currentNode.variantGroupId)
+    : [];
+  const baseNode = baseNodeId ? history.nodes[baseNodeId] : null;
+  // The version the current one was derived from, used by the before/after views.
+  const currentParent = history.currentId ? history.nodes[history.currentId].parentId : null;
+  const previousImage = currentParent ? history.nodes[currentParent].imageUrl : originalImage?.url ?? null;
+  // Local adjustments work on the current image, or re-run a previous adjustment step from its parent.
+  const canReopenAdjustments = Boolean(currentNode?.kind === 'adjust' && currentNode.adjustments);
+  const isAdjustmentReopened = isReopeningAdjustments && canReopenAdjustments;
+  const adjustmentParentId = isAdjustmentReopened ? currentParent : history.currentId;
+  const adjustmentImageUrl = isAdjustmentReopened ? previousImage : editedImage ?? originalImage?.url ?? null;
+  const initialAdjustments = (isAdjustmentReopened && currentNode?.adjustments) || DEFAULT_ADJUSTMENTS;
+  // Versions made with the adjustment panel only can be exported again from the uploaded file.
+  const sourceFile = originalImage?.source;
+  const exportSteps = sourceFile ? getAdjustmentSteps(history, history.currentId) : null;
+
+  const budgetState = getBudgetState(sessionCost, budget);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const referenceFileInputRef = useRef<HTMLInputElement>(null);
+  // Controller of the edit request in flight, so it can be cancelled.
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleImageUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+  const startRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller;
+  }, []);
+
+  const finishRequest = useCallback((controller: AbortController) => {
+    if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    setIsLoading(false);
+  }, []);
+
+  const handleCancelRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Surfaces a failed request, staying quiet when the user cancelled it.
+  const reportRequestError = useCallback((err: unknown) => {
+    if (isCancellation(err)) return;
+    setError(toLocalizedMessage(err));
+    console.error(err);
+  }, []);
+
+  // Some variants may fail while others succeed; the successful ones are kept.
+  const reportVariantFailures = useCallback((errors: unknown[], total: number) => {
+    const failures = errors.filter(err => !isCancellation(err));
+    if (failures.length === 0) return;
+    failures.forEach(err => console.error(err));
+    setError({
+      key: 'errors.variantFailures',
+      params: { failed: failures.length, total, detail: describeError(t, failures[0], 'errors.editFailed') },
+    });
+  }, [t]);
+
+  const applyProjectState = useCallback((state: ProjectState) => {
+    setOriginalImage(state.originalImage);
+    setReferenceImages(state.referenceImages);
+    setPrompt(state.prompt);
+    setInpaintPrompt(state.inpaintPrompt);
+    setHistory(state.history);
+    setBaseNodeId(state.baseNodeId);
+    setSelection(state.selection);
+    setMaskUrl(state.maskUrl);
+    setIsSelecting(false);
+    setError(null);
+  }, []);
+
+  const openProject = useCallback(async (id: string) => {
+    try {
+      const project = await loadProjectState(id);
+      if (!project) return;
+      skipNextSaveRef.current = true;
+      applyProjectState(project.state);
+      setCurrentProjectId(id);
+      setProjectName(project.name);
+      setLastProjectId(id);
+    } catch (err) {
+      setError({ key: 'errors.projectOpenFailed' });
+      console.error(err);
+    }
+  }, [applyProjectState]);
+
+  // Reopen the project the user was working on.
+  useEffect(() => {
+    const lastProjectId = getLastProjectId();
+    if (lastProjectId) openProject(lastProjectId);
+  }, [openProject]);
+
+  useEffect(() => {
+    if (!currentProjectId) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    const timeout = window.setTimeout(() => {
+      saveProjectState(currentProjectId, {
+        originalImage,
+        referenceImages,
+        prompt,
+        inpaintPrompt,
+        history,
+        baseNodeId,
+        selection,
+        maskUrl,
+      }).catch(err => {
+        setError({ key: 'errors.projectSaveFailed' });
+        console.error(err);
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [currentProjectId, originalImage, referenceImages, prompt, inpaintPrompt, history, baseNodeId, selection, maskUrl]);
+
+  const handleNewProject = useCallback(() => {
+    applyProjectState({
+      originalImage: null,
+      referenceImages: [],
+      prompt: '',
+      inpaintPrompt: '',
+      history: createEmptyHistory(),
+      baseNodeId: null,
+      selection: null,
+      maskUrl: null,
+    });
+    // The project itself is created with the first upload.
+    setCurrentProjectId(null);
+    setProjectName(null);
+    setIsProjectsOpen(false);
+  }, [applyProjectState]);
+
+  const handleOpenProject = useCallback((id: string) => {
+    setIsProjectsOpen(false);
+    openProject(id);
+  }, [openProject]);
+
+  const handleProjectDeleted = useCallback((id: string) => {
+    if (id === currentProjectId) handleNewProject();
+  }, [currentProjectId, handleNewProject]);
+
+  useEffect(() => subscribeToUsage(() => {
+    setSessionCost(getSessionUsage().cost);
+    setBudget(loadBudgetSettings());
+  }), []);
+
+  // Requests are attributed to the open project; batch runs belong to none.
+  useEffect(() => {
+    setUsageProject(mode === 'single' && currentProjectId ? { id: currentProjectId, name: projectName ?? '' } : null);
+  }, [mode, currentProjectId, projectName]);
+
+  // Uploads, drops and pastes all end here, so every way in gets the same checks.
+  const loadOriginalFile = useCallback(async (file: File) => {
       // Check for valid image types
       if (!file.type.startsWith('image/')) {
-          setError("Tipo de arquivo inválido. Por favor, envie uma imagem.");
+          setError({ key: 'errors.invalidFileType' });
           return;
       }
 
       setError(null);
-      setEditedImage(null); // Clear previous edit
+      setHistory(createEmptyHistory()); // Clear previous edits
+      setBaseNodeId(null);
       setIsSelecting(false); // Disable selection mode on new upload
       setSelection(null); // Clear selection on new upload
+      setMaskUrl(null);
       try {
-        const { base64, mimeType } = await fileToBase64(file);
-        setOriginalImage({
-          url: URL.createObjectURL(file),
-          base64,
-          mimeType,
-        });
+        // Files exported by this app carry their edit history; keep it so the next export extends it.
+        const [image, provenance] = await Promise.all([
+          preprocessImage(file, uploadSettings),
+          readProvenance(file).catch(err => {
+            console.error(err);
+            return null;
+          }),
+        ]);
+        setOriginalImage(provenance ? { ...image, provenance } : image);
+        if (!currentProjectId) {
+          const id = await createProject(file.name);
+          setCurrentProjectId(id);
+          setProjectName(file.name);
+          setLastProjectId(id);
+        }
       } catch (err) {
-        setError("Não foi possível processar o arquivo enviado.");
+        setError(toLocalizedMessage(err, 'errors.uploadFailed'));
         console.error(err);
       }
-    }
-  }, []);
+  }, [currentProjectId, uploadSettings]);
 
-  const handleReferenceImageUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-        if (!file.type.startsWith('image/')) {
-            setError("Tipo de arquivo inválido. Por favor, envie uma imagem.");
-            return;
-        }
-        setError(null);
+    // Let the same file be picked again.
+    event.target.value = '';
+    if (file) loadOriginalFile(file);
+  }, [loadOriginalFile]);
+
+  const addReferenceFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.some(file => !file.type.startsWith('image/'))) {
+        setError({ key: 'errors.invalidFileType' });
+        return;
+    }
+    const available = MAX_REFERENCE_IMAGES - referenceImages.length;
+    setError(files.length > available ? { key: 'errors.tooManyReferences', params: { max: MAX_REFERENCE_IMAGES } } : null);
+    const usedRoles = referenceImages.map(reference => reference.role);
+    const added: ReferenceImage[] = [];
+    for (const file of files.slice(0, Math.max(0, available))) {
         try {
-            const { base64, mimeType } = await fileToBase64(file);
-            setReferenceImage({
-                url: URL.createObjectURL(file),
-                base64,
-                mimeType,
-            });
+            // New slots take the first role not used yet; the user can change it afterwards.
+            const role = REFERENCE_ROLES.find(candidate => !usedRoles.includes(candidate)) ?? 'style';
+            usedRoles.push(role);
+            added.push({ ...(await preprocessImage(file, uploadSettings)), id: crypto.randomUUID(), role });
         } catch (err) {
-            setError("Não foi possível processar o arquivo de referência.");
+            setError(toLocalizedMessage(err, 'errors.referenceUploadFailed'));
             console.error(err);
         }
     }
+    setReferenceImages(prev => [...prev, ...added].slice(0, MAX_REFERENCE_IMAGES));
+  }, [referenceImages, uploadSettings]);
+
+  const handleReferenceImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    // Let the same file be picked again after it was removed.
+    event.target.value = '';
+    addReferenceFiles(files);
+  }, [addReferenceFiles]);
+
+  // Files win over links; a link is downloaded so it can be checked like any upload. The data is
+  // read before the first await because a DataTransfer is emptied once its event has been handled.
+  const readTransferredImages = useCallback(async (data: DataTransfer): Promise<File[]> => {
+    const files = getTransferredFiles(data);
+    if (files.length > 0) return files;
+    const url = getTransferredUrl(data);
+    if (!url) return [];
+    try {
+      return [await fetchImageFile(url)];
+    } catch (err) {
+      setError(toLocalizedMessage(err, 'errors.urlImportFailed'));
+      console.error(err);
+      return [];
+    }
   }, []);
 
+  const handleOriginalDrop = useCallback(async (data: DataTransfer) => {
+    // A result card dropped here becomes the base for the next edits.
+    const nodeId = data.getData(HISTORY_NODE_MIME);
+    if (nodeId) {
+      if (history.nodes[nodeId]) setBaseNodeId(nodeId);
+      return;
+    }
+    const [file] = await readTransferredImages(data);
+    if (file) loadOriginalFile(file);
+  }, [history.nodes, readTransferredImages, loadOriginalFile]);
+
+  const handleReferenceDrop = useCallback(async (data: DataTransfer) => {
+    addReferenceFiles(await readTransferredImages(data));
+  }, [readTransferredImages, addReferenceFiles]);
+
+  // Ctrl+V with an image (e.g. a screenshot) or an image link replaces the original.
+  useEffect(() => {
+    if (mode !== 'single' || isLoading) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const data = e.clipboardData;
+      if (!data) return;
+      const hasFiles = getTransferredFiles(data).length > 0;
+      const target = e.target;
+      const isTyping = target instanceof HTMLElement && (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT');
+      // Text pasted into a field stays there; only images are taken from inside fields.
+      if (!hasFiles && (isTyping || !getTransferredUrl(data))) return;
+      e.preventDefault();
+      readTransferredImages(data).then(([file]) => { if (file) loadOriginalFile(file); });
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [mode, isLoading, readTransferredImages, loadOriginalFile]);
+
   const handleEditRequest = useCallback(async () => {
     if (!originalImage || !prompt.trim()) {
-      setError('Por favor, envie uma imagem e insira uma instrução de edição.');
+      setError({ key: 'errors.missingImageOrPrompt' });
+      return;
+    }
+
+    const source = baseNode ? dataUrlToBase64(baseNode.imageUrl) : originalImage;
+    if (!source) {
+      setError({ key: 'errors.baseUnreadable' });
       return;
     }
 
     setIsLoading(true);
     setError(null);
-    setEditedImage(null);
     setIsSelecting(false); // Turn off selection mode when generating
     setSelection(null); // Clear selection when generating
+    setMaskUrl(null);
 
     const finalPrompt = prompt.trim();
+    const controller = startRequest();
+    const reported: { model?: string } = {};
 
     try {
-      const newImageBase64 = await editImageWithPrompt(
-        originalImage.base64,
-        originalImage.mimeType,
+      const { images, errors } = await editImageWithPromptVariants(
+        source.base64,
+        source.mimeType,
         finalPrompt,
-        referenceImage ?? undefined
+        referenceImages,
+        {
+          signal: controller.signal,
+          count: variantCount,
+          variation: variantVariation,
+          onUsage: usage => { reported.model = usage.model; },
+        }
       );
-      setEditedImage(`data:image/png;base64,${newImageBase64}`);
+      const variantGroupId = images.length > 1 ? crypto.randomUUID() : undefined;
+      setHistory(prev => addHistoryNodes(prev, images.map(imageBase64 => ({
+        parentId: baseNodeId,
+        kind: 'edit' as const,
+        imageUrl: `data:image/png;base64,${imageBase64}`,
+        prompt: finalPrompt,
+        selection: null,
+        maskUrl: null,
+        referenceImages,
+        variantGroupId,
+        model: reported.model,
+      }))));
+      reportVariantFailures(errors, variantCount);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.';
-      setError(errorMessage);
-      console.error(err);
+      reportRequestError(err);
     } finally {
-      setIsLoading(false);
+      finishRequest(controller);
     }
-  }, [originalImage, prompt, referenceImage]);
+  }, [
+    originalImage, prompt, referenceImages, baseNode, baseNodeId, variantCount, variantVariation,
+    startRequest, finishRequest, reportRequestError, reportVariantFailures,
+  ]);
 
   const handleInpaintRequest = useCallback(async () => {
-    if (!editedImage || !selection || !inpaintPrompt.trim()) {
-      setError('Por favor, selecione uma área e insira uma instrução para editar.');
+    const hasRectangle = Boolean(selection && selection.width > 0 && selection.height > 0);
+    if (!editedImage || !history.currentId || (!hasRectangle && !maskUrl) || !inpaintPrompt.trim()) {
+      setError({ key: 'errors.missingSelection' });
       return;
     }
 
     setIsLoading(true);
     setError(null);
 
-    const [header, base64] = editedImage.split(',');
-    const mimeTypeMatch = header.match(/:(.*?);/);
-    if (!base64 || !mimeTypeMatch) {
-        setError("Não foi possível processar a imagem editada existente.");
+    const parsed = dataUrlToBase64(editedImage);
+    if (!parsed) {
+        setError({ key: 'errors.editedUnreadable' });
         setIsLoading(false);
         return;
     }
-    const mimeType = mimeTypeMatch[1];
-    
+    const { base64, mimeType } = parsed;
+    const parentId = history.currentId;
+    const controller = startRequest();
+    const reported: { model?: string } = {};
+
     try {
-      const newImageBase64 = await editImageWithSelection(
+      let maskBase64: string;
+      try {
+        maskBase64 = await composeMask(base64, mimeType, {
+          selection: hasRectangle ? selection : null,
+          selectionMode: maskSettings.mode,
+          paintedMaskUrl: maskUrl,
+        });
+      } catch (maskError) {
+        console.error("Error creating selection mask:", maskError);
+        throw new LocalizedError('errors.maskFailed', {}, { cause: maskError });
+      }
+      const { images, errors } = await editImageWithMaskVariants(
         base64,
         mimeType,
         inpaintPrompt,
-        selection
+        maskBase64,
+        {
+          signal: controller.signal,
+          count: variantCount,
+          variation: variantVariation,
+          onUsage: usage => { reported.model = usage.model; },
+        }
       );
-      setEditedImage(`data:image/png;base64,${newImageBase64}`);
+      // Keep pixels outside the selection untouched by blending only the masked region back.
+      const newImages = compositeSettings.enabled
+        ? await Promise.all(images.map(modelImageBase64 =>
+            compositeMaskedEdit(editedImage, `data:image/png;base64,${modelImageBase64}`, maskBase64, compositeSettings)
+          ))
+        : images;
+      const variantGroupId = newImages.length > 1 ? crypto.randomUUID() : undefined;
+      setHistory(prev => addHistoryNodes(prev, newImages.map(imageBase64 => ({
+        parentId,
+        kind: 'inpaint' as const,
+        imageUrl: `data:image/png;base64,${imageBase64}`,
+        prompt: inpaintPrompt.trim(),
+        selection: hasRectangle ? selection : null,
+        maskUrl,
+        referenceImages: [],
+        variantGroupId,
+        model: reported.model,
+      }))));
+      reportVariantFailures(errors, variantCount);
       // Clear selection and prompt after successful generation
       setIsSelecting(false);
       setSelection(null);
+      setMaskUrl(null);
       setInpaintPrompt('');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.';
-      setError(errorMessage);
-      console.error(err);
+      reportRequestError(err);
     } finally {
-      setIsLoading(false);
+      finishRequest(controller);
     }
-  }, [editedImage, selection, inpaintPrompt]);
+  }, [
+    editedImage, history.currentId, selection, maskUrl, maskSettings.mode, compositeSettings, inpaintPrompt,
+    variantCount, variantVariation, startRequest, finishRequest, reportRequestError, reportVariantFailures,
+  ]);
   
+  // First half of a cutout: the model puts a flat key colour behind the product,
+  // which the cutout panel then removes locally.
+  const handleKeyBackgroundRequest = useCallback(async (color: KeyColor) => {
+    const source = editedImage ? dataUrlToBase64(editedImage) : originalImage;
+    if (!source) {
+      setError({ key: editedImage ? 'errors.editedUnreadable' : 'errors.missingImageOrPrompt' });
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setIsSelecting(false);
+    setSelection(null);
+    setMaskUrl(null);
+
+    const parentId = history.currentId;
+    const keyPrompt = keyBackgroundPrompt(color);
+    const controller = startRequest();
+    const reported: { model?: string } = {};
+
+    try {
+      const imageBase64 = await editImageWithPrompt(source.base64, source.mimeType, keyPrompt, [], {
+        signal: controller.signal,
+        onUsage: usage => { reported.model = usage.model; },
+      });
+      setHistory(prev => addHistoryNode(prev, {
+        parentId,
+        kind: 'edit',
+        imageUrl: `data:image/png;base64,${imageBase64}`,
+        prompt: keyPrompt,
+        selection: null,
+        maskUrl: null,
+        referenceImages: [],
+        model: reported.model,
+      }));
+    } catch (err) {
+      reportRequestError(err);
+    } finally {
+      finishRequest(controller);
+    }
+  }, [editedImage, originalImage, history.currentId, startRequest, finishRequest, reportRequestError]);
+
   const handleDownload = useCallback(() => {
     if (!editedImage) return;
-    const link = document.createElement('a');
-    link.href = editedImage;
-    link.download = `edited-image-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    setIsExportOpen(true);
   }, [editedImage]);
 
   const handleSelectAreaToggle = useCallback(() => {
@@ -168,12 +601,163 @@ const App: React.FC = () => {
         // If we are turning off selection mode, clear any existing selection and prompt
         if (!nextState) {
             setSelection(null);
+            setMaskUrl(null);
             setInpaintPrompt('');
         }
         return nextState;
     });
   }, []);
 
+  // Local (non-AI) edits become a new version on top of the current one.
+  const handleLocalEdit = useCallback((imageBase64: string, description: string) => {
+    setHistory(prev => addHistoryNode(prev, {
+      parentId: prev.currentId,
+      kind: 'adjust',
+      imageUrl: `data:image/png;base64,${imageBase64}`,
+      prompt: description,
+      selection: null,
+      maskUrl: null,
+      referenceImages: [],
+    }));
+  }, []);
+
+  const handleApplyAdjustments = useCallback((imageBase64: string, adjustments: ImageAdjustments) => {
+    setHistory(prev => addHistoryNode(prev, {
+      parentId: adjustmentParentId,
+      kind: 'adjust',
+      imageUrl: `data:image/png;base64,${imageBase64}`,
+      prompt: describeAdjustments(t, adjustments),
+      selection: null,
+      maskUrl: null,
+      referenceImages: [],
+      adjustments,
+    }));
+    setIsReopeningAdjustments(false);
+  }, [adjustmentParentId, t]);
+
+  // Leaving the current version invalidates any selection drawn on it.
+  const resetSelection = useCallback(() => {
+    setIsReopeningAdjustments(false);
+    setIsSelecting(false);
+    setSelection(null);
+    setMaskUrl(null);
+    setInpaintPrompt('');
+  }, []);
+
+  // Replays a recipe from the base version, adding one version per step so each
+  // can be inspected or undone. A failed step stops the run; earlier results stay.
+  const handleRunRecipe = useCallback(async (recipe: Recipe) => {
+    const source = baseNode ? dataUrlToBase64(baseNode.imageUrl) : originalImage;
+    if (!source) {
+      setError({ key: originalImage ? 'errors.baseUnreadable' : 'errors.missingImageOrPrompt' });
+      return;
+    }
+
+    resetSelection();
+    setIsLoading(true);
+    setError(null);
+
+    const statuses: RecipeStepStatus[] = recipe.steps.map(() => 'pending');
+    const setStatus = (index: number, status: RecipeStepStatus) => {
+      statuses[index] = status;
+      setRecipeRun({ recipeId: recipe.id, statuses: [...statuses] });
+    };
+    setRecipeRun({ recipeId: recipe.id, statuses: [...statuses] });
+
+    const controller = startRequest();
+    let image = { base64: source.base64, mimeType: source.mimeType };
+    for (const [index, step] of recipe.steps.entries()) {
+      setStatus(index, 'running');
+      const reported: { model?: string } = {};
+      try {
+        const result = await runRecipeStep(image, step, {
+          signal: controller.signal,
+          onUsage: usage => { reported.model = usage.model; },
+        });
+        setHistory(prev => addHistoryNode(prev, {
+          parentId: index === 0 ? baseNodeId : prev.currentId,
+          kind: step.kind,
+          imageUrl: `data:image/png;base64,${result.imageBase64}`,
+          prompt: step.kind === 'adjust' ? describeAdjustments(t, step.adjustments) : step.prompt,
+          selection: result.selection,
+          maskUrl: null,
+          referenceImages: step.kind === 'edit'
+            ? step.references.map(reference => ({
+                ...reference,
+                id: crypto.randomUUID(),
+                url: `data:${reference.mimeType};base64,${reference.base64}`,
+              }))
+            : [],
+          adjustments: step.kind === 'adjust' ? step.adjustments : undefined,
+          model: reported.model,
+        }));
+        image = { base64: result.imageBase64, mimeType: 'image/png' };
+        setStatus(index, 'done');
+      } catch (err) {
+        setStatus(index, 'error');
+        if (!isCancellation(err)) {
+          setError({
+            key: 'errors.recipeStepFailed',
+            params: { step: index + 1, detail: describeError(t, err, 'errors.editFailed') },
+          });
+          console.error(err);
+        }
+        break;
+      }
+    }
+    finishRequest(controller);
+  }, [originalImage, baseNode, baseNodeId, resetSelection, startRequest, finishRequest, t]);
+
+  const handleUndo = useCallback(() => {
+    resetSelection();
+    setHistory(undoHistory);
+  }, [resetSelection]);
+
+  const handleRedo = useCallback(() => {
+    resetSelection();
+    setHistory(redoHistory);
+  }, [resetSelection]);
+
+  const handleSelectVersion = useCallback((nodeId: string) => {
+    resetSelection();
+    setHistory(prev => checkoutHistoryNode(prev, nodeId));
+  }, [resetSelection]);
+
+  const handleToggleStar = useCallback((nodeId: string) => {
+    setHistory(prev => toggleHistoryNodeStar(prev, nodeId));
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isLoading || !(e.ctrlKey || e.metaKey)) return;
+      // Keep native undo/redo inside text fields.
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isLoading, handleUndo, handleRedo]);
+
+
+  const handleUploadSettingsChange = useCallback((settings: UploadSettings) => {
+    setUploadSettings(settings);
+    saveUploadSettings(settings);
+  }, []);
+
+  const handleProviderChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = event.target.value as ClientProviderId;
+    setActiveProviderId(id);
+    setProviderId(id);
+  };
 
   const triggerFileUpload = () => {
     fileInputRef.current?.click();
@@ -186,26 +770,92 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 font-sans text-gray-800">
       <header className="bg-white shadow-sm sticky top-0 z-10">
-        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 tracking-tight">
-            Editor de Fotos de Produto com IA
-          </h1>
-          <p className="text-sm text-gray-500 mt-1">
-            Limpe e aprimore suas fotos de produtos com simples comandos de texto.
-          </p>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 tracking-tight">
+              {t('app.title')}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {t('app.subtitle')}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              title={t('app.usageTitle')}
+              className={`inline-flex items-center px-3 py-1.5 border text-sm font-medium rounded-md bg-white hover:bg-gray-50 transition ${
+                budgetState === 'exceeded' ? 'border-red-400 text-red-700'
+                  : budgetState === 'warning' ? 'border-amber-400 text-amber-700'
+                  : 'border-gray-300 text-gray-700'
+              }`}
+            >
+              {t('app.usage', {
+                cost: formatNumber(sessionCost, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+              })}
+            </button>
+            <button
+              onClick={() => setIsProjectsOpen(true)}
+              disabled={isLoading}
+              title={projectName ?? undefined}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+            >
+              {t('app.projects')}{projectName && <span className="ml-2 max-w-[12rem] truncate text-gray-500">· {projectName}</span>}
+            </button>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+              {t('app.provider')}
+              <select
+                value={providerId}
+                onChange={handleProviderChange}
+                disabled={isLoading}
+                className="p-1.5 border border-gray-300 rounded-md bg-white disabled:opacity-50"
+              >
+                {(Object.keys(imageEditProviders) as ClientProviderId[]).map(id => (
+                  <option key={id} value={id}>{t(imageEditProviders[id].labelKey)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+              {t('common.language')}
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="p-1.5 border border-gray-300 rounded-md bg-white"
+              >
+                {LOCALES.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
         </div>
       </header>
 
       <main className="container mx-auto p-4 sm:p-6 lg:p-8">
         <div className="bg-white p-6 rounded-xl shadow-md border border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">1. Suas Instruções</h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">{t('app.instructions')}</h2>
+            <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm font-medium">
+              {(['single', 'batch'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  disabled={isLoading}
+                  className={`px-4 py-2 transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                    mode === option ? 'bg-brand-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {t(option === 'single' ? 'app.mode.single' : 'app.mode.batch')}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {/* Instructions Textarea */}
             <div className="md:col-span-2">
               <textarea
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
-                placeholder="ex: 'Remova o fundo e deixe-o branco', 'Adicione uma sombra natural', 'Deixe as cores mais vibrantes'..."
+                placeholder={t('app.promptPlaceholder')}
                 className="w-full h-full min-h-[112px] p-3 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-primary focus:border-brand-primary transition duration-200 resize-none bg-gray-800 text-white placeholder-gray-400"
                 disabled={isLoading}
               />
@@ -227,79 +877,273 @@ const App: React.FC = () => {
                 onChange={handleReferenceImageUpload}
                 className="hidden"
                 accept="image/*"
+                multiple
                 disabled={isLoading}
               />
-              <button
-                onClick={triggerFileUpload}
-                disabled={isLoading}
-                className="w-full inline-flex items-center justify-center px-4 py-3 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-primary disabled:opacity-50 disabled:cursor-not-allowed transition"
-              >
-                <UploadIcon className="w-5 h-5 mr-2" />
-                {originalImage ? 'Alterar Imagem' : '2. Enviar Imagem'}
-              </button>
-              
-              <button
-                onClick={triggerReferenceFileUpload}
-                disabled={isLoading}
-                className="w-full inline-flex items-center justify-center px-4 py-3 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-primary disabled:opacity-50 disabled:cursor-not-allowed transition"
-              >
-                <UploadIcon className="w-5 h-5 mr-2" />
-                {referenceImage ? 'Alterar Imagem de Ref.' : 'Enviar Imagem de Referência'}
-              </button>
-
-              <button
-                onClick={handleEditRequest}
-                disabled={isLoading || !originalImage || !prompt}
-                className="w-full inline-flex items-center justify-center px-4 py-3 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-primary hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
-              >
-                {isLoading ? (
-                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                ) : (
-                  <MagicWandIcon className="w-5 h-5 mr-2" />
-                )}
-                {isLoading ? 'Gerando...' : '3. Gerar'}
-              </button>
+              {mode === 'single' && (
+                <button
+                  onClick={triggerFileUpload}
+                  disabled={isLoading}
+                  className="w-full inline-flex items-center justify-center px-4 py-3 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-primary disabled:opacity-50 disabled:cursor-not-allowed transition"
+                >
+                  <UploadIcon className="w-5 h-5 mr-2" />
+                  {originalImage ? t('app.changeImage') : t('app.uploadImage')}
+                </button>
+              )}
+
+              <UploadSettingsPanel settings={uploadSettings} onChange={handleUploadSettingsChange} disabled={isLoading} />
+
+              {mode === 'single' && (
+                <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+                  <label className="flex flex-col gap-1">
+                    {t('app.variantCount')}
+                    <select
+                      value={variantCount}
+                      onChange={(e) => setVariantCount(Number(e.target.value))}
+                      disabled={isLoading}
+                      className="p-1.5 border border-gray-300 rounded-md bg-white text-sm disabled:opacity-50"
+                    >
+                      {VARIANT_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    {t('app.variation')}
+                    <select
+                      value={variantVariation}
+                      onChange={(e) => setVariantVariation(e.target.value as VariantVariation)}
+                      disabled={isLoading || variantCount === 1}
+                      className="p-1.5 border border-gray-300 rounded-md bg-white text-sm disabled:opacity-50"
+                    >
+                      {(Object.keys(variationLabels) as VariantVariation[]).map(variation => (
+                        <option key={variation} value={variation}>{t(variationLabels[variation])}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              )}
+
+              {mode === 'single' && (
+                <button
+                  onClick={handleEditRequest}
+                  disabled={isLoading || !originalImage || !prompt}
+                  className="w-full inline-flex items-center justify-center px-4 py-3 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-primary hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
+                >
+                  {isLoading ? (
+                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  ) : (
+                    <MagicWandIcon className="w-5 h-5 mr-2" />
+                  )}
+                  {isLoading ? t('common.generating') : variantCount > 1 ? t('app.generateVariants', { count: variantCount }) : t('app.generate')}
+                </button>
+              )}
+
+              {isLoading && (
+                <button
+                  onClick={handleCancelRequest}
+                  className="w-full inline-flex items-center justify-center px-4 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-400 transition"
+                >
+                  {t('common.cancel')}
+                </button>
+              )}
             </div>
           </div>
 
+          {budgetState === 'warning' && budget.limit !== null && (
+            <div className="mt-6 bg-amber-50 border-l-4 border-amber-400 p-4 rounded-md" role="status">
+              <p className="text-sm text-amber-800">
+                {t('app.budgetWarning', {
+                  percent: formatNumber((sessionCost / budget.limit) * 100, { maximumFractionDigits: 0 }),
+                })}
+              </p>
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="mt-6 bg-red-50 border-l-4 border-red-400 p-4 rounded-md" role="alert">
               <div className="flex">
                 <div className="py-1"><AlertTriangleIcon className="h-5 w-5 text-red-400 mr-3"/></div>
                 <div>
-                  <p className="text-sm text-red-700 font-semibold">Ocorreu um erro</p>
-                  <p className="text-sm text-red-600">{error}</p>
+                  <p className="text-sm text-red-700 font-semibold">{t('app.errorTitle')}</p>
+                  <p className="text-sm text-red-600">{t(error.key, error.params)}</p>
                 </div>
               </div>
             </div>
           )}
         </div>
 
+        {mode === 'batch' ? (
+        <div className="mt-8">
+          <BatchPanel prompt={prompt} referenceImages={referenceImages} uploadSettings={uploadSettings} disabled={isLoading} />
+          <div className="mt-8 max-w-sm">
+            <DropZone onDrop={handleReferenceDrop} label={t('app.dropReference')} disabled={isLoading}>
+              <ReferencePanel references={referenceImages} onChange={setReferenceImages} onAdd={triggerReferenceFileUpload} disabled={isLoading} />
+            </DropZone>
+          </div>
+        </div>
+        ) : (
         <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-8 items-start">
-          <ImageCard title="Imagem Original" imageUrl={originalImage?.url ?? null} />
-          <ImageCard title="Imagem de Referência" imageUrl={referenceImage?.url ?? null} placeholderText="Envie uma imagem de referência (opcional)" />
-          <ImageCard 
-            title="Imagem Editada" 
-            imageUrl={editedImage} 
-            isLoading={isLoading}
-            onDownload={handleDownload}
-            onSelectAreaToggle={handleSelectAreaToggle}
-            isSelecting={isSelecting}
-            selection={selection}
-            onSelectionChange={setSelection}
-            inpaintPrompt={inpaintPrompt}
-            onInpaintPromptChange={(e) => setInpaintPrompt(e.target.value)}
-            onInpaintRequest={handleInpaintRequest}
-          />
+          <div>
+            <DropZone
+              onDrop={handleOriginalDrop}
+              label={t('app.dropOriginal')}
+              acceptedTypes={[...EXTERNAL_IMAGE_TYPES, HISTORY_NODE_MIME]}
+              disabled={isLoading}
+            >
+              <ImageCard
+                title={baseNode ? t('app.baseTitle', { version: history.order.indexOf(baseNode.id) + 1 }) : t('app.originalTitle')}
+                imageUrl={baseNode?.imageUrl ?? originalImage?.url ?? null}
+                placeholderText={t('app.originalPlaceholder')}
+              />
+            </DropZone>
+            {originalImage && ((originalImage.preprocessingNotes?.length ?? 0) > 0 || originalImage.provenance) && (
+              <div className="mt-4 bg-white rounded-xl shadow-md border border-gray-200 p-3 text-xs text-gray-600">
+                <h4 className="text-sm font-semibold text-gray-700 mb-1">{t('app.uploadNotes')}</h4>
+                <ul className="list-disc pl-4 space-y-0.5">
+                  {originalImage.preprocessingNotes?.map(note => <li key={note.key}>{t(note.key, note.params)}</li>)}
+                  {originalImage.provenance && (
+                    <li>
+                      {t('app.provenanceFound', {
+                        name: originalImage.provenance.original.name ?? t('app.provenanceUnknownName'),
+                        count: originalImage.provenance.steps.length,
+                      })}
+                      <ol className="list-decimal pl-4 mt-0.5 text-gray-500">
+                        {originalImage.provenance.steps.map((step, index) => (
+                          <li key={index} className="truncate" title={step.prompt}>{step.prompt}</li>
+                        ))}
+                      </ol>
+                    </li>
+                  )}
+                </ul>
+                {originalImage.source && (
+                  <button
+                    onClick={() => downloadBlob(originalImage.source!.blob, originalImage.name ?? 'original')}
+                    className="mt-2 text-brand-primary hover:underline"
+                  >
+                    {t('app.downloadOriginal', {
+                      width: String(originalImage.source.width),
+                      height: String(originalImage.source.height),
+                    })}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          <DropZone onDrop={handleReferenceDrop} label={t('app.dropReference')} disabled={isLoading}>
+            <ReferencePanel references={referenceImages} onChange={setReferenceImages} onAdd={triggerReferenceFileUpload} disabled={isLoading} />
+          </DropZone>
+          <div>
+            <ImageCard 
+              title={t('app.editedTitle')}
+              imageUrl={editedImage} 
+              isLoading={isLoading}
+              onDownload={handleDownload}
+              onSelectAreaToggle={handleSelectAreaToggle}
+              isSelecting={isSelecting}
+              selection={selection}
+              onSelectionChange={setSelection}
+              inpaintPrompt={inpaintPrompt}
+              onInpaintPromptChange={(e) => setInpaintPrompt(e.target.value)}
+              onInpaintRequest={handleInpaintRequest}
+              maskUrl={maskUrl}
+              onMaskChange={setMaskUrl}
+              maskSettings={maskSettings}
+              onMaskSettingsChange={setMaskSettings}
+              compositeSettings={compositeSettings}
+              onCompositeSettingsChange={setCompositeSettings}
+              overlayUrl={isSelecting ? null : complianceOverlay}
+              compareUrl={previousImage}
+              dragNodeId={history.currentId}
+            />
+            <VariantGrid
+              variants={variants}
+              currentId={history.currentId}
+              sourceName={originalImage?.name}
+              disabled={isLoading}
+              onSelect={handleSelectVersion}
+              onToggleStar={handleToggleStar}
+            />
+            <HistoryStrip
+              history={history}
+              baseNodeId={baseNodeId}
+              canUndo={canUndo(history)}
+              canRedo={canRedo(history)}
+              disabled={isLoading}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onSelect={handleSelectVersion}
+              onUseAsBase={setBaseNodeId}
+            />
+            <CompliancePanel
+              imageUrl={editedImage}
+              disabled={isLoading}
+              onOverlayChange={setComplianceOverlay}
+              onAutoFix={handleLocalEdit}
+            />
+            <AdjustmentPanel
+              imageUrl={adjustmentImageUrl}
+              initialAdjustments={initialAdjustments}
+              disabled={isLoading}
+              canReopen={canReopenAdjustments}
+              isReopened={isAdjustmentReopened}
+              onReopenToggle={() => setIsReopeningAdjustments(prev => !prev)}
+              onApply={handleApplyAdjustments}
+            />
+            <CutoutPanel
+              imageUrl={editedImage ?? originalImage?.url ?? null}
+              disabled={isLoading}
+              onRequestKeyBackground={handleKeyBackgroundRequest}
+              onApply={handleLocalEdit}
+            />
+            <ShadowPanel
+              imageUrl={editedImage ?? originalImage?.url ?? null}
+              disabled={isLoading}
+              onApply={handleLocalEdit}
+            />
+            <RecipePanel
+              history={history}
+              compositeSettings={compositeSettings}
+              run={recipeRun}
+              canRun={Boolean(originalImage)}
+              disabled={isLoading}
+              onRun={handleRunRecipe}
+            />
+          </div>
         </div>
+        )}
       </main>
 
+      {isExportOpen && editedImage && (
+        <ExportDialog
+          imageUrl={editedImage}
+          sourceName={originalImage?.name}
+          sourceScale={originalImage?.source?.scale}
+          renderFullResolution={sourceFile && exportSteps ? () => renderSourceFile(sourceFile, exportSteps) : undefined}
+          getProvenance={originalImage && history.currentId
+            ? () => buildProvenance(history, history.currentId!, originalImage)
+            : undefined}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {isUsageOpen && <UsageDashboard onClose={() => setIsUsageOpen(false)} />}
+
+      {isProjectsOpen && (
+        <ProjectList
+          currentProjectId={currentProjectId}
+          onOpen={handleOpenProject}
+          onNew={handleNewProject}
+          onRenamed={(id, name) => { if (id === currentProjectId) setProjectName(name); }}
+          onDeleted={handleProjectDeleted}
+          onClose={() => setIsProjectsOpen(false)}
+        />
+      )}
+
       <footer className="text-center py-6 text-sm text-gray-500">
-          <p>Desenvolvido com a API Gemini. Projetado para aprimoramento de fotografia de produtos.</p>
+          <p>{t('app.footer')}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ImageAdjustments, QuarterTurn, Selection } from '../types';
+import {
+  DEFAULT_ADJUSTMENTS,
+  renderAdjustments,
+  whiteBalanceFromSample,
+} from '../utils/adjustments';
+import { loadImage, canvasToBase64 } from '../utils/canvasUtils';
+import { AdjustmentsIcon, ProcessingIcon } from './Icons';
+import { PREVIEW_SIZE, Slider, activeToolButtonClass, toolButtonClass } from './PanelControls';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface AdjustmentPanelProps {
+  // The image the adjustments start from.
+  imageUrl: string | null;
+  initialAdjustments: ImageAdjustments;
+  disabled?: boolean;
+  // Set when the current version was made here, so its settings can be reopened.
+  canReopen?: boolean;
+  isReopened?: boolean;
+  onReopenToggle?: () => void;
+  onApply: (imageBase64: string, adjustments: ImageAdjustments) => void;
+}
+
+type PanelTool = 'none' | 'crop' | 'eyedropper';
+
+type CropAspect = 'free' | 'original' | '1:1' | '4:3' | '3:4' | '16:9' | '9:16';
+
+// Ratios are shown as written; only the named options are translated.
+const aspectLabels: Record<CropAspect, MessageKey | null> = {
+  free: 'adjust.aspect.free',
+  original: 'adjust.aspect.original',
+  '1:1': null,
+  '4:3': null,
+  '3:4': null,
+  '16:9': null,
+  '9:16': null,
+};
+
+const MIN_CROP_FRACTION = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
+  imageUrl,
+  initialAdjustments,
+  disabled = false,
+  canReopen = false,
+  isReopened = false,
+  onReopenToggle,
+  onApply,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(initialAdjustments);
+  const [tool, setTool] = useState<PanelTool>('none');
+  const [aspect, setAspect] = useState<CropAspect>('free');
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [preview, setPreview] = useState<{ url: string; width: number; height: number } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: 'draw' | 'move'; startX: number; startY: number; crop: Selection | null } | null>(null);
+
+  // A new starting image (e.g. after applying) starts from its own settings.
+  useEffect(() => {
+    setAdjustments(initialAdjustments);
+  }, [imageUrl, initialAdjustments]);
+
+  useEffect(() => {
+    if (!imageUrl || !isOpen) {
+      setSource(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(image => { if (!cancelled) setSource(image); })
+      .catch(err => {
+        if (cancelled) return;
+        setError('errors.adjustLoadFailed');
+        console.error(err);
+      });
+    return () => { cancelled = true; };
+  }, [imageUrl, isOpen]);
+
+  // The preview shows the whole frame so the crop box can be drawn over it.
+  useEffect(() => {
+    if (!source) {
+      setPreview(null);
+      return;
+    }
+    try {
+      const canvas = renderAdjustments(source, source.width, source.height, adjustments, { skipCrop: true, maxSize: PREVIEW_SIZE });
+      setPreview({ url: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height });
+    } catch (err) {
+      setError('errors.adjustPreviewFailed');
+      console.error(err);
+    }
+  }, [source, adjustments]);
+
+  const update = (changes: Partial<ImageAdjustments>) => setAdjustments(prev => ({ ...prev, ...changes }));
+
+  // Rotation changes the frame the crop was drawn on, so the crop is dropped.
+  const rotate = (delta: 90 | -90) => update({
+    rotation: (((adjustments.rotation + delta) % 360 + 360) % 360) as QuarterTurn,
+    crop: null,
+  });
+
+  // Width/height ratio of the crop, expressed in fractions of the preview frame.
+  const aspectInFractions = useCallback((): number | null => {
+    if (aspect === 'free' || !preview) return null;
+    const pixelRatio = aspect === 'original'
+      ? preview.width / preview.height
+      : (() => {
+          const [w, h] = aspect.split(':').map(Number);
+          return w / h;
+        })();
+    return pixelRatio * (preview.height / preview.width);
+  }, [aspect, preview]);
+
+  const pointerToFraction = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width, 0, 1),
+      y: clamp((e.clientY - rect.top) / rect.height, 0, 1),
+    };
+  };
+
+  const sampleWhiteBalance = (point: { x: number; y: number }) => {
+    if (!source) return;
+    // Sample the image without tone changes, so the gains do not compound.
+    const { rotation, flipHorizontal, flipVertical, straighten } = adjustments;
+    const neutral = { ...DEFAULT_ADJUSTMENTS, rotation, flipHorizontal, flipVertical, straighten };
+    const canvas = renderAdjustments(source, source.width, source.height, neutral, { skipCrop: true, maxSize: PREVIEW_SIZE });
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const radius = 2;
+    const x = clamp(Math.round(point.x * canvas.width) - radius, 0, canvas.width - 1);
+    const y = clamp(Math.round(point.y * canvas.height) - radius, 0, canvas.height - 1);
+    const data = ctx.getImageData(x, y, radius * 2 + 1, radius * 2 + 1).data;
+    let r = 0, g = 0, b = 0;
+    const count = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+    }
+    update({ whiteBalance: whiteBalanceFromSample(r / count, g / count, b / count) });
+    setTool('none');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || e.button !== 0) return;
+    const point = pointerToFraction(e);
+    if (tool === 'eyedropper') {
+      sampleWhiteBalance(point);
+      return;
+    }
+    if (tool !== 'crop') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const crop = adjustments.crop;
+    const isInside = crop && point.x >= crop.x && point.x <= crop.x + crop.width && point.y >= crop.y && point.y <= crop.y + crop.height;
+    dragRef.current = { mode: isInside ? 'move' : 'draw', startX: point.x, startY: point.y, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = pointerToFraction(e);
+
+    if (drag.mode === 'move' && drag.crop) {
+      const { crop } = drag;
+      update({
+        crop: {
+          ...crop,
+          x: clamp(crop.x + point.x - drag.startX, 0, 1 - crop.width),
+          y: clamp(crop.y + point.y - drag.startY, 0, 1 - crop.height),
+        },
+      });
+      return;
+    }
+
+    let width = Math.abs(point.x - drag.startX);
+    let height = Math.abs(point.y - drag.startY);
+    const ratio = aspectInFractions();
+    if (ratio) {
+      // Grow along the dominant direction, then fit inside the frame.
+      if (width / height > ratio) height = width / ratio;
+      else width = height * ratio;
+      const maxWidth = point.x >= drag.startX ? 1 - drag.startX : drag.startX;
+      const maxHeight = point.y >= drag.startY ? 1 - drag.startY : drag.startY;
+      const fit = Math.min(1, maxWidth / width, maxHeight / height);
+      width *= fit;
+      height *= fit;
+    }
+    update({
+      crop: {
+        x: point.x >= drag.startX ? drag.startX : drag.startX - width,
+        y: point.y >= drag.startY ? drag.startY : drag.startY - height,
+        width,
+        height,
+      },
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    const crop = adjustments.crop;
+    if (crop && (crop.width < MIN_CROP_FRACTION || crop.height < MIN_CROP_FRACTION)) update({ crop: null });
+  };
+
+  const handleApply = async () => {
+    if (!source) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      // Let the spinner render before the full-resolution pass blocks the thread.
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const canvas = renderAdjustments(source, source.width, source.height, adjustments);
+      onApply(canvasToBase64(canvas), adjustments);
+      setTool('none');
+    } catch (err) {
+      setError('errors.adjustApplyFailed');
+      console.error(err);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!imageUrl) return null;
+
+  const { levels, curve, whiteBalance, crop } = adjustments;
+  const isUnchanged = JSON.stringify(adjustments) === JSON.stringify(DEFAULT_ADJUSTMENTS);
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow-md border border-gray-200 p-3">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-sm font-semibold text-gray-700"
+        aria-expanded={isOpen}
+      >
+        <span className="inline-flex items-center">
+          <AdjustmentsIcon className="w-4 h-4 mr-1.5" />
+          {t('adjust.title')}
+        </span>
+        <span className="text-xs font-normal text-gray-500">{isOpen ? t('common.close') : t('common.open')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 flex flex-col gap-3">
+          {canReopen && (
+            <label className="inline-flex items-center gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={isReopened} onChange={onReopenToggle} disabled={disabled} />
+              {t('adjust.reopen')}
+            </label>
+          )}
+
+          <div
+            ref={frameRef}
+            className={`relative overflow-hidden rounded-md bg-gray-100 select-none touch-none ${
+              tool === 'crop' ? 'cursor-crosshair' : tool === 'eyedropper' ? 'cursor-cell' : ''
+            }`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {preview ? (
+              <img src={preview.url} alt={t('adjust.previewAlt')} className="block w-full h-auto" draggable={false} />
+            ) : (
+              <div className="h-40 flex items-center justify-center text-gray-400">
+                <ProcessingIcon className="w-6 h-6 animate-spin" />
+              </div>
+            )}
+            {preview && crop && (
+              <div
+                className="absolute border-2 border-white pointer-events-none"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                }}
+              />
+            )}
+          </div>
+          {tool === 'eyedropper' && (
+            <p className="text-xs text-brand-primary">{t('adjust.eyedropperHint')}</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => setTool(tool === 'crop' ? 'none' : 'crop')} className={tool === 'crop' ? activeToolButtonClass : toolButtonClass}>
+              {t('adjust.crop')}
+            </button>
+            <select
+              value={aspect}
+              onChange={(e) => {
+                setAspect(e.target.value as CropAspect);
+                update({ crop: null });
+              }}
+              title={t('adjust.cropAspect')}
+              className="p-1 border border-gray-300 rounded-md bg-white text-xs"
+            >
+              {(Object.keys(aspectLabels) as CropAspect[]).map(option => (
+                <option key={option} value={option}>{aspectLabels[option] ? t(aspectLabels[option]!) : option}</option>
+              ))}
+            </select>
+            <button onClick={() => update({ crop: null })} disabled={!crop} className={toolButtonClass}>{t('adjust.noCrop')}</button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => rotate(-90)} className={toolButtonClass} title={t('adjust.rotateLeft')}>↺ 90°</button>
+            <button onClick={() => rotate(90)} className={toolButtonClass} title={t('adjust.rotateRight')}>↻ 90°</button>
+            <button onClick={() => update({ flipHorizontal: !adjustments.flipHorizontal })} className={adjustments.flipHorizontal ? activeToolButtonClass : toolButtonClass}>
+              {t('adjust.flipHorizontal')}
+            </button>
+            <button onClick={() => update({ flipVertical: !adjustments.flipVertical })} className={adjustments.flipVertical ? activeToolButtonClass : toolButtonClass}>
+              {t('adjust.flipVertical')}
+            </button>
+          </div>
+          <Slider label={t('adjust.straighten')} value={adjustments.straighten} min={-45} max={45} step={0.1} onChange={(straighten) => update({ straighten })} />
+
+          <div className="flex flex-col gap-1.5">
+            <Slider label={t('adjust.brightness')} value={adjustments.brightness} min={-100} max={100} onChange={(brightness) => update({ brightness })} />
+            <Slider label={t('adjust.contrast')} value={adjustments.contrast} min={-100} max={100} onChange={(contrast) => update({ contrast })} />
+            <Slider label={t('adjust.saturation')} value={adjustments.saturation} min={-100} max={100} onChange={(saturation) => update({ saturation })} />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <h5 className="text-xs font-semibold text-gray-700">{t('adjust.levels')}</h5>
+            <Slider label={t('adjust.black')} value={levels.black} min={0} max={levels.white - 1} onChange={(black) => update({ levels: { ...levels, black } })} />
+            <Slider label={t('adjust.white')} value={levels.white} min={levels.black + 1} max={255} onChange={(white) => update({ levels: { ...levels, white } })} />
+            <Slider label={t('adjust.gamma')} value={levels.gamma} min={0.2} max={3} step={0.05} onChange={(gamma) => update({ levels: { ...levels, gamma } })} />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <h5 className="text-xs font-semibold text-gray-700">{t('adjust.curve')}</h5>
+            <Slider label={t('adjust.shadows')} value={curve.shadows} min={-64} max={64} onChange={(shadows) => update({ curve: { ...curve, shadows } })} />
+            <Slider label={t('adjust.midtones')} value={curve.midtones} min={-64} max={64} onChange={(midtones) => update({ curve: { ...curve, midtones } })} />
+            <Slider label={t('adjust.highlights')} value={curve.highlights} min={-64} max={64} onChange={(highlights) => update({ curve: { ...curve, highlights } })} />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <h5 className="text-xs font-semibold text-gray-700 mr-auto">{t('adjust.whiteBalance')}</h5>
+            <button onClick={() => setTool(tool === 'eyedropper' ? 'none' : 'eyedropper')} className={tool === 'eyedropper' ? activeToolButtonClass : toolButtonClass}>
+              {t('adjust.eyedropper')}
+            </button>
+            <button onClick={() => update({ whiteBalance: DEFAULT_ADJUSTMENTS.whiteBalance })} className={toolButtonClass}>{t('adjust.neutral')}</button>
+            <span className="w-full text-[11px] text-gray-500 tabular-nums">
+              R ×{whiteBalance.r.toFixed(2)} · G ×{whiteBalance.g.toFixed(2)} · B ×{whiteBalance.b.toFixed(2)}
+            </span>
+          </div>
+
+          {error && <p className="text-xs text-red-600">{t(error)}</p>}
+
+          <div className="flex justify-between gap-2">
+            <button onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)} disabled={isUnchanged} className={toolButtonClass}>{t('adjust.reset')}</button>
+            <button
+              onClick={handleApply}
+              disabled={disabled || isApplying || isUnchanged || !source}
+              className="px-3 py-1.5 text-xs font-medium border border-transparent rounded-md text-white bg-brand-primary hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
+            >
+              {isApplying ? t('adjust.applying') : t('adjust.apply')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdjustmentPanel;
@@ -0,0 +1,496 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { editImageWithPrompt } from '../services/imageEditService';
+import { base64ToBytes, stripExtension, downloadBlob } from '../utils/fileUtils';
+import { createZip, uniqueFileNames } from '../utils/zip';
+import { MAX_REFERENCE_IMAGES } from '../services/imageEditProvider';
+import { CatalogueRow, Provenance, ReferenceImage, UploadSettings } from '../types';
+import { preprocessImage } from '../utils/imagePreprocess';
+import { createProvenance, embedProvenance, readProvenance, sha256Hex } from '../utils/provenance';
+import { renderExport } from '../utils/exportUtils';
+import {
+  CATALOGUE_EXPORT_PROFILE,
+  CatalogueReportEntry,
+  catalogueOutputName,
+  catalogueReportToCsv,
+  isSameCatalogueRow,
+  matchesCatalogueFile,
+  parseCatalogue,
+} from '../utils/catalogue';
+import { UploadIcon, DownloadIcon, ProcessingIcon } from './Icons';
+import { LocalizedError, LocalizedMessage, MessageKey, describeError, toLocalizedMessage } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+type BatchItemStatus = 'pending' | 'processing' | 'done' | 'error';
+
+interface BatchItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: BatchItemStatus;
+  resultUrl?: string;
+  // Embedded in the result when the ZIP is built.
+  provenance?: Provenance;
+  // Kept as caught so the message follows the active language.
+  error?: unknown;
+  attempts: number;
+  // The SKU catalogue line this photo was matched to, with its own prompt and reference.
+  row?: CatalogueRow;
+}
+
+interface BatchPanelProps {
+  prompt: string;
+  referenceImages: ReferenceImage[];
+  uploadSettings: UploadSettings;
+  disabled?: boolean;
+}
+
+const MAX_CONCURRENCY = 8;
+
+const statusLabels: Record<BatchItemStatus, MessageKey> = {
+  pending: 'batch.status.pending',
+  processing: 'batch.status.processing',
+  done: 'batch.status.done',
+  error: 'batch.status.error',
+};
+
+const statusClasses: Record<BatchItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  processing: 'bg-blue-100 text-blue-700',
+  done: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+const createItem = (file: File, row?: CatalogueRow): BatchItem => ({
+  id: crypto.randomUUID(),
+  file,
+  previewUrl: URL.createObjectURL(file),
+  status: 'pending',
+  attempts: 0,
+  row,
+});
+
+// A file listed on several catalogue lines is queued once per line.
+const createItems = (file: File, catalogue: CatalogueRow[] | null): BatchItem[] => {
+  const rows = catalogue?.filter(row => matchesCatalogueFile(row.fileName, file.name)) ?? [];
+  return rows.length > 0 ? rows.map(row => createItem(file, row)) : [createItem(file)];
+};
+
+// Files only named in the reference column are used as references, not edited.
+const isReferenceOnly = (file: File, catalogue: CatalogueRow[] | null): boolean =>
+  !!catalogue
+  && catalogue.some(row => row.referenceFileName && matchesCatalogueFile(row.referenceFileName, file.name))
+  && !catalogue.some(row => matchesCatalogueFile(row.fileName, file.name));
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ prompt, referenceImages, uploadSettings, disabled = false }) => {
+  const { t, locale, formatFileDate } = useI18n();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [catalogue, setCatalogue] = useState<CatalogueRow[] | null>(null);
+  const [referenceFiles, setReferenceFiles] = useState<File[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [notice, setNotice] = useState<LocalizedMessage | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const catalogueInputRef = useRef<HTMLInputElement>(null);
+
+  // The prompt and references are captured when the queue starts so edits to the
+  // main form do not change the instruction halfway through a shoot.
+  const jobRef = useRef<{
+    prompt: string;
+    referenceImages: ReferenceImage[];
+    referenceFiles: File[];
+    uploadSettings: UploadSettings | null;
+  }>({
+    prompt: '',
+    referenceImages: [],
+    referenceFiles: [],
+    uploadSettings: null,
+  });
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const processItem = useCallback(async (item: BatchItem) => {
+    try {
+      const { referenceFiles: jobReferenceFiles, uploadSettings: jobUploadSettings } = jobRef.current;
+      const settings = jobUploadSettings ?? uploadSettings;
+      const { row } = item;
+      // Catalogue lines override the batch prompt; their reference joins the batch ones.
+      const jobPrompt = row?.prompt ?? jobRef.current.prompt;
+      let jobReferences = jobRef.current.referenceImages;
+      if (row?.referenceFileName) {
+        const referenceFile = jobReferenceFiles.find(file => matchesCatalogueFile(row.referenceFileName!, file.name));
+        if (!referenceFile) throw new LocalizedError('errors.catalogueReferenceMissing', { name: row.referenceFileName });
+        const reference = await preprocessImage(referenceFile, settings);
+        URL.revokeObjectURL(reference.url);
+        jobReferences = [
+          ...jobReferences.slice(0, MAX_REFERENCE_IMAGES - 1),
+          { ...reference, id: crypto.randomUUID(), role: row.referenceRole },
+        ];
+      }
+      const prepared = await preprocessImage(item.file, settings);
+      URL.revokeObjectURL(prepared.url);
+      const { base64, mimeType } = prepared;
+      const reported: { model?: string } = {};
+      const resultBase64 = await editImageWithPrompt(base64, mimeType, jobPrompt, jobReferences, {
+        onUsage: usage => { reported.model = usage.model; },
+      });
+      // A file exported earlier by the app keeps its original and earlier steps.
+      const previous = await readProvenance(item.file).catch(() => null);
+      const provenance = createProvenance(
+        previous?.original ?? { name: item.file.name, sha256: await sha256Hex(item.file) },
+        [...(previous?.steps ?? []), {
+          kind: 'edit',
+          prompt: jobPrompt,
+          model: reported.model ?? null,
+          selection: null,
+          maskBounds: null,
+          referenceRoles: jobReferences.map(reference => reference.role),
+          createdAt: new Date().toISOString(),
+        }]
+      );
+      updateItem(item.id, { status: 'done', resultUrl: `data:image/png;base64,${resultBase64}`, provenance, error: undefined });
+    } catch (err) {
+      updateItem(item.id, { status: 'error', error: err });
+      console.error(err);
+    }
+  }, [updateItem, uploadSettings]);
+
+  // Scheduler: whenever the queue changes, start pending items until the concurrency limit is reached.
+  useEffect(() => {
+    if (!isRunning || isPaused) return;
+
+    const activeCount = items.filter(item => item.status === 'processing').length;
+    const toStart = items.filter(item => item.status === 'pending').slice(0, Math.max(0, concurrency - activeCount));
+
+    if (toStart.length === 0) {
+      if (activeCount === 0) setIsRunning(false);
+      return;
+    }
+
+    const startIds = new Set(toStart.map(item => item.id));
+    setItems(prev => prev.map(item =>
+      startIds.has(item.id) ? { ...item, status: 'processing', attempts: item.attempts + 1 } : item
+    ));
+    toStart.forEach(item => { processItem(item); });
+  }, [items, isRunning, isPaused, concurrency, processItem]);
+
+  // Release the preview object URLs when the panel goes away.
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  useEffect(() => () => itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl)), []);
+
+  const handleFilesSelected = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    const skipped = files.length - imageFiles.length;
+    setNotice(skipped > 0 ? { key: 'batch.skipped', params: { count: skipped } } : null);
+
+    setReferenceFiles(prev => [...prev, ...imageFiles.filter(file => isReferenceOnly(file, catalogue))]);
+    setItems(prev => [
+      ...prev,
+      ...imageFiles.filter(file => !isReferenceOnly(file, catalogue)).flatMap(file => createItems(file, catalogue)),
+    ]);
+  }, [catalogue]);
+
+  const handleCatalogueSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    let rows: CatalogueRow[];
+    try {
+      rows = parseCatalogue(await file.text());
+    } catch (err) {
+      setNotice(toLocalizedMessage(err, 'errors.catalogueInvalid'));
+      console.error(err);
+      return;
+    }
+    setNotice(null);
+    setCatalogue(rows);
+
+    // Edited photos keep their result and take the new line with the same SKU and image.
+    const claimed = new Set<CatalogueRow>();
+    const finished = new Map<string, BatchItem>();
+    for (const item of itemsRef.current) {
+      if (item.status !== 'processing' && item.status !== 'done') continue;
+      const row = item.row && rows.find(candidate =>
+        !claimed.has(candidate) && candidate.sku === item.row!.sku && matchesCatalogueFile(candidate.fileName, item.file.name)
+      );
+      if (row) claimed.add(row);
+      finished.set(item.id, { ...item, row });
+    }
+
+    // The other photos and the earlier references are matched again against the lines left.
+    const openRows = rows.filter(row => !claimed.has(row));
+    const seen = new Set<File>();
+    const next: BatchItem[] = [];
+    const references: File[] = [];
+    const rematch = (image: File) => {
+      if (seen.has(image)) return;
+      seen.add(image);
+      const listed = rows.filter(row => matchesCatalogueFile(row.fileName, image.name));
+      if (isReferenceOnly(image, rows)) {
+        references.push(image);
+      } else if (listed.length === 0 || listed.some(row => !claimed.has(row))) {
+        // A photo whose lines all have a result already is not queued again.
+        next.push(...createItems(image, openRows));
+      }
+    };
+    for (const item of itemsRef.current) {
+      const kept = finished.get(item.id);
+      if (kept) {
+        next.push(kept);
+        continue;
+      }
+      URL.revokeObjectURL(item.previewUrl);
+      rematch(item.file);
+    }
+    referenceFiles.forEach(rematch);
+    setItems(next);
+    setReferenceFiles(references);
+  }, [referenceFiles]);
+
+  const handleStart = useCallback(() => {
+    // A blank batch prompt is fine when every photo has its own from the catalogue.
+    const needsPrompt = items.some(item => item.status === 'pending' && !item.row?.prompt);
+    if (!prompt.trim() && needsPrompt) {
+      setNotice({ key: 'batch.missingPrompt' });
+      return;
+    }
+    setNotice(null);
+    jobRef.current = { prompt: prompt.trim(), referenceImages, referenceFiles, uploadSettings };
+    setIsPaused(false);
+    setIsRunning(true);
+  }, [items, prompt, referenceImages, referenceFiles, uploadSettings]);
+
+  const handleRetry = useCallback((id?: string) => {
+    setItems(prev => prev.map(item =>
+      item.status === 'error' && (!id || item.id === id) ? { ...item, status: 'pending', error: undefined } : item
+    ));
+    if (!isRunning) {
+      // Retrying outside a run reuses the last instruction, or the current one if the queue never ran.
+      if (!jobRef.current.prompt) jobRef.current = { prompt: prompt.trim(), referenceImages, referenceFiles, uploadSettings };
+      setIsPaused(false);
+      setIsRunning(true);
+    }
+  }, [isRunning, prompt, referenceImages, referenceFiles, uploadSettings]);
+
+  const handleRemove = useCallback((id: string) => {
+    setItems(prev => {
+      const item = prev.find(i => i.id === id);
+      if (item) URL.revokeObjectURL(item.previewUrl);
+      return prev.filter(i => i.id !== id);
+    });
+  }, []);
+
+  const handleClear = useCallback(() => {
+    setItems(prev => {
+      prev.forEach(item => URL.revokeObjectURL(item.previewUrl));
+      return [];
+    });
+    setReferenceFiles([]);
+    setIsRunning(false);
+    setIsPaused(false);
+  }, []);
+
+  const handleRemoveCatalogue = useCallback(() => {
+    setCatalogue(null);
+    setReferenceFiles([]);
+    setItems(prev => prev.map(item => (item.status === 'processing' || item.status === 'done' ? item : { ...item, row: undefined })));
+  }, []);
+
+  const handleDownloadZip = useCallback(async () => {
+    const doneItems = items.filter(item => item.status === 'done' && item.resultUrl);
+    if (doneItems.length === 0) return;
+    // Catalogue photos are named after their SKU, the rest after the uploaded file.
+    const names = uniqueFileNames(doneItems.map(item =>
+      item.row ? catalogueOutputName(item.row, locale) : `${stripExtension(item.file.name)}.png`
+    ));
+    try {
+      const zip = createZip(await Promise.all(doneItems.map(async (item, index) => {
+        const image = item.row
+          ? (await renderExport(item.resultUrl!, CATALOGUE_EXPORT_PROFILE)).blob
+          : new Blob([base64ToBytes(item.resultUrl!.split(',')[1])], { type: 'image/png' });
+        const blob = item.provenance ? await embedProvenance(image, item.provenance) : image;
+        return { name: names[index], data: new Uint8Array(await blob.arrayBuffer()) };
+      })));
+      downloadBlob(zip, `${t('batch.zipName', { date: formatFileDate(Date.now(), true) })}.zip`);
+    } catch (err) {
+      setNotice(toLocalizedMessage(err, 'errors.exportFailed'));
+      console.error(err);
+    }
+  }, [items, t, locale, formatFileDate]);
+
+  const handleDownloadReport = useCallback(() => {
+    if (!catalogue) return;
+    const entries = catalogue.map((row): CatalogueReportEntry => {
+      const item = items.find(candidate => candidate.row && isSameCatalogueRow(candidate.row, row));
+      return {
+        row,
+        status: item?.status ?? 'missing_image',
+        error: item?.error !== undefined ? describeError(t, item.error, 'errors.editFailed') : null,
+        outputFile: item?.status === 'done' ? catalogueOutputName(row, locale) : null,
+      };
+    });
+    const blob = new Blob([catalogueReportToCsv(entries)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${t('batch.reportName', { date: formatFileDate(Date.now(), true) })}.csv`);
+  }, [catalogue, items, t, locale, formatFileDate]);
+
+  const counts = items.reduce<Record<BatchItemStatus, number>>(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { pending: 0, processing: 0, done: 0, error: 0 }
+  );
+  const missingRows = catalogue?.filter(row => !items.some(item => item.row && isSameCatalogueRow(item.row, row))).length ?? 0;
+
+  const buttonClass = "inline-flex items-center justify-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-primary transition disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-gray-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">{t('batch.title')}</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {t('batch.summary', {
+              total: items.length,
+              done: counts.done,
+              failed: counts.error,
+              remaining: counts.pending + counts.processing,
+            })}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFilesSelected}
+            className="hidden"
+            accept="image/*"
+            multiple
+          />
+          <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={buttonClass}>
+            <UploadIcon className="w-5 h-5 mr-2" />
+            {t('batch.add')}
+          </button>
+          <input
+            type="file"
+            ref={catalogueInputRef}
+            onChange={handleCatalogueSelected}
+            className="hidden"
+            accept=".csv,text/csv"
+          />
+          <button onClick={() => catalogueInputRef.current?.click()} disabled={disabled || isRunning} className={buttonClass}>
+            {t('batch.importCatalogue')}
+          </button>
+          <label className="inline-flex items-center text-sm text-gray-700 gap-2">
+            {t('batch.concurrency')}
+            <input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.max(1, Math.min(MAX_CONCURRENCY, Number(e.target.value) || 1)))}
+              className="w-16 p-1.5 border border-gray-300 rounded-md"
+            />
+          </label>
+          {!isRunning ? (
+            <button
+              onClick={handleStart}
+              disabled={disabled || counts.pending === 0}
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-primary hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
+            >
+              {t('batch.start')}
+            </button>
+          ) : (
+            <button onClick={() => setIsPaused(prev => !prev)} className={buttonClass}>
+              {isPaused ? t('batch.resume') : t('batch.pause')}
+            </button>
+          )}
+          <button onClick={() => handleRetry()} disabled={disabled || counts.error === 0} className={buttonClass}>
+            {t('batch.retryFailed')}
+          </button>
+          <button onClick={handleDownloadZip} disabled={counts.done === 0} className={buttonClass}>
+            <DownloadIcon className="w-5 h-5 mr-2" />
+            {t('batch.downloadZip')}
+          </button>
+          {catalogue && (
+            <button onClick={handleDownloadReport} className={buttonClass}>
+              <DownloadIcon className="w-5 h-5 mr-2" />
+              {t('batch.downloadReport')}
+            </button>
+          )}
+          <button onClick={handleClear} disabled={items.length === 0 || counts.processing > 0} className={buttonClass}>
+            {t('batch.clear')}
+          </button>
+        </div>
+      </div>
+
+      {isRunning && isPaused && counts.processing > 0 && (
+        <p className="text-sm text-gray-500 mb-3">{t('batch.paused', { count: counts.processing })}</p>
+      )}
+      {notice && <p className="text-sm text-red-600 mb-3">{t(notice.key, notice.params)}</p>}
+      {catalogue && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-600 mb-3">
+          <span>{t('batch.catalogueSummary', { count: catalogue.length, references: referenceFiles.length })}</span>
+          {missingRows > 0 && <span className="text-amber-700">{t('batch.catalogueMissing', { count: missingRows })}</span>}
+          <button onClick={handleRemoveCatalogue} disabled={isRunning} className="text-brand-primary hover:underline disabled:opacity-50">
+            {t('batch.removeCatalogue')}
+          </button>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="py-12 flex flex-col items-center justify-center bg-gray-100 text-gray-400 rounded-lg">
+          <UploadIcon className="w-12 h-12" />
+          <p className="mt-2 text-sm font-medium">{t('batch.empty')}</p>
+        </div>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+          {items.map(item => (
+            <li key={item.id} className="border border-gray-200 rounded-lg overflow-hidden flex flex-col">
+              <div className="relative aspect-square bg-gray-100">
+                <img src={item.resultUrl ?? item.previewUrl} alt={item.file.name} className="w-full h-full object-contain" draggable={false} />
+                {item.status === 'processing' && (
+                  <div className="absolute inset-0 bg-gray-900 bg-opacity-40 flex items-center justify-center">
+                    <ProcessingIcon className="w-8 h-8 text-white animate-spin" />
+                  </div>
+                )}
+              </div>
+              <div className="p-2 flex flex-col gap-1">
+                <p className="text-xs text-gray-700 truncate" title={item.file.name}>{item.file.name}</p>
+                {item.row && (
+                  <p className="text-[11px] text-gray-500 truncate" title={item.row.prompt ?? undefined}>
+                    {t('batch.catalogueItem', { sku: item.row.sku, number: item.row.index })}
+                  </p>
+                )}
+                <div className="flex items-center justify-between gap-1">
+                  <span className={`text-[11px] font-medium px-1.5 py-0.5 rounded ${statusClasses[item.status]}`}>
+                    {t(statusLabels[item.status])}{item.attempts > 1 ? ` ${t('batch.attempt', { number: item.attempts })}` : ''}
+                  </span>
+                  {item.status === 'error' && (
+                    <button onClick={() => handleRetry(item.id)} disabled={disabled} className="text-[11px] text-brand-primary hover:underline disabled:opacity-50">
+                      {t('batch.retry')}
+                    </button>
+                  )}
+                  {(item.status === 'pending' || item.status === 'error') && (
+                    <button onClick={() => handleRemove(item.id)} className="text-[11px] text-gray-500 hover:underline">
+                      {t('common.remove')}
+                    </button>
+                  )}
+                </div>
+                {item.error !== undefined && (
+                  <p className="text-[11px] text-red-600 line-clamp-2" title={describeError(t, item.error, 'errors.editFailed')}>{describeError(t, item.error, 'errors.editFailed')}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  COMPLIANCE_RULE_SETS,
+  ComplianceReport,
+  ComplianceRuleSet,
+  analyseCompliance,
+  autoFixCompliance,
+  loadCustomRuleSet,
+  saveCustomRuleSet,
+} from '../utils/compliance';
+import { CheckCircleIcon, AlertTriangleIcon, ProcessingIcon } from './Icons';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface CompliancePanelProps {
+  imageUrl: string | null;
+  disabled?: boolean;
+  onOverlayChange: (overlayUrl: string | null) => void;
+  onAutoFix: (imageBase64: string, description: string) => void;
+}
+
+const numberInputClass = "w-full p-1 border border-gray-300 rounded-md text-xs";
+
+const CompliancePanel: React.FC<CompliancePanelProps> = ({ imageUrl, disabled = false, onOverlayChange, onAutoFix }) => {
+  const { t } = useI18n();
+  const [ruleSetId, setRuleSetId] = useState<string>(COMPLIANCE_RULE_SETS[0].id);
+  const [customRules, setCustomRules] = useState<ComplianceRuleSet>(loadCustomRuleSet);
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [isAnalysing, setIsAnalysing] = useState(false);
+  const [isFixing, setIsFixing] = useState(false);
+  const [showHighlights, setShowHighlights] = useState(true);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const rules = ruleSetId === customRules.id
+    ? customRules
+    : COMPLIANCE_RULE_SETS.find(ruleSet => ruleSet.id === ruleSetId) ?? COMPLIANCE_RULE_SETS[0];
+  // Marketplace names are proper nouns; only the custom set's name is translated.
+  const ruleSetName = (ruleSet: ComplianceRuleSet) => ruleSet.id === customRules.id ? t('compliance.custom') : ruleSet.name;
+
+  useEffect(() => {
+    if (!imageUrl) {
+      setReport(null);
+      return;
+    }
+    let cancelled = false;
+    setIsAnalysing(true);
+    setError(null);
+    analyseCompliance(imageUrl, rules)
+      .then(result => { if (!cancelled) setReport(result); })
+      .catch(err => {
+        if (cancelled) return;
+        setReport(null);
+        setError('errors.complianceFailed');
+        console.error(err);
+      })
+      .finally(() => { if (!cancelled) setIsAnalysing(false); });
+    return () => { cancelled = true; };
+  }, [imageUrl, rules]);
+
+  useEffect(() => {
+    onOverlayChange(showHighlights && report ? report.overlayUrl : null);
+  }, [report, showHighlights, onOverlayChange]);
+
+  // Clear the highlight when the panel goes away.
+  useEffect(() => () => onOverlayChange(null), [onOverlayChange]);
+
+  const updateCustomRules = (changes: Partial<ComplianceRuleSet>) => {
+    const next = { ...customRules, ...changes };
+    setCustomRules(next);
+    saveCustomRuleSet(next);
+  };
+
+  const handleAutoFix = useCallback(async () => {
+    if (!imageUrl || !report?.productBox) return;
+    setIsFixing(true);
+    setError(null);
+    try {
+      const fixed = await autoFixCompliance(imageUrl, report.productBox, rules);
+      onAutoFix(fixed, t('compliance.autoFixVersion', { rules: ruleSetName(rules) }));
+    } catch (err) {
+      setError('errors.autoFixFailed');
+      console.error(err);
+    } finally {
+      setIsFixing(false);
+    }
+  }, [imageUrl, report, rules, onAutoFix, t]);
+
+  if (!imageUrl) return null;
+
+  // Only resolution, ratio and fill are geometric; the fix cannot repaint a background.
+  const hasGeometricIssue = report?.checks.some(check =>
+    !check.passed && (check.id === 'fill' || check.id === 'aspect' || check.id === 'resolution')
+  );
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow-md border border-gray-200 p-3">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-gray-700">{t('compliance.title')}</h4>
+        <select
+          value={ruleSetId}
+          onChange={(e) => setRuleSetId(e.target.value)}
+          className="p-1 border border-gray-300 rounded-md bg-white text-xs"
+        >
+          {[...COMPLIANCE_RULE_SETS, customRules].map(ruleSet => (
+            <option key={ruleSet.id} value={ruleSet.id}>{ruleSetName(ruleSet)}</option>
+          ))}
+        </select>
+      </div>
+
+      {ruleSetId === customRules.id && (
+        <div className="grid grid-cols-3 gap-2 mb-3 text-xs text-gray-600">
+          <label className="flex flex-col">
+            {t('compliance.minWidth')}
+            <input type="number" min={1} value={customRules.minWidth} onChange={(e) => updateCustomRules({ minWidth: Number(e.target.value) || 1 })} className={numberInputClass} />
+          </label>
+          <label className="flex flex-col">
+            {t('compliance.minHeight')}
+            <input type="number" min={1} value={customRules.minHeight} onChange={(e) => updateCustomRules({ minHeight: Number(e.target.value) || 1 })} className={numberInputClass} />
+          </label>
+          <label className="flex flex-col">
+            {t('compliance.aspectRatio')}
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={customRules.aspectRatio ?? ''}
+              placeholder={t('compliance.anyRatio')}
+              onChange={(e) => updateCustomRules({ aspectRatio: e.target.value ? Number(e.target.value) : null })}
+              className={numberInputClass}
+            />
+          </label>
+          <label className="flex flex-col">
+            {t('compliance.minWhite')}
+            <input type="number" min={0} max={100} value={customRules.minWhiteBackground} onChange={(e) => updateCustomRules({ minWhiteBackground: Number(e.target.value) })} className={numberInputClass} />
+          </label>
+          <label className="flex flex-col">
+            {t('compliance.minFill')}
+            <input type="number" min={0} max={100} value={customRules.minFill} onChange={(e) => updateCustomRules({ minFill: Number(e.target.value) })} className={numberInputClass} />
+          </label>
+          <label className="flex flex-col">
+            {t('compliance.maxFill')}
+            <input type="number" min={0} max={100} value={customRules.maxFill} onChange={(e) => updateCustomRules({ maxFill: Number(e.target.value) })} className={numberInputClass} />
+          </label>
+        </div>
+      )}
+
+      {isAnalysing && !report ? (
+        <p className="flex items-center text-xs text-gray-500">
+          <ProcessingIcon className="w-4 h-4 mr-1 animate-spin" />
+          {t('compliance.analysing')}
+        </p>
+      ) : report && (
+        <ul className="flex flex-col gap-1.5">
+          {report.checks.map(check => (
+            <li key={check.id} className="flex items-start gap-2 text-xs">
+              {check.passed ? (
+                <CheckCircleIcon className="w-4 h-4 flex-shrink-0 text-green-600" />
+              ) : (
+                <AlertTriangleIcon className="w-4 h-4 flex-shrink-0 text-red-500" />
+              )}
+              <span>
+                <span className="font-medium text-gray-700">{t(check.label)}:</span>{' '}
+                <span className="text-gray-600">{t(check.detail.key, check.detail.params)}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{t(error)}</p>}
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+        <label className="inline-flex items-center gap-2 text-xs text-gray-600">
+          <input type="checkbox" checked={showHighlights} onChange={(e) => setShowHighlights(e.target.checked)} />
+          {t('compliance.highlight')}
+        </label>
+        <button
+          onClick={handleAutoFix}
+          disabled={disabled || isFixing || !report?.productBox || !hasGeometricIssue}
+          title={t('compliance.autoFixTitle')}
+          className="px-3 py-1.5 text-xs font-medium border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          {isFixing ? t('compliance.fixing') : t('compliance.autoFix')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CompliancePanel;
@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChromaKeySettings, KeyColor } from '../types';
+import {
+  CHECKERBOARD_BACKGROUND,
+  DEFAULT_CHROMA_KEY_SETTINGS,
+  KEY_COLORS,
+  detectKeyColor,
+  renderCutout,
+  rgbToHex,
+} from '../utils/chromaKey';
+import { loadImage, createCanvas, canvasToBase64, fitWithin } from '../utils/canvasUtils';
+import { ProcessingIcon } from './Icons';
+import { PREVIEW_SIZE, Slider, activeToolButtonClass, toolButtonClass } from './PanelControls';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface CutoutPanelProps {
+  // The image whose backdrop is removed.
+  imageUrl: string | null;
+  disabled?: boolean;
+  // Asks the model for a new version with a flat key-colour backdrop.
+  onRequestKeyBackground: (color: KeyColor) => void;
+  onApply: (imageBase64: string, description: string) => void;
+}
+
+type PanelTool = 'none' | 'eyedropper' | 'keep' | 'erase';
+
+const keyColorLabels: Record<KeyColor, MessageKey> = {
+  green: 'cutout.color.green',
+  blue: 'cutout.color.blue',
+  magenta: 'cutout.color.magenta',
+};
+
+// The key colour is detected on a small copy; the border median does not need more.
+const DETECT_SIZE = 256;
+
+const CutoutPanel: React.FC<CutoutPanelProps> = ({ imageUrl, disabled = false, onRequestKeyBackground, onApply }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [requestColor, setRequestColor] = useState<KeyColor>('green');
+  const [settings, setSettings] = useState<ChromaKeySettings>(DEFAULT_CHROMA_KEY_SETTINGS);
+  const [tool, setTool] = useState<PanelTool>('none');
+  const [brushSize, setBrushSize] = useState(40);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // Bumped after each brush stamp so the preview picks up the strokes.
+  const [refineVersion, setRefineVersion] = useState(0);
+  const [hasRefinements, setHasRefinements] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  // Manual keep (white) and remove (black) strokes, at the image's full resolution.
+  const refineRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const update = (changes: Partial<ChromaKeySettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const detectFrom = (image: HTMLImageElement) => {
+    const { width, height } = fitWithin(image.width, image.height, DETECT_SIZE);
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    update({ keyColor: detectKeyColor(ctx.getImageData(0, 0, width, height).data, width, height) });
+  };
+
+  useEffect(() => {
+    if (!imageUrl || !isOpen) {
+      setSource(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(image => {
+        if (cancelled) return;
+        // Strokes belong to the image they were painted on.
+        refineRef.current = createCanvas(image.width, image.height).canvas;
+        setHasRefinements(false);
+        setSource(image);
+        detectFrom(image);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError('errors.cutoutLoadFailed');
+        console.error(err);
+      });
+    return () => { cancelled = true; };
+  }, [imageUrl, isOpen]);
+
+  useEffect(() => {
+    if (!source) {
+      setPreviewUrl(null);
+      return;
+    }
+    try {
+      const canvas = renderCutout(source, source.width, source.height, settings, { refine: refineRef.current, maxSize: PREVIEW_SIZE });
+      setPreviewUrl(canvas.toDataURL('image/png'));
+    } catch (err) {
+      setError('errors.cutoutPreviewFailed');
+      console.error(err);
+    }
+  }, [source, settings, refineVersion]);
+
+  // Maps a pointer position on the preview to full-resolution image pixels.
+  const pointerToImage = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * source!.width,
+      y: ((e.clientY - rect.top) / rect.height) * source!.height,
+    };
+  };
+
+  // Stamps soft dots along the segment, like the selection brush.
+  const paintSegment = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = refineRef.current?.getContext('2d');
+    if (!ctx) return;
+    const color = tool === 'keep' ? '255, 255, 255' : '0, 0, 0';
+    const radius = brushSize / 2;
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / Math.max(1, brushSize / 4)));
+    for (let i = 1; i <= steps; i++) {
+      const x = from.x + ((to.x - from.x) * i) / steps;
+      const y = from.y + ((to.y - from.y) * i) / steps;
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      gradient.addColorStop(0, `rgba(${color}, 1)`);
+      gradient.addColorStop(0.6, `rgba(${color}, 1)`);
+      gradient.addColorStop(1, `rgba(${color}, 0)`);
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    setHasRefinements(true);
+    setRefineVersion(version => version + 1);
+  };
+
+  const sampleKeyColor = (point: { x: number; y: number }) => {
+    if (!source) return;
+    const { ctx } = createCanvas(1, 1);
+    ctx.drawImage(source, Math.floor(point.x), Math.floor(point.y), 1, 1, 0, 0, 1, 1);
+    const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+    update({ keyColor: rgbToHex(r, g, b) });
+    setTool('none');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || !source || e.button !== 0 || tool === 'none') return;
+    const point = pointerToImage(e);
+    if (tool === 'eyedropper') {
+      sampleKeyColor(point);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = point;
+    paintSegment(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!lastPointRef.current) return;
+    const point = pointerToImage(e);
+    paintSegment(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const clearRefinements = () => {
+    const canvas = refineRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasRefinements(false);
+    setRefineVersion(version => version + 1);
+  };
+
+  const handleApply = async () => {
+    if (!source) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      // Let the spinner render before the full-resolution pass blocks the thread.
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const canvas = renderCutout(source, source.width, source.height, settings, { refine: refineRef.current });
+      onApply(canvasToBase64(canvas), t('cutout.version', { tolerance: settings.tolerance, despill: settings.despill }));
+      setTool('none');
+    } catch (err) {
+      setError('errors.cutoutApplyFailed');
+      console.error(err);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!imageUrl) return null;
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow-md border border-gray-200 p-3">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-sm font-semibold text-gray-700"
+        aria-expanded={isOpen}
+      >
+        {t('cutout.title')}
+        <span className="text-xs font-normal text-gray-500">{isOpen ? t('common.close') : t('common.open')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 flex flex-col gap-3">
+          <div className="flex flex-col gap-2">
+            <p className="text-xs text-gray-500">{t('cutout.keyHint')}</p>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={requestColor}
+                onChange={(e) => setRequestColor(e.target.value as KeyColor)}
+                className="p-1 border border-gray-300 rounded-md bg-white text-xs"
+                aria-label={t('cutout.keyColor')}
+              >
+                {(Object.keys(keyColorLabels) as KeyColor[]).map(color => (
+                  <option key={color} value={color}>{t(keyColorLabels[color])}</option>
+                ))}
+              </select>
+              <button onClick={() => onRequestKeyBackground(requestColor)} disabled={disabled} className={toolButtonClass}>
+                {t('cutout.requestKey')}
+              </button>
+            </div>
+          </div>
+
+          <div
+            ref={frameRef}
+            className={`relative overflow-hidden rounded-md select-none touch-none ${
+              tool === 'eyedropper' ? 'cursor-cell' : tool !== 'none' ? 'cursor-crosshair' : ''
+            }`}
+            style={{ background: CHECKERBOARD_BACKGROUND }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {previewUrl ? (
+              <img src={previewUrl} alt={t('cutout.previewAlt')} className="block w-full h-auto" draggable={false} />
+            ) : (
+              <div className="h-40 flex items-center justify-center text-gray-400">
+                <ProcessingIcon className="w-6 h-6 animate-spin" />
+              </div>
+            )}
+          </div>
+          {tool === 'eyedropper' && <p className="text-xs text-brand-primary">{t('cutout.eyedropperHint')}</p>}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-600">{t('cutout.removedColor')}</span>
+            <input
+              type="color"
+              value={settings.keyColor}
+              onChange={(e) => update({ keyColor: e.target.value })}
+              aria-label={t('cutout.removedColor')}
+            />
+            <button onClick={() => setTool(tool === 'eyedropper' ? 'none' : 'eyedropper')} className={tool === 'eyedropper' ? activeToolButtonClass : toolButtonClass}>
+              {t('cutout.eyedropper')}
+            </button>
+            <button onClick={() => source && detectFrom(source)} disabled={!source} className={toolButtonClass}>{t('cutout.detect')}</button>
+            <div className="flex gap-1" role="group" aria-label={t('cutout.presets')}>
+              {(Object.keys(KEY_COLORS) as KeyColor[]).map(color => (
+                <button
+                  key={color}
+                  onClick={() => update({ keyColor: KEY_COLORS[color] })}
+                  title={t(keyColorLabels[color])}
+                  className="w-5 h-5 rounded border border-gray-300"
+                  style={{ backgroundColor: KEY_COLORS[color] }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <Slider label={t('cutout.tolerance')} value={settings.tolerance} min={0} max={100} onChange={(tolerance) => update({ tolerance })} />
+            <Slider label={t('cutout.softness')} value={settings.softness} min={0} max={50} onChange={(softness) => update({ softness })} />
+            <Slider label={t('cutout.despill')} value={settings.despill} min={0} max={100} onChange={(despill) => update({ despill })} />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <h5 className="text-xs font-semibold text-gray-700">{t('cutout.refine')}</h5>
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setTool(tool === 'keep' ? 'none' : 'keep')} className={tool === 'keep' ? activeToolButtonClass : toolButtonClass}>
+                {t('cutout.keepBrush')}
+              </button>
+              <button onClick={() => setTool(tool === 'erase' ? 'none' : 'erase')} className={tool === 'erase' ? activeToolButtonClass : toolButtonClass}>
+                {t('cutout.eraseBrush')}
+              </button>
+              <button onClick={clearRefinements} disabled={!hasRefinements} className={toolButtonClass}>{t('cutout.clearRefine')}</button>
+            </div>
+            <Slider label={t('cutout.brushSize')} value={brushSize} min={4} max={200} onChange={setBrushSize} />
+          </div>
+
+          {error && <p className="text-xs text-red-600">{t(error)}</p>}
+
+          <div className="flex justify-between gap-2">
+            <button
+              onClick={() => {
+                setSettings(prev => ({ ...DEFAULT_CHROMA_KEY_SETTINGS, keyColor: prev.keyColor }));
+                clearRefinements();
+              }}
+              className={toolButtonClass}
+            >
+              {t('cutout.reset')}
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={disabled || isApplying || !source}
+              className="px-3 py-1.5 text-xs font-medium border border-transparent rounded-md text-white bg-brand-primary hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
+            >
+              {isApplying ? t('cutout.applying') : t('cutout.apply')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CutoutPanel;
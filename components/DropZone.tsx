@@ -0,0 +1,66 @@
+import React from 'react';
+import { EXTERNAL_IMAGE_TYPES } from '../utils/imageTransfer';
+
+interface DropZoneProps {
+  onDrop: (data: DataTransfer) => void;
+  // Shown over the children while something droppable is dragged over them.
+  label: string;
+  // Drag data types accepted; files and links by default.
+  acceptedTypes?: string[];
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+const DropZone: React.FC<DropZoneProps> = ({ onDrop, label, acceptedTypes = EXTERNAL_IMAGE_TYPES, disabled = false, children }) => {
+  const [isOver, setIsOver] = React.useState(false);
+  // dragenter/dragleave also fire for every child crossed, so count them instead of toggling.
+  const depthRef = React.useRef(0);
+
+  const accepts = (e: React.DragEvent) =>
+    !disabled && e.dataTransfer.types.some(type => acceptedTypes.includes(type));
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!accepts(e)) return;
+    e.preventDefault();
+    depthRef.current += 1;
+    setIsOver(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!accepts(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = () => {
+    depthRef.current = Math.max(0, depthRef.current - 1);
+    if (depthRef.current === 0) setIsOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    depthRef.current = 0;
+    setIsOver(false);
+    if (!accepts(e)) return;
+    e.preventDefault();
+    onDrop(e.dataTransfer);
+  };
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isOver && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center rounded-xl border-4 border-dashed border-brand-primary bg-blue-50 bg-opacity-80 pointer-events-none">
+          <p className="px-4 text-center text-sm font-semibold text-brand-primary">{label}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DropZone;
@@ -0,0 +1,307 @@
+import React, { useState, useCallback } from 'react';
+import { ExportFormat, ExportProfile, ExportSizeMode, Provenance } from '../types';
+import {
+  loadExportProfiles,
+  saveExportProfiles,
+  renderExport,
+  buildExportFileName,
+  exportProfileName,
+  getFileNameTokens,
+} from '../utils/exportUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import { createZip, uniqueFileNames } from '../utils/zip';
+import { embedProvenance, provenanceToSidecar } from '../utils/provenance';
+import { DownloadIcon } from './Icons';
+import { MessageKey, describeError } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ExportDialogProps {
+  imageUrl: string;
+  sourceName?: string;
+  // Ratio between the uploaded file and the downscaled copy that was edited (1 when not downscaled).
+  sourceScale?: number;
+  // Renders the version from the uploaded file at full resolution; omitted when it contains AI edits.
+  renderFullResolution?: () => Promise<HTMLCanvasElement>;
+  // Describes how the exported version was made; omitted when there is nothing to describe.
+  getProvenance?: () => Promise<Provenance>;
+  onClose: () => void;
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+  'image/png': 'PNG',
+};
+
+const sizeModeLabels: Record<ExportSizeMode, MessageKey> = {
+  original: 'export.size.original',
+  max: 'export.size.max',
+  exact: 'export.size.exact',
+};
+
+const inputClass = "w-full p-1.5 border border-gray-300 rounded-md bg-white text-sm";
+const buttonClass = "inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition";
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, sourceName, sourceScale = 1, renderFullResolution, getProvenance, onClose }) => {
+  const { locale, t, formatFileDate } = useI18n();
+  const [profiles, setProfiles] = useState<ExportProfile[]>(loadExportProfiles);
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => (profiles[0] ? [profiles[0].id] : []));
+  const [editingId, setEditingId] = useState<string>(profiles[0]?.id ?? '');
+  const [sku, setSku] = useState('');
+  const [upscaleToOriginal, setUpscaleToOriginal] = useState(false);
+  const [embedMetadata, setEmbedMetadata] = useState(true);
+  const [writeSidecar, setWriteSidecar] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const editing = profiles.find(profile => profile.id === editingId) ?? null;
+
+  const updateProfiles = useCallback((next: ExportProfile[]) => {
+    setProfiles(next);
+    saveExportProfiles(next);
+  }, []);
+
+  const updateEditing = (changes: Partial<ExportProfile>) => {
+    if (!editing) return;
+    updateProfiles(profiles.map(profile => (profile.id === editing.id ? { ...profile, ...changes } : profile)));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+  };
+
+  const handleNewProfile = () => {
+    const base = editing ?? profiles[0];
+    const profile: ExportProfile = { ...base, id: crypto.randomUUID(), name: t('common.copyName', { name: exportProfileName(base, locale) }) };
+    updateProfiles([...profiles, profile]);
+    setEditingId(profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!editing || profiles.length <= 1) return;
+    const next = profiles.filter(profile => profile.id !== editing.id);
+    updateProfiles(next);
+    setSelectedIds(prev => prev.filter(id => id !== editing.id));
+    setEditingId(next[0].id);
+  };
+
+  const handleExport = useCallback(async () => {
+    const chosen = profiles.filter(profile => selectedIds.includes(profile.id));
+    if (chosen.length === 0) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const date = new Date();
+      const provenance = getProvenance && (embedMetadata || writeSidecar) ? await getProvenance() : null;
+      const fullResolution = sourceScale > 1 && renderFullResolution ? await renderFullResolution() : null;
+      const files: { blob: Blob; name: string }[] = [];
+      for (const profile of chosen) {
+        const { blob, width, height } = fullResolution
+          ? await renderExport(fullResolution, profile)
+          : await renderExport(imageUrl, profile, upscaleToOriginal ? sourceScale : 1);
+        const name = buildExportFileName(profile, { locale, sourceName, sku, date, width, height });
+        files.push({ blob: provenance && embedMetadata ? await embedProvenance(blob, provenance) : blob, name });
+        if (provenance && writeSidecar) {
+          files.push({ blob: provenanceToSidecar(provenance), name: `${name.replace(/\.[^.]+$/, '')}.json` });
+        }
+      }
+      if (files.length === 1) {
+        downloadBlob(files[0].blob, files[0].name);
+      } else {
+        // Several downloads at once get blocked by most browsers, so bundle them.
+        const names = uniqueFileNames(files.map(file => file.name));
+        const entries = await Promise.all(files.map(async (file, index) => ({
+          name: names[index],
+          data: new Uint8Array(await file.blob.arrayBuffer()),
+        })));
+        downloadBlob(createZip(entries), `${t('export.zipName', { date: formatFileDate(date, true) })}.zip`);
+      }
+      onClose();
+    } catch (err) {
+      setError(err);
+      console.error(err);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [
+    profiles, selectedIds, imageUrl, sourceName, sku, upscaleToOriginal, sourceScale, renderFullResolution, getProvenance, embedMetadata, writeSidecar,
+    onClose, locale, t, formatFileDate,
+  ]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 bg-opacity-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+      >
+        <h2 id="export-dialog-title" className="text-xl font-semibold text-gray-800 mb-4">{t('export.title')}</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-3">
+            <h3 className="text-sm font-semibold text-gray-700">{t('export.profiles')}</h3>
+            <ul className="flex flex-col gap-1">
+              {profiles.map(profile => (
+                <li
+                  key={profile.id}
+                  className={`flex items-center gap-2 p-2 rounded-md border ${
+                    profile.id === editingId ? 'border-brand-primary bg-brand-secondary' : 'border-gray-200'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(profile.id)}
+                    onChange={() => toggleSelected(profile.id)}
+                    aria-label={t('export.exportWith', { name: exportProfileName(profile, locale) })}
+                  />
+                  <button onClick={() => setEditingId(profile.id)} className="flex-1 text-left text-sm text-gray-700 truncate">
+                    {exportProfileName(profile, locale)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <button onClick={handleNewProfile} className={buttonClass}>{t('export.newProfile')}</button>
+              <button onClick={handleDeleteProfile} disabled={profiles.length <= 1} className={buttonClass}>{t('export.deleteProfile')}</button>
+            </div>
+            <label className="flex flex-col text-sm text-gray-700 gap-1">
+              {t('export.sku')}
+              <input value={sku} onChange={(e) => setSku(e.target.value)} placeholder={t('export.skuPlaceholder')} className={inputClass} />
+            </label>
+            {sourceScale > 1 && renderFullResolution && (
+              <p className="text-xs text-gray-600">{t('export.fullResolution', { percent: Math.round(sourceScale * 100) })}</p>
+            )}
+            {sourceScale > 1 && !renderFullResolution && (
+              <div className="flex flex-col gap-1 text-xs text-gray-600">
+                <label className="inline-flex items-start gap-2">
+                  <input type="checkbox" checked={upscaleToOriginal} onChange={(e) => setUpscaleToOriginal(e.target.checked)} className="mt-0.5" />
+                  {t('export.upscaleToOriginal', { percent: Math.round(sourceScale * 100) })}
+                </label>
+                <p className="pl-5 text-gray-500">{t('export.upscaleToOriginalHint')}</p>
+              </div>
+            )}
+            {getProvenance && (
+              <div className="flex flex-col gap-1 text-xs text-gray-600">
+                <label className="inline-flex items-start gap-2">
+                  <input type="checkbox" checked={embedMetadata} onChange={(e) => setEmbedMetadata(e.target.checked)} className="mt-0.5" />
+                  {t('export.embedProvenance')}
+                </label>
+                <label className="inline-flex items-start gap-2">
+                  <input type="checkbox" checked={writeSidecar} onChange={(e) => setWriteSidecar(e.target.checked)} className="mt-0.5" />
+                  {t('export.provenanceSidecar')}
+                </label>
+              </div>
+            )}
+          </div>
+
+          {editing && (
+            <div className="flex flex-col gap-3 text-sm text-gray-700">
+              <label className="flex flex-col gap-1">
+                {t('export.profileName')}
+                <input value={exportProfileName(editing, locale)} onChange={(e) => updateEditing({ name: e.target.value })} className={inputClass} />
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1">
+                  {t('export.format')}
+                  <select value={editing.format} onChange={(e) => updateEditing({ format: e.target.value as ExportFormat })} className={inputClass}>
+                    {(Object.keys(formatLabels) as ExportFormat[]).map(format => (
+                      <option key={format} value={format}>{formatLabels[format]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  {t('export.quality', { quality: editing.quality })}
+                  <input
+                    type="range"
+                    min={1}
+                    max={100}
+                    value={editing.quality}
+                    onChange={(e) => updateEditing({ quality: Number(e.target.value) })}
+                    disabled={editing.format === 'image/png'}
+                  />
+                </label>
+              </div>
+              <label className="flex flex-col gap-1">
+                {t('export.dimensions')}
+                <select value={editing.sizeMode} onChange={(e) => updateEditing({ sizeMode: e.target.value as ExportSizeMode })} className={inputClass}>
+                  {(Object.keys(sizeModeLabels) as ExportSizeMode[]).map(mode => (
+                    <option key={mode} value={mode}>{t(sizeModeLabels[mode])}</option>
+                  ))}
+                </select>
+              </label>
+              {editing.sizeMode === 'max' && (
+                <label className="flex flex-col gap-1">
+                  {t('export.maxDimension')}
+                  <input type="number" min={1} value={editing.maxDimension} onChange={(e) => updateEditing({ maxDimension: Number(e.target.value) || 1 })} className={inputClass} />
+                </label>
+              )}
+              {editing.sizeMode === 'exact' && (
+                <div className="grid grid-cols-3 gap-3">
+                  <label className="flex flex-col gap-1">
+                    {t('export.width')}
+                    <input type="number" min={1} value={editing.width} onChange={(e) => updateEditing({ width: Number(e.target.value) || 1 })} className={inputClass} />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    {t('export.height')}
+                    <input type="number" min={1} value={editing.height} onChange={(e) => updateEditing({ height: Number(e.target.value) || 1 })} className={inputClass} />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    {t('export.fit')}
+                    <select value={editing.fit} onChange={(e) => updateEditing({ fit: e.target.value as ExportProfile['fit'] })} className={inputClass}>
+                      <option value="pad">{t('export.fit.pad')}</option>
+                      <option value="crop">{t('export.fit.crop')}</option>
+                    </select>
+                  </label>
+                </div>
+              )}
+              <div className="flex items-center gap-3">
+                <label className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={editing.background === null}
+                    onChange={(e) => updateEditing({ background: e.target.checked ? null : '#ffffff' })}
+                    disabled={editing.format === 'image/jpeg'}
+                  />
+                  {t('export.keepTransparency')}
+                </label>
+                {(editing.background !== null || editing.format === 'image/jpeg') && (
+                  <label className="inline-flex items-center gap-2">
+                    {t('export.background')}
+                    <input
+                      type="color"
+                      value={editing.background ?? '#ffffff'}
+                      onChange={(e) => updateEditing({ background: e.target.value })}
+                    />
+                  </label>
+                )}
+              </div>
+              <label className="flex flex-col gap-1">
+                {t('export.fileName')}
+                <input value={editing.filenameTemplate} onChange={(e) => updateEditing({ filenameTemplate: e.target.value })} className={inputClass} />
+                <span className="text-xs text-gray-500">{t('export.tokensHint', { tokens: getFileNameTokens(locale).join(', ') })}</span>
+              </label>
+            </div>
+          )}
+        </div>
+
+        {error !== null && <p className="mt-4 text-sm text-red-600">{describeError(t, error, 'errors.exportFailed')}</p>}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button onClick={onClose} className={buttonClass}>{t('common.cancel')}</button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || selectedIds.length === 0}
+            className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-primary hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
+          >
+            <DownloadIcon className="w-5 h-5 mr-2" />
+            {isExporting ? t('export.exporting') : t('export.submit', { count: selectedIds.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { EditHistory } from '../types';
+import { getHistoryPath } from '../utils/history';
+import { UndoIcon, RedoIcon, UseAsOriginalIcon, SelectionIcon, MagicWandIcon, AdjustmentsIcon, StarIcon } from './Icons';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface HistoryStripProps {
+  history: EditHistory;
+  baseNodeId: string | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  disabled?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (nodeId: string) => void;
+  onUseAsBase: (nodeId: string | null) => void;
+}
+
+const HistoryStrip: React.FC<HistoryStripProps> = ({
+  history,
+  baseNodeId,
+  canUndo,
+  canRedo,
+  disabled = false,
+  onUndo,
+  onRedo,
+  onSelect,
+  onUseAsBase,
+}) => {
+  const { t, formatDate } = useI18n();
+  const activePath = getHistoryPath(history, history.currentId);
+  // Version numbers follow creation order so they stay stable across branches.
+  const versionNumber = (nodeId: string) => history.order.indexOf(nodeId) + 1;
+
+  if (history.order.length === 0) return null;
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow-md border border-gray-200 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-700">{t('history.title')}</h4>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={disabled || !canUndo}
+            title={t('history.undo')}
+            className="p-1.5 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            <UndoIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={disabled || !canRedo}
+            title={t('history.redo')}
+            className="p-1.5 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            <RedoIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {history.order.map((nodeId) => {
+          const node = history.nodes[nodeId];
+          const isCurrent = nodeId === history.currentId;
+          const isBase = nodeId === baseNodeId;
+          const parentLabel = node.parentId ? `v${versionNumber(node.parentId)}` : t('history.original');
+          return (
+            <div key={nodeId} className="flex-shrink-0 w-20 flex flex-col items-center">
+              <button
+                onClick={() => onSelect(nodeId)}
+                disabled={disabled}
+                title={t('history.nodeTitle', { prompt: node.prompt, parent: parentLabel, date: formatDate(node.createdAt) })}
+                className={`relative w-20 h-20 rounded-md overflow-hidden border-2 transition disabled:cursor-not-allowed ${
+                  isCurrent ? 'border-brand-primary' : activePath.has(nodeId) ? 'border-blue-200' : 'border-gray-200'
+                }`}
+              >
+                <img src={node.imageUrl} alt={t('history.versionAlt', { number: versionNumber(nodeId) })} className="w-full h-full object-contain bg-gray-100" draggable={false} />
+                <span className="absolute top-0.5 left-0.5 bg-white bg-opacity-80 rounded p-0.5 text-gray-600">
+                  {node.kind === 'inpaint' ? (
+                    <SelectionIcon className="w-3 h-3" />
+                  ) : node.kind === 'adjust' ? (
+                    <AdjustmentsIcon className="w-3 h-3" />
+                  ) : (
+                    <MagicWandIcon className="w-3 h-3" />
+                  )}
+                </span>
+                {node.starred && (
+                  <span className="absolute top-0.5 right-0.5 bg-white bg-opacity-80 rounded p-0.5">
+                    <StarIcon className="w-3 h-3 fill-current text-yellow-500" />
+                  </span>
+                )}
+                {isBase && (
+                  <span className="absolute bottom-0 inset-x-0 bg-brand-primary text-white text-[10px] font-medium">{t('history.base')}</span>
+                )}
+              </button>
+              <span className="text-[11px] text-gray-500 mt-1">v{versionNumber(nodeId)} ← {parentLabel}</span>
+              <button
+                onClick={() => onUseAsBase(isBase ? null : nodeId)}
+                disabled={disabled}
+                title={t(isBase ? 'history.unsetBaseTitle' : 'history.setBaseTitle')}
+                className="mt-0.5 inline-flex items-center text-[11px] text-brand-primary hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <UseAsOriginalIcon className="w-3 h-3 mr-0.5" />
+                {t(isBase ? 'history.unsetBase' : 'history.setBase')}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryStrip;
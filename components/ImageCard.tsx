@@ -1,13 +1,27 @@
 
 import React from 'react';
-import { ImageIcon, ProcessingIcon, DownloadIcon, SelectionIcon, MagicWandIcon } from './Icons';
+import { ImageIcon, ProcessingIcon, DownloadIcon, SelectionIcon, MagicWandIcon, UseAsOriginalIcon } from './Icons';
+import MaskCanvas from './MaskCanvas';
+import MaskToolbar from './MaskToolbar';
+import SelectionFields from './SelectionFields';
+import { CompositeSettings, MaskSettings, Selection } from '../types';
+import { loadImage } from '../utils/canvasUtils';
+import { Size, ViewTransform, fitView, zoomAt, zoomToScale } from '../utils/viewport';
+import { DiffResult, computeDiffHeatmap } from '../utils/imageDiff';
+import { HISTORY_NODE_MIME } from '../utils/imageTransfer';
+import { CHECKERBOARD_BACKGROUND } from '../utils/chromaKey';
+import { HANDLE_CURSORS, RESIZE_HANDLES, SelectionHandle, dragSelection, selectionFromPoints } from '../utils/selection';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
 
-interface Selection {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+type CompareMode = 'split' | 'hold' | 'onion' | 'diff';
+
+const compareModeLabels: Record<CompareMode, MessageKey> = {
+  split: 'imageCard.compare.split',
+  hold: 'imageCard.compare.hold',
+  onion: 'imageCard.compare.onion',
+  diff: 'imageCard.compare.diff',
+};
 
 interface ImageCardProps {
   title: string;
@@ -21,7 +35,19 @@ interface ImageCardProps {
   inpaintPrompt?: string;
   onInpaintPromptChange?: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
   onInpaintRequest?: () => void;
+  maskUrl?: string | null;
+  onMaskChange?: (maskUrl: string | null) => void;
+  maskSettings?: MaskSettings;
+  onMaskSettingsChange?: (settings: MaskSettings) => void;
+  compositeSettings?: CompositeSettings;
+  onCompositeSettingsChange?: (settings: CompositeSettings) => void;
+  // Transparent image drawn over the photo, e.g. compliance highlights.
+  overlayUrl?: string | null;
+  // Earlier version to compare against (before/after views).
+  compareUrl?: string | null;
   placeholderText?: string;
+  // History version shown, offered as a drag source so it can be dropped on the original slot.
+  dragNodeId?: string | null;
 }
 
 const ImageCard: React.FC<ImageCardProps> = ({ 
@@ -36,118 +62,585 @@ const ImageCard: React.FC<ImageCardProps> = ({
   inpaintPrompt,
   onInpaintPromptChange,
   onInpaintRequest,
-  placeholderText
+  maskUrl = null,
+  onMaskChange,
+  maskSettings,
+  onMaskSettingsChange,
+  compositeSettings,
+  onCompositeSettingsChange,
+  overlayUrl = null,
+  compareUrl = null,
+  placeholderText,
+  dragNodeId = null
 }) => {
+  const { t } = useI18n();
   const showActions = imageUrl && !isLoading;
   
   const containerRef = React.useRef<HTMLDivElement>(null);
-  const [isDrawing, setIsDrawing] = React.useState(false);
-  const [startPos, setStartPos] = React.useState({ x: 0, y: 0 });
-
-  const getRelativeCoords = (e: React.MouseEvent): { x: number; y: number } | null => {
-      if (!containerRef.current) return null;
-      const rect = containerRef.current.getBoundingClientRect();
-      // Clamp coordinates to be within the 0-100 range
-      const x = Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100));
-      const y = Math.max(0, Math.min(100, ((e.clientY - rect.top) / rect.height) * 100));
+  const stageRef = React.useRef<HTMLDivElement>(null);
+  const imageRef = React.useRef<HTMLImageElement>(null);
+  // Rectangle being drawn, moved or resized: where the pointer went down and the selection at that moment.
+  const selectionDragRef = React.useRef<{ origin: { x: number; y: number }; start: Selection; handle: SelectionHandle | null } | null>(null);
+  const [naturalSize, setNaturalSize] = React.useState<Size | null>(null);
+  const [containerSize, setContainerSize] = React.useState<Size | null>(null);
+  // null keeps the image fitted to the card, following resizes.
+  const [customView, setCustomView] = React.useState<ViewTransform | null>(null);
+  const [isSpaceHeld, setIsSpaceHeld] = React.useState(false);
+  // Space only pans the card the pointer is over or that holds the focus, so it keeps working on the rest of the page.
+  const [isPointerOver, setIsPointerOver] = React.useState(false);
+  const [hasFocus, setHasFocus] = React.useState(false);
+  const panStartRef = React.useRef<{ clientX: number; clientY: number; view: ViewTransform } | null>(null);
+  const pinchStartRef = React.useRef<{ distance: number; center: { x: number; y: number }; view: ViewTransform } | null>(null);
+  const [compareMode, setCompareMode] = React.useState<CompareMode | null>(null);
+  const [splitPosition, setSplitPosition] = React.useState(50);
+  const [onionOpacity, setOnionOpacity] = React.useState(0.5);
+  const [isHoldingOriginal, setIsHoldingOriginal] = React.useState(false);
+  const [isDraggingSplit, setIsDraggingSplit] = React.useState(false);
+  const [diff, setDiff] = React.useState<DiffResult | null>(null);
+
+  // The rectangle is drawn by this card; the other tools paint on the mask canvas.
+  const isRectangleTool = !maskSettings || maskSettings.tool === 'rectangle';
+  const hasRectangle = Boolean(selection && selection.width > 0 && selection.height > 0);
+  const hasSelection = hasRectangle || Boolean(maskUrl);
+  const canEditRectangle = isSelecting && isRectangleTool && hasRectangle && !isLoading && !isSpaceHeld && Boolean(onSelectionChange);
+
+  const view = customView ?? (containerSize && naturalSize ? fitView(containerSize, naturalSize) : null);
+  const viewRef = React.useRef(view);
+  viewRef.current = view;
+
+  React.useEffect(() => {
+    if (!imageUrl) {
+      setNaturalSize(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(image => {
+        if (cancelled) return;
+        // Keep the same object (and therefore the zoom) when switching between versions of the same size.
+        setNaturalSize(prev =>
+          prev && prev.width === image.width && prev.height === image.height ? prev : { width: image.width, height: image.height }
+        );
+      })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  React.useEffect(() => {
+    setCustomView(null);
+  }, [naturalSize]);
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const isComparing = Boolean(compareMode && compareUrl && imageUrl && !isSelecting);
+
+  React.useEffect(() => {
+    if (compareMode !== 'diff' || !compareUrl || !imageUrl) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+    computeDiffHeatmap(compareUrl, imageUrl)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [compareMode, compareUrl, imageUrl]);
+
+  // The split handle keeps following the pointer even when it leaves the card.
+  React.useEffect(() => {
+    if (!isDraggingSplit) return;
+    const handleMove = (e: PointerEvent) => {
+      const stage = stageRef.current;
+      if (!stage) return;
+      const rect = stage.getBoundingClientRect();
+      setSplitPosition(Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100)));
+    };
+    const handleUp = () => setIsDraggingSplit(false);
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [isDraggingSplit]);
+
+  // Holding space turns any drag into a pan, even while a selection tool is active.
+  React.useEffect(() => {
+    if (!imageUrl || !(isPointerOver || hasFocus)) {
+      setIsSpaceHeld(false);
+      return;
+    }
+    // Space activates buttons, checkboxes and the like, and types in fields; leave those alone.
+    const isInteractive = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable
+        || Boolean(target.closest('input, textarea, select, button, a[href], [role="button"], [role="checkbox"], [role="slider"]')));
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isInteractive(e.target)) {
+        e.preventDefault();
+        setIsSpaceHeld(true);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    // The key can be released in another window, where this page never hears about it.
+    const release = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    document.addEventListener('visibilitychange', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+      document.removeEventListener('visibilitychange', release);
+    };
+  }, [imageUrl, isPointerOver, hasFocus]);
+
+  // Arrow keys nudge the rectangle by one image pixel, or ten with Shift.
+  React.useEffect(() => {
+    if (!isSelecting || !isRectangleTool || !hasRectangle || !selection || !naturalSize || !onSelectionChange) return;
+    const offsets: Record<string, { x: number; y: number }> = {
+      ArrowLeft: { x: -1, y: 0 },
+      ArrowRight: { x: 1, y: 0 },
+      ArrowUp: { x: 0, y: -1 },
+      ArrowDown: { x: 0, y: 1 },
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const offset = offsets[e.key];
+      const target = e.target;
+      const isEditingField = target instanceof HTMLElement &&
+        (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT' || target.tagName === 'SELECT');
+      if (!offset || isEditingField) return;
+      e.preventDefault();
+      const step = e.shiftKey ? 10 : 1;
+      onSelectionChange(dragSelection(selection, 'move', offset.x * step, offset.y * step, naturalSize));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSelecting, isRectangleTool, hasRectangle, selection, naturalSize, onSelectionChange]);
+
+  // Wheel and pinch listeners must be non-passive to stop the page from scrolling or zooming.
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !naturalSize) return;
+
+    const toLocal = (clientX: number, clientY: number) => {
+      const rect = container.getBoundingClientRect();
+      return { x: clientX - rect.left, y: clientY - rect.top };
+    };
+    const viewportSize = () => ({ width: container.clientWidth, height: container.clientHeight });
+
+    const handleWheel = (e: WheelEvent) => {
+      const current = viewRef.current;
+      if (!current) return;
+      e.preventDefault();
+      setCustomView(zoomAt(current, toLocal(e.clientX, e.clientY), Math.exp(-e.deltaY * 0.0015), viewportSize(), naturalSize));
+    };
+
+    const pinchInfo = (touches: TouchList) => {
+      const [a, b] = [touches[0], touches[1]];
+      return {
+        distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+        center: toLocal((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2),
+      };
+    };
+    const handleTouchStart = (e: TouchEvent) => {
+      const current = viewRef.current;
+      if (e.touches.length !== 2 || !current) return;
+      e.preventDefault();
+      pinchStartRef.current = { ...pinchInfo(e.touches), view: current };
+    };
+    const handleTouchMove = (e: TouchEvent) => {
+      const start = pinchStartRef.current;
+      if (e.touches.length !== 2 || !start) return;
+      e.preventDefault();
+      const { distance, center } = pinchInfo(e.touches);
+      const zoomed = zoomAt(start.view, start.center, distance / start.distance, viewportSize(), naturalSize);
+      // Moving both fingers together pans.
+      setCustomView({ ...zoomed, x: zoomed.x + center.x - start.center.x, y: zoomed.y + center.y - start.center.y });
+    };
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinchStartRef.current = null;
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('touchstart', handleTouchStart, { passive: false });
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [naturalSize]);
+
+  // Maps a pointer position to image pixels, clamped to the image bounds.
+  const getImageCoords = (e: React.PointerEvent): { x: number; y: number } | null => {
+      if (!stageRef.current || !naturalSize) return null;
+      const rect = stageRef.current.getBoundingClientRect();
+      const x = Math.max(0, Math.min(naturalSize.width, ((e.clientX - rect.left) / rect.width) * naturalSize.width));
+      const y = Math.max(0, Math.min(naturalSize.height, ((e.clientY - rect.top) / rect.height) * naturalSize.height));
       return { x, y };
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-      if (!isSelecting || !onSelectionChange) return;
-      const coords = getRelativeCoords(e);
+  const endDrag = () => {
+      selectionDragRef.current = null;
+      panStartRef.current = null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+      // A second finger means a pinch, which the touch listeners handle; drop whatever the first one started.
+      if (!e.isPrimary) {
+          endDrag();
+          return;
+      }
+
+      // Middle button, space + drag, or any drag outside selection mode pans the view.
+      const wantsPan = e.button === 1 || (e.button === 0 && (isSpaceHeld || !isSelecting));
+      if (wantsPan && view && imageUrl) {
+          e.preventDefault();
+          e.currentTarget.setPointerCapture(e.pointerId);
+          panStartRef.current = { clientX: e.clientX, clientY: e.clientY, view };
+          return;
+      }
+
+      if (e.button !== 0 || !isSelecting || !isRectangleTool || !onSelectionChange) return;
+      const coords = getImageCoords(e);
       if (!coords) return;
-      
+
       e.preventDefault();
-      setIsDrawing(true);
-      setStartPos(coords);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      // Handles and the inside of the rectangle adjust it; anywhere else starts a new one.
+      const handle = e.target instanceof HTMLElement ? (e.target.dataset.handle as SelectionHandle | undefined) : undefined;
+      if (handle && selection) {
+          selectionDragRef.current = { origin: coords, start: selection, handle };
+          return;
+      }
+      selectionDragRef.current = { origin: coords, start: { ...coords, width: 0, height: 0 }, handle: null };
       onSelectionChange({ ...coords, width: 0, height: 0 });
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-      if (!isDrawing || !onSelectionChange) return;
-      const currentCoords = getRelativeCoords(e);
+  const handlePointerMove = (e: React.PointerEvent) => {
+      if (!e.isPrimary) return;
+      const pan = panStartRef.current;
+      if (pan) {
+          setCustomView({
+              ...pan.view,
+              x: pan.view.x + e.clientX - pan.clientX,
+              y: pan.view.y + e.clientY - pan.clientY,
+          });
+          return;
+      }
+
+      const drag = selectionDragRef.current;
+      if (!drag || !onSelectionChange || !naturalSize) return;
+      const currentCoords = getImageCoords(e);
       if (!currentCoords) return;
 
-      const x = Math.min(startPos.x, currentCoords.x);
-      const y = Math.min(startPos.y, currentCoords.y);
-      const width = Math.abs(startPos.x - currentCoords.x);
-      const height = Math.abs(startPos.y - currentCoords.y);
+      onSelectionChange(drag.handle
+          ? dragSelection(drag.start, drag.handle, currentCoords.x - drag.origin.x, currentCoords.y - drag.origin.y, naturalSize)
+          : selectionFromPoints(drag.origin, currentCoords));
+  };
 
-      onSelectionChange({ x, y, width, height });
+  const handleZoomStep = (factor: number) => {
+      if (!view || !containerSize || !naturalSize) return;
+      const center = { x: containerSize.width / 2, y: containerSize.height / 2 };
+      setCustomView(zoomAt(view, center, factor, containerSize, naturalSize));
   };
 
-  const handleMouseUp = () => {
-      setIsDrawing(false);
+  const handleActualSize = () => {
+      if (!view || !containerSize) return;
+      setCustomView(zoomToScale(view, containerSize, 1));
   };
 
+  const cursor = panStartRef.current
+      ? 'grabbing'
+      : isSpaceHeld || (!isSelecting && imageUrl)
+          ? 'grab'
+          : isSelecting && isRectangleTool ? 'crosshair' : 'default';
+
+  const zoomButtonClass = "px-2 py-1 text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50";
+
 
   return (
     <div className="flex flex-col">
-      <h3 className="text-lg font-semibold text-gray-700 mb-3">{title}</h3>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold text-gray-700">{title}</h3>
+        {dragNodeId && imageUrl && !isLoading && (
+          // Dragging the image itself pans the view, so the version is dragged from this handle.
+          <span
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(HISTORY_NODE_MIME, dragNodeId);
+              e.dataTransfer.effectAllowed = 'copy';
+              if (imageRef.current) e.dataTransfer.setDragImage(imageRef.current, 0, 0);
+            }}
+            title={t('imageCard.dragToOriginalTitle')}
+            className="inline-flex items-center px-2 py-1 text-xs font-medium border border-gray-300 rounded-md text-gray-600 bg-white hover:bg-gray-50 cursor-grab select-none"
+          >
+            <UseAsOriginalIcon className="w-3.5 h-3.5 mr-1" />
+            {t('imageCard.dragToOriginal')}
+          </span>
+        )}
+      </div>
       <div className="bg-white rounded-xl shadow-md border border-gray-200 overflow-hidden">
         <div 
           ref={containerRef}
-          className="relative aspect-square w-full"
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp} // Stop drawing if mouse leaves
-          style={{ cursor: isSelecting ? 'crosshair' : 'default' }}
+          // Focusable by clicking, so space keeps panning after the pointer wanders off.
+          tabIndex={-1}
+          className="relative aspect-square w-full overflow-hidden bg-gray-100 select-none focus:outline-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+          onPointerEnter={() => setIsPointerOver(true)}
+          onPointerLeave={() => setIsPointerOver(false)}
+          onFocus={() => setHasFocus(true)}
+          onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setHasFocus(false); }}
+          style={{ cursor, touchAction: imageUrl ? 'none' : 'auto' }}
         >
           {isLoading && (
             <div className="absolute inset-0 bg-gray-900 bg-opacity-50 flex flex-col items-center justify-center z-20">
               <ProcessingIcon className="w-12 h-12 text-white animate-spin" />
-              <p className="text-white mt-4 font-medium">Editando sua imagem...</p>
+              <p className="text-white mt-4 font-medium">{t('imageCard.editing')}</p>
             </div>
           )}
           {imageUrl ? (
-            <img
-              src={imageUrl}
-              alt={title}
-              className="w-full h-full object-contain"
-              draggable={false}
-            />
+            view && naturalSize && (
+            <div
+              ref={stageRef}
+              className="absolute"
+              style={{
+                left: view.x,
+                top: view.y,
+                width: naturalSize.width * view.scale,
+                height: naturalSize.height * view.scale,
+                zIndex: 0,
+                // Transparent areas of cutouts show as a checkerboard.
+                background: CHECKERBOARD_BACKGROUND,
+              }}
+            >
+              <img
+                ref={imageRef}
+                src={imageUrl}
+                alt={title}
+                className="w-full h-full"
+                style={{ imageRendering: view.scale >= 2 ? 'pixelated' : 'auto' }}
+                draggable={false}
+              />
+
+              {isComparing && compareMode === 'split' && (
+                  <>
+                      <img
+                          src={compareUrl!}
+                          alt={t('imageCard.before')}
+                          className="absolute inset-0 w-full h-full"
+                          style={{ clipPath: `inset(0 ${100 - splitPosition}% 0 0)`, pointerEvents: 'none' }}
+                          draggable={false}
+                      />
+                      <div
+                          className="absolute top-0 bottom-0 z-10 w-4 -ml-2 flex justify-center cursor-ew-resize"
+                          style={{ left: `${splitPosition}%` }}
+                          onPointerDown={(e) => {
+                              e.stopPropagation();
+                              e.preventDefault();
+                              setIsDraggingSplit(true);
+                          }}
+                      >
+                          <div className="w-0.5 h-full bg-white shadow" />
+                          <div className="absolute top-1/2 -translate-y-1/2 w-4 h-8 rounded bg-white border border-gray-300 shadow" />
+                      </div>
+                  </>
+              )}
+
+              {isComparing && (compareMode === 'onion' || (compareMode === 'hold' && isHoldingOriginal)) && (
+                  <img
+                      src={compareUrl!}
+                      alt={t('imageCard.before')}
+                      className="absolute inset-0 w-full h-full"
+                      style={{ opacity: compareMode === 'onion' ? onionOpacity : 1, pointerEvents: 'none' }}
+                      draggable={false}
+                  />
+              )}
+
+              {isComparing && compareMode === 'diff' && diff && (
+                  <img
+                      src={diff.heatmapUrl}
+                      alt={t('imageCard.diffAlt')}
+                      className="absolute inset-0 w-full h-full"
+                      style={{ pointerEvents: 'none' }}
+                      draggable={false}
+                  />
+              )}
+
+              {overlayUrl && !isComparing && (
+                  <img
+                      src={overlayUrl}
+                      alt=""
+                      className="absolute inset-0 w-full h-full"
+                      style={{ pointerEvents: 'none' }}
+                      draggable={false}
+                  />
+              )}
+
+              {isSelecting && onMaskChange && maskSettings && (
+                  <MaskCanvas
+                      width={naturalSize.width}
+                      height={naturalSize.height}
+                      maskUrl={maskUrl}
+                      onMaskChange={onMaskChange}
+                      settings={maskSettings}
+                      active={!isRectangleTool && !isLoading && !isSpaceHeld}
+                  />
+              )}
+
+              {isSelecting && selection && (
+                  <div
+                      className={`absolute border-2 border-dashed z-10 ${
+                          maskSettings?.mode === 'subtract' ? 'border-red-500 bg-red-500 bg-opacity-25' : 'border-blue-500 bg-blue-500 bg-opacity-25'
+                      }`}
+                      style={{
+                          left: `${(selection.x / naturalSize.width) * 100}%`,
+                          top: `${(selection.y / naturalSize.height) * 100}%`,
+                          width: `${(selection.width / naturalSize.width) * 100}%`,
+                          height: `${(selection.height / naturalSize.height) * 100}%`,
+                          // Pointer-downs on the rectangle and its handles bubble to the container, which reads data-handle.
+                          pointerEvents: canEditRectangle ? 'auto' : 'none',
+                          cursor: canEditRectangle ? HANDLE_CURSORS.move : undefined,
+                      }}
+                      data-handle="move"
+                  >
+                      {canEditRectangle && RESIZE_HANDLES.map(handle => (
+                          <div
+                              key={handle}
+                              data-handle={handle}
+                              // The invisible ::before extends the hit area so the handles can be grabbed with a finger.
+                              className="absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-white border border-gray-700 rounded-sm shadow before:absolute before:-inset-2 before:content-['']"
+                              style={{
+                                  left: handle.includes('w') ? '0%' : handle.includes('e') ? '100%' : '50%',
+                                  top: handle.includes('n') ? '0%' : handle.includes('s') ? '100%' : '50%',
+                                  cursor: HANDLE_CURSORS[handle],
+                              }}
+                          />
+                      ))}
+                  </div>
+              )}
+            </div>
+            )
           ) : (
             <div className="w-full h-full flex flex-col items-center justify-center bg-gray-100 text-gray-400">
               <ImageIcon className="w-16 h-16" />
               <p className="mt-2 text-sm font-medium">
-                {placeholderText || (title === 'Imagem Original' ? 'Envie uma imagem para começar' : 'Sua imagem editada aparecerá aqui')}
+                {placeholderText || t('imageCard.editedPlaceholder')}
               </p>
             </div>
           )}
 
-          {isSelecting && selection && (
-              <div
-                  className="absolute border-2 border-dashed border-blue-500 bg-blue-500 bg-opacity-25 z-10"
-                  style={{
-                      left: `${selection.x}%`,
-                      top: `${selection.y}%`,
-                      width: `${selection.width}%`,
-                      height: `${selection.height}%`,
-                      pointerEvents: 'none', // Don't let the selection div interfere with mouse events on the container
-                  }}
-              />
+          {isComparing && compareMode === 'split' && (
+            <>
+              <span className="absolute bottom-2 left-2 z-10 px-1.5 py-0.5 rounded bg-gray-900 bg-opacity-60 text-white text-xs pointer-events-none">{t('imageCard.before')}</span>
+              <span className="absolute bottom-2 right-2 z-10 px-1.5 py-0.5 rounded bg-gray-900 bg-opacity-60 text-white text-xs pointer-events-none">{t('imageCard.after')}</span>
+            </>
+          )}
+
+          {imageUrl && view && (
+            <div
+              className="absolute top-2 right-2 z-10 inline-flex rounded-md border border-gray-300 overflow-hidden shadow-sm divide-x divide-gray-300"
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <button onClick={() => handleZoomStep(1 / 1.25)} className={zoomButtonClass} title={t('imageCard.zoomOut')}>−</button>
+              <span className="px-2 py-1 text-xs text-gray-600 bg-white tabular-nums">{Math.round(view.scale * 100)}%</span>
+              <button onClick={() => handleZoomStep(1.25)} className={zoomButtonClass} title={t('imageCard.zoomIn')}>+</button>
+              <button onClick={handleActualSize} className={zoomButtonClass} title={t('imageCard.actualSize')}>1:1</button>
+              <button onClick={() => setCustomView(null)} className={zoomButtonClass} title={t('imageCard.fitTitle')}>{t('imageCard.fit')}</button>
+            </div>
           )}
         </div>
         
         {showActions && (
           <div className="bg-gray-50 border-t border-gray-200 p-4">
-             {isSelecting && selection && selection.width > 0 && selection.height > 0 ? (
+             {isSelecting ? (
               <div className="flex flex-col gap-3">
-                <label htmlFor="inpaint-prompt" className="font-semibold text-gray-700">Editar área selecionada:</label>
+                {maskSettings && onMaskSettingsChange && (
+                  <MaskToolbar
+                    settings={maskSettings}
+                    onChange={onMaskSettingsChange}
+                    onClear={() => {
+                      onSelectionChange?.(null);
+                      onMaskChange?.(null);
+                    }}
+                    disabled={isLoading}
+                  />
+                )}
+                {isRectangleTool && hasRectangle && selection && naturalSize && onSelectionChange && (
+                  <SelectionFields selection={selection} bounds={naturalSize} onChange={onSelectionChange} disabled={isLoading} />
+                )}
+                {hasSelection ? (
+                  <label htmlFor="inpaint-prompt" className="font-semibold text-gray-700">{t('imageCard.editSelection')}</label>
+                ) : (
+                  <p className="text-sm text-gray-500">{t('imageCard.drawHint')}</p>
+                )}
                 <textarea
                   id="inpaint-prompt"
                   value={inpaintPrompt}
                   onChange={onInpaintPromptChange}
-                  placeholder="ex: 'Remova os fios elétricos', 'faça o céu ficar mais azul'"
+                  placeholder={t('imageCard.inpaintPlaceholder')}
                   className="w-full h-20 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-primary focus:border-brand-primary transition duration-200 resize-none bg-white text-gray-800 placeholder-gray-400"
                   disabled={isLoading}
                 />
+                {compositeSettings && onCompositeSettingsChange && (
+                  <div className="flex flex-col gap-2 text-xs text-gray-600">
+                    <label className="inline-flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={compositeSettings.enabled}
+                        onChange={(e) => onCompositeSettingsChange({ ...compositeSettings, enabled: e.target.checked })}
+                        disabled={isLoading}
+                      />
+                      {t('imageCard.compositeOnly')}
+                    </label>
+                    {compositeSettings.enabled && (
+                      <div className="grid grid-cols-2 gap-4 items-center">
+                        <label className="flex flex-col">
+                          {t('imageCard.feather', { radius: compositeSettings.featherRadius })}
+                          <input
+                            type="range"
+                            min={0}
+                            max={64}
+                            value={compositeSettings.featherRadius}
+                            onChange={(e) => onCompositeSettingsChange({ ...compositeSettings, featherRadius: Number(e.target.value) })}
+                            disabled={isLoading}
+                          />
+                        </label>
+                        <label className="inline-flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={compositeSettings.matchColors}
+                            onChange={(e) => onCompositeSettingsChange({ ...compositeSettings, matchColors: e.target.checked })}
+                            disabled={isLoading}
+                          />
+                          {t('imageCard.matchColors')}
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                )}
                 <div className="flex flex-col sm:flex-row gap-4">
                    <button 
                     onClick={onInpaintRequest} 
-                    disabled={isLoading || !inpaintPrompt?.trim()}
+                    disabled={isLoading || !hasSelection || !inpaintPrompt?.trim()}
                     className="flex-1 inline-flex items-center justify-center px-4 py-3 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-primary hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
                   >
                     {isLoading ? (
@@ -158,18 +651,61 @@ const ImageCard: React.FC<ImageCardProps> = ({
                     ) : (
                       <MagicWandIcon className="w-5 h-5 mr-2" />
                     )}
-                    {isLoading ? 'Gerando...' : 'Gerar'}
+                    {isLoading ? t('common.generating') : t('common.generate')}
                   </button>
                   <button 
                     onClick={onSelectAreaToggle} 
                     className="flex-1 inline-flex items-center justify-center px-4 py-3 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-primary transition disabled:opacity-50"
                     disabled={isLoading}
                   >
-                    Cancelar
+                    {t('common.cancel')}
                   </button>
                 </div>
               </div>
             ) : (
+            <div className="flex flex-col gap-3">
+            {compareUrl && (
+              <div className="flex flex-col gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs font-medium text-gray-600">{t('imageCard.compare')}</span>
+                  <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                    {(Object.keys(compareModeLabels) as CompareMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setCompareMode(prev => (prev === mode ? null : mode))}
+                        className={`px-2.5 py-1.5 text-xs font-medium transition ${
+                          compareMode === mode ? 'bg-brand-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {t(compareModeLabels[mode])}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {compareMode === 'hold' && (
+                  <button
+                    onPointerDown={() => setIsHoldingOriginal(true)}
+                    onPointerUp={() => setIsHoldingOriginal(false)}
+                    onPointerLeave={() => setIsHoldingOriginal(false)}
+                    onPointerCancel={() => setIsHoldingOriginal(false)}
+                    className="px-3 py-1.5 text-xs font-medium border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 select-none"
+                  >
+                    {t('imageCard.holdToCompare')}
+                  </button>
+                )}
+                {compareMode === 'onion' && (
+                  <label className="flex flex-col text-xs text-gray-600">
+                    {t('imageCard.onionOpacity', { percent: Math.round(onionOpacity * 100) })}
+                    <input type="range" min={0} max={100} value={Math.round(onionOpacity * 100)} onChange={(e) => setOnionOpacity(Number(e.target.value) / 100)} />
+                  </label>
+                )}
+                {compareMode === 'diff' && (
+                  <p className="text-xs text-gray-600">
+                    {diff ? t('imageCard.diffSummary', { percent: Math.round(diff.changedPct * 10) / 10 }) : t('imageCard.diffCalculating')}
+                  </p>
+                )}
+              </div>
+            )}
             <div className="flex items-center justify-center gap-4">
               {onDownload && (
                 <button 
@@ -178,7 +714,7 @@ const ImageCard: React.FC<ImageCardProps> = ({
                   disabled={isLoading}
                 >
                   <DownloadIcon className="w-5 h-5 mr-2" />
-                  Baixar
+                  {t('common.download')}
                 </button>
               )}
               {onSelectAreaToggle && (
@@ -188,10 +724,11 @@ const ImageCard: React.FC<ImageCardProps> = ({
                   disabled={isLoading}
                 >
                   <SelectionIcon className="w-5 h-5 mr-2" />
-                  {isSelecting ? 'Cancelar Seleção' : 'Editar Área'}
+                  {isSelecting ? t('imageCard.cancelSelection') : t('imageCard.editArea')}
                 </button>
               )}
             </div>
+            </div>
           )}
           </div>
         )}
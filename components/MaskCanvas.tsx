@@ -0,0 +1,191 @@
+import React from 'react';
+import { MaskSettings } from '../types';
+import { loadImage } from '../utils/canvasUtils';
+
+interface MaskCanvasProps {
+  // Natural size of the image being masked; the mask is painted at full resolution.
+  width: number;
+  height: number;
+  maskUrl: string | null;
+  onMaskChange: (maskUrl: string | null) => void;
+  settings: MaskSettings;
+  // When false the overlay is shown but does not capture the pointer.
+  active: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Colour used to paint the mask. Only its alpha matters when the mask is exported;
+// the colour just makes the overlay readable on top of the photo.
+const MASK_COLOR = '59, 130, 246';
+
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ width, height, maskUrl, onMaskChange, settings, active }) => {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const lastEmittedRef = React.useRef<string | null>(null);
+  const lastPointRef = React.useRef<Point | null>(null);
+  const [isDrawing, setIsDrawing] = React.useState(false);
+  const [lassoPoints, setLassoPoints] = React.useState<Point[]>([]);
+
+  const isSubtracting = settings.tool === 'eraser' || settings.mode === 'subtract';
+
+  // Sync the canvas with mask changes that did not originate here (cleared, restored from history...).
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || maskUrl === lastEmittedRef.current) return;
+    lastEmittedRef.current = maskUrl;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (maskUrl) {
+      loadImage(maskUrl).then(image => ctx.drawImage(image, 0, 0, canvas.width, canvas.height)).catch(console.error);
+    }
+  }, [maskUrl, width, height]);
+
+  // Maps a pointer position to image pixels. The canvas always covers the image exactly.
+  const getImageCoords = (e: React.PointerEvent): Point | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(width, ((e.clientX - rect.left) / rect.width) * width)),
+      y: Math.max(0, Math.min(height, ((e.clientY - rect.top) / rect.height) * height)),
+    };
+  };
+
+  const stamp = (ctx: CanvasRenderingContext2D, point: Point) => {
+    const radius = settings.brushSize / 2;
+    const gradient = ctx.createRadialGradient(point.x, point.y, 0, point.x, point.y, radius);
+    gradient.addColorStop(0, `rgba(${MASK_COLOR}, 1)`);
+    gradient.addColorStop(Math.min(settings.brushHardness, 0.99), `rgba(${MASK_COLOR}, 1)`);
+    gradient.addColorStop(1, `rgba(${MASK_COLOR}, 0)`);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  // Stamps the brush along the segment so fast strokes do not leave gaps.
+  const paintSegment = (from: Point, to: Point) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = isSubtracting ? 'destination-out' : 'source-over';
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const spacing = Math.max(1, settings.brushSize / 4);
+    const steps = Math.max(1, Math.ceil(distance / spacing));
+    for (let i = 1; i <= steps; i++) {
+      stamp(ctx, { x: from.x + ((to.x - from.x) * i) / steps, y: from.y + ((to.y - from.y) * i) / steps });
+    }
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const fillLasso = (points: Point[]) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || points.length < 3) return;
+    ctx.globalCompositeOperation = isSubtracting ? 'destination-out' : 'source-over';
+    ctx.fillStyle = `rgba(${MASK_COLOR}, 1)`;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.fill();
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const emitMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let isEmpty = true;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        isEmpty = false;
+        break;
+      }
+    }
+    const nextMask = isEmpty ? null : canvas.toDataURL('image/png');
+    lastEmittedRef.current = nextMask;
+    onMaskChange(nextMask);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    // Other buttons and extra fingers bubble up to the card, which uses them to pan and pinch.
+    if (e.button !== 0 || !e.isPrimary) return;
+    const point = getImageCoords(e);
+    if (!point) return;
+    e.preventDefault();
+    // Capture keeps the stroke going when the pointer leaves the canvas.
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDrawing(true);
+    if (settings.tool === 'lasso') {
+      setLassoPoints([point]);
+    } else {
+      lastPointRef.current = point;
+      paintSegment(point, point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!isDrawing || !e.isPrimary) return;
+    const point = getImageCoords(e);
+    if (!point) return;
+    if (settings.tool === 'lasso') {
+      setLassoPoints(prev => [...prev, point]);
+    } else if (lastPointRef.current) {
+      paintSegment(lastPointRef.current, point);
+      lastPointRef.current = point;
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!isDrawing || !e.isPrimary) return;
+    setIsDrawing(false);
+    if (settings.tool === 'lasso') {
+      fillLasso(lassoPoints);
+      setLassoPoints([]);
+    }
+    lastPointRef.current = null;
+    emitMask();
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 w-full h-full z-10"
+        style={{
+          opacity: 0.5,
+          pointerEvents: active ? 'auto' : 'none',
+          cursor: active ? 'crosshair' : 'default',
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      {lassoPoints.length > 1 && (
+        <svg
+          className="absolute inset-0 w-full h-full z-10"
+          viewBox={`0 0 ${width} ${height}`}
+          preserveAspectRatio="none"
+          style={{ pointerEvents: 'none' }}
+        >
+          <polyline
+            points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')}
+            fill={isSubtracting ? 'rgba(239, 68, 68, 0.2)' : `rgba(${MASK_COLOR}, 0.2)`}
+            stroke={isSubtracting ? 'rgb(239, 68, 68)' : `rgb(${MASK_COLOR})`}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      )}
+    </>
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { MaskSettings, MaskTool, MaskMode } from '../types';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface MaskToolbarProps {
+  settings: MaskSettings;
+  onChange: (settings: MaskSettings) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const toolLabels: Record<MaskTool, MessageKey> = {
+  rectangle: 'mask.tool.rectangle',
+  brush: 'mask.tool.brush',
+  eraser: 'mask.tool.eraser',
+  lasso: 'mask.tool.lasso',
+};
+
+const modeLabels: Record<MaskMode, MessageKey> = {
+  add: 'mask.mode.add',
+  subtract: 'mask.mode.subtract',
+};
+
+const segmentClass = (isActive: boolean) =>
+  `px-2.5 py-1.5 text-xs font-medium transition disabled:opacity-50 disabled:cursor-not-allowed ${
+    isActive ? 'bg-brand-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+  }`;
+
+const MaskToolbar: React.FC<MaskToolbarProps> = ({ settings, onChange, onClear, disabled = false }) => {
+  const { t } = useI18n();
+  const usesBrush = settings.tool === 'brush' || settings.tool === 'eraser';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+          {(Object.keys(toolLabels) as MaskTool[]).map(tool => (
+            <button
+              key={tool}
+              onClick={() => onChange({ ...settings, tool })}
+              disabled={disabled}
+              className={segmentClass(settings.tool === tool)}
+            >
+              {t(toolLabels[tool])}
+            </button>
+          ))}
+        </div>
+        {settings.tool !== 'eraser' && (
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {(Object.keys(modeLabels) as MaskMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => onChange({ ...settings, mode })}
+                disabled={disabled}
+                className={segmentClass(settings.mode === mode)}
+              >
+                {t(modeLabels[mode])}
+              </button>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={onClear}
+          disabled={disabled}
+          className="px-2.5 py-1.5 text-xs font-medium border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          {t('mask.clear')}
+        </button>
+      </div>
+
+      {usesBrush && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="flex flex-col text-xs text-gray-600">
+            {t('mask.size', { size: settings.brushSize })}
+            <input
+              type="range"
+              min={4}
+              max={400}
+              value={settings.brushSize}
+              onChange={(e) => onChange({ ...settings, brushSize: Number(e.target.value) })}
+              disabled={disabled}
+            />
+          </label>
+          <label className="flex flex-col text-xs text-gray-600">
+            {t('mask.hardness', { percent: Math.round(settings.brushHardness * 100) })}
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(settings.brushHardness * 100)}
+              onChange={(e) => onChange({ ...settings, brushHardness: Number(e.target.value) / 100 })}
+              disabled={disabled}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaskToolbar;
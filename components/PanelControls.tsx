@@ -0,0 +1,34 @@
+import React from 'react';
+
+// Longest side of the live previews in the local editing panels.
+export const PREVIEW_SIZE = 640;
+
+export const toolButtonClass = "px-2 py-1 text-xs font-medium border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition";
+export const activeToolButtonClass = "px-2 py-1 text-xs font-medium border border-brand-primary rounded-md text-white bg-brand-primary transition";
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+export const Slider: React.FC<SliderProps> = ({ label, value, min, max, step = 1, disabled = false, onChange }) => (
+  <label className={`flex items-center gap-2 text-xs text-gray-600 ${disabled ? 'opacity-50' : ''}`}>
+    <span className="w-24 flex-shrink-0">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      disabled={disabled}
+      className="flex-1"
+    />
+    <span className="w-10 text-right tabular-nums">{value}</span>
+  </label>
+);
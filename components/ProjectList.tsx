@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  ProjectSummary,
+  listProjects,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+  getStorageEstimate,
+} from '../services/projectStore';
+import { ImageIcon } from './Icons';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ProjectListProps {
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+type NumberFormatter = (value: number, options?: Intl.NumberFormatOptions) => string;
+
+const formatBytes = (bytes: number, formatNumber: NumberFormatter): string => {
+  if (bytes < 1024 * 1024) return `${formatNumber(bytes / 1024, { maximumFractionDigits: 0 })} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${formatNumber(bytes / (1024 * 1024), { maximumFractionDigits: 1 })} MB`;
+  return `${formatNumber(bytes / (1024 * 1024 * 1024), { maximumFractionDigits: 2 })} GB`;
+};
+
+const linkButtonClass = "text-xs text-brand-primary hover:underline disabled:opacity-50";
+
+const ProjectThumbnail: React.FC<{ blob: Blob | null; alt: string }> = ({ blob, alt }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url ? (
+    <img src={url} alt={alt} className="w-14 h-14 object-contain bg-gray-100 rounded" />
+  ) : (
+    <div className="w-14 h-14 flex items-center justify-center bg-gray-100 rounded text-gray-400">
+      <ImageIcon className="w-6 h-6" />
+    </div>
+  );
+};
+
+const ProjectList: React.FC<ProjectListProps> = ({ currentProjectId, onOpen, onNew, onRenamed, onDeleted, onClose }) => {
+  const { t, formatNumber, formatDate } = useI18n();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, estimate] = await Promise.all([listProjects(), getStorageEstimate()]);
+      setProjects(list);
+      setStorage(estimate);
+    } catch (err) {
+      setError('errors.projectsLoadFailed');
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError('errors.projectActionFailed');
+      console.error(err);
+    }
+  };
+
+  const handleRename = (id: string) => runAction(async () => {
+    const name = renameValue.trim();
+    if (name) {
+      await renameProject(id, name);
+      onRenamed(id, name);
+    }
+    setRenamingId(null);
+  });
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!window.confirm(t('projects.confirmDelete', { name: project.name }))) return;
+    runAction(async () => {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    });
+  };
+
+  const usagePct = storage && storage.quota > 0 ? (storage.usage / storage.quota) * 100 : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 bg-opacity-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="project-list-title"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="project-list-title" className="text-xl font-semibold text-gray-800">{t('projects.title')}</h2>
+          <button
+            onClick={onNew}
+            className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-primary hover:bg-blue-700 transition"
+          >
+            {t('projects.new')}
+          </button>
+        </div>
+
+        {storage && (
+          <div className="mb-4">
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>{t('projects.storage')}</span>
+              <span>{t('projects.storageOf', { used: formatBytes(storage.usage, formatNumber), quota: formatBytes(storage.quota, formatNumber) })}</span>
+            </div>
+            <div className="h-2 bg-gray-200 rounded">
+              <div
+                className={`h-2 rounded ${usagePct > 80 ? 'bg-red-500' : 'bg-brand-primary'}`}
+                style={{ width: `${Math.min(100, Math.max(1, usagePct))}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mb-3 text-sm text-red-600">{t(error)}</p>}
+
+        {projects.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('projects.empty')}</p>
+        ) : (
+          <ul className="flex flex-col divide-y divide-gray-200">
+            {projects.map(project => (
+              <li key={project.id} className="flex items-center gap-3 py-3">
+                <ProjectThumbnail blob={project.thumbnail} alt={project.name} />
+                <div className="flex-1 min-w-0">
+                  {renamingId === project.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleRename(project.id);
+                      }}
+                      className="flex gap-2"
+                    >
+                      <input
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        autoFocus
+                        className="flex-1 p-1 border border-gray-300 rounded-md text-sm"
+                      />
+                      <button type="submit" className={linkButtonClass}>{t('projects.save')}</button>
+                      <button type="button" onClick={() => setRenamingId(null)} className={linkButtonClass}>{t('common.cancel')}</button>
+                    </form>
+                  ) : (
+                    <p className="text-sm font-medium text-gray-800 truncate">
+                      {project.name}
+                      {project.id === currentProjectId && <span className="ml-2 text-xs text-brand-primary">{t('projects.current')}</span>}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {t('projects.versions', { count: project.versionCount })} · {t('projects.editedAt', { date: formatDate(project.updatedAt) })}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-3 justify-end">
+                  <button onClick={() => onOpen(project.id)} disabled={project.id === currentProjectId} className={linkButtonClass}>{t('common.open')}</button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(project.id);
+                      setRenameValue(project.name);
+                    }}
+                    className={linkButtonClass}
+                  >
+                    {t('projects.rename')}
+                  </button>
+                  <button onClick={() => runAction(() => duplicateProject(project.id, t('common.copyName', { name: project.name })))} className={linkButtonClass}>
+                    {t('projects.duplicate')}
+                  </button>
+                  <button onClick={() => handleDelete(project)} className="text-xs text-red-600 hover:underline">{t('projects.delete')}</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectList;
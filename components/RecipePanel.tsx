@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { CompositeSettings, EditHistory, Recipe, RecipeRun, RecipeStep, RecipeStepStatus } from '../types';
+import { listRecipes, saveRecipe, deleteRecipe } from '../services/recipeStore';
+import { parseRecipe, recipeStepsFromHistory, serializeRecipe } from '../utils/recipes';
+import { describeAdjustments } from '../utils/adjustments';
+import { downloadBlob } from '../utils/fileUtils';
+import { CheckCircleIcon, AlertTriangleIcon, ProcessingIcon } from './Icons';
+import { LocalizedMessage, toLocalizedMessage } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface RecipePanelProps {
+  history: EditHistory;
+  // Blending applied when the recipe's area edits are replayed.
+  compositeSettings: CompositeSettings;
+  // Progress of the recipe being replayed, if any.
+  run: RecipeRun | null;
+  // Whether there is an image to run a recipe on.
+  canRun: boolean;
+  disabled?: boolean;
+  onRun: (recipe: Recipe) => void;
+}
+
+const linkButtonClass = "text-xs text-brand-primary hover:underline disabled:opacity-50 disabled:no-underline";
+
+const StepStatusIcon: React.FC<{ status: RecipeStepStatus }> = ({ status }) => {
+  if (status === 'running') return <ProcessingIcon className="w-4 h-4 text-brand-primary animate-spin" />;
+  if (status === 'done') return <CheckCircleIcon className="w-4 h-4 text-green-600" />;
+  if (status === 'error') return <AlertTriangleIcon className="w-4 h-4 text-red-500" />;
+  return <span className="w-4 h-4 rounded-full border-2 border-gray-300" />;
+};
+
+const RecipePanel: React.FC<RecipePanelProps> = ({ history, compositeSettings, run, canRun, disabled = false, onRun }) => {
+  const { t } = useI18n();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [name, setName] = useState('');
+  const [notice, setNotice] = useState<LocalizedMessage | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecipes(await listRecipes());
+    } catch (err) {
+      setError({ key: 'errors.recipesLoadFailed' });
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(toLocalizedMessage(err, 'errors.recipeActionFailed'));
+      console.error(err);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const recipeName = name.trim();
+    if (!recipeName || !history.currentId) return;
+    const nodeId = history.currentId;
+    runAction(async () => {
+      const { steps, skipped } = await recipeStepsFromHistory(history, nodeId, compositeSettings);
+      if (steps.length === 0) {
+        setError({ key: 'recipes.nothingToSave' });
+        return;
+      }
+      await saveRecipe({ id: crypto.randomUUID(), name: recipeName, steps, createdAt: Date.now() });
+      setName('');
+      if (skipped > 0) setNotice({ key: 'recipes.skipped', params: { count: skipped } });
+    });
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    runAction(async () => {
+      for (const file of files) {
+        await saveRecipe(parseRecipe(await file.text()));
+      }
+    });
+  };
+
+  const handleExport = (recipe: Recipe) => {
+    const blob = new Blob([serializeRecipe(recipe)], { type: 'application/json' });
+    downloadBlob(blob, `${recipe.name}.recipe.json`);
+  };
+
+  const handleDelete = (recipe: Recipe) => {
+    if (!window.confirm(t('recipes.confirmDelete', { name: recipe.name }))) return;
+    runAction(() => deleteRecipe(recipe.id));
+  };
+
+  const describeStep = (step: RecipeStep): string => {
+    if (step.kind === 'edit') return t('recipes.step.edit', { prompt: step.prompt });
+    if (step.kind === 'inpaint') return t('recipes.step.inpaint', { prompt: step.prompt });
+    return describeAdjustments(t, step.adjustments);
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow-md border border-gray-200 p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-700">{t('recipes.title')}</h3>
+        <button onClick={() => importInputRef.current?.click()} disabled={disabled} className={linkButtonClass}>
+          {t('recipes.import')}
+        </button>
+        <input
+          type="file"
+          ref={importInputRef}
+          onChange={handleImport}
+          className="hidden"
+          accept="application/json,.json"
+          multiple
+        />
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('recipes.namePlaceholder')}
+          disabled={disabled || !history.currentId}
+          className="flex-1 min-w-0 p-1.5 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !history.currentId || !name.trim()}
+          title={t('recipes.saveHint')}
+          className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          {t('recipes.save')}
+        </button>
+      </form>
+
+      {notice && <p className="text-xs text-gray-600">{t(notice.key, notice.params)}</p>}
+      {error && <p className="text-xs text-red-600">{t(error.key, error.params)}</p>}
+
+      {recipes.length === 0 ? (
+        <p className="text-xs text-gray-500">{t('recipes.empty')}</p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-gray-200">
+          {recipes.map(recipe => {
+            const statuses = run?.recipeId === recipe.id ? run.statuses : null;
+            return (
+              <li key={recipe.id} className="py-2 flex flex-col gap-1.5">
+                <div className="flex items-center gap-2">
+                  <p className="flex-1 min-w-0 text-sm font-medium text-gray-800 truncate">
+                    {recipe.name}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{t('recipes.steps', { count: recipe.steps.length })}</span>
+                  </p>
+                  <button
+                    onClick={() => onRun(recipe)}
+                    disabled={disabled || !canRun}
+                    className="px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-brand-primary hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
+                  >
+                    {t('recipes.run')}
+                  </button>
+                  <button onClick={() => handleExport(recipe)} className={linkButtonClass}>{t('recipes.export')}</button>
+                  <button onClick={() => handleDelete(recipe)} disabled={disabled} className="text-xs text-red-600 hover:underline disabled:opacity-50">
+                    {t('common.remove')}
+                  </button>
+                </div>
+                {statuses && (
+                  <ol className="flex flex-col gap-1 pl-1">
+                    {recipe.steps.map((step, index) => (
+                      <li key={index} className="flex items-center gap-2 text-xs text-gray-600">
+                        <StepStatusIcon status={statuses[index]} />
+                        <span className="truncate">{t('recipes.stepNumber', { number: index + 1 })} {describeStep(step)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecipePanel;
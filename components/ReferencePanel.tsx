@@ -0,0 +1,115 @@
+import React from 'react';
+import { ReferenceImage, ReferenceRole } from '../types';
+import { MAX_REFERENCE_IMAGES } from '../services/imageEditProvider';
+import { ImageIcon, UploadIcon } from './Icons';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ReferencePanelProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  onAdd: () => void;
+  disabled?: boolean;
+}
+
+const referenceRoleLabels: Record<ReferenceRole, MessageKey> = {
+  background: 'references.role.background',
+  style: 'references.role.style',
+  lighting: 'references.role.lighting',
+  color: 'references.role.color',
+  object: 'references.role.object',
+};
+
+const smallButtonClass = "px-2 py-1 text-xs font-medium border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition";
+
+const ReferencePanel: React.FC<ReferencePanelProps> = ({ references, onChange, onAdd, disabled = false }) => {
+  const { t } = useI18n();
+
+  const update = (id: string, changes: Partial<ReferenceImage>) =>
+    onChange(references.map(reference => (reference.id === id ? { ...reference, ...changes } : reference)));
+
+  // The model reads the references in this order, so earlier ones tend to weigh more.
+  const move = (index: number, offset: number) => {
+    const next = [...references];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col">
+      <h3 className="text-lg font-semibold text-gray-700 mb-3">{t('references.title')}</h3>
+      <div className="bg-white rounded-xl shadow-md border border-gray-200 p-3 flex flex-col gap-3">
+        {references.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-gray-400">
+            <ImageIcon className="w-12 h-12" />
+            <p className="mt-2 text-sm font-medium text-center">{t('references.empty')}</p>
+          </div>
+        ) : (
+          <ol className="flex flex-col gap-2">
+            {references.map((reference, index) => (
+              <li key={reference.id} className="flex items-center gap-3 p-2 rounded-md border border-gray-200">
+                <img
+                  src={reference.url}
+                  alt={t('references.alt', { number: index + 1 })}
+                  className="w-16 h-16 flex-shrink-0 rounded object-contain bg-gray-100"
+                  draggable={false}
+                />
+                <div className="flex-1 min-w-0 flex flex-col gap-1.5">
+                  <label className="flex flex-col text-xs text-gray-600">
+                    {t('references.role')}
+                    <select
+                      value={reference.role}
+                      onChange={(e) => update(reference.id, { role: e.target.value as ReferenceRole })}
+                      disabled={disabled}
+                      className="p-1 border border-gray-300 rounded-md bg-white text-xs"
+                    >
+                      {(Object.keys(referenceRoleLabels) as ReferenceRole[]).map(role => (
+                        <option key={role} value={role}>{t(referenceRoleLabels[role])}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={disabled || index === 0}
+                      title={t('references.moveUp')}
+                      className={smallButtonClass}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={disabled || index === references.length - 1}
+                      title={t('references.moveDown')}
+                      className={smallButtonClass}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => onChange(references.filter(other => other.id !== reference.id))}
+                      disabled={disabled}
+                      className={smallButtonClass}
+                    >
+                      {t('references.remove')}
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+        <button
+          onClick={onAdd}
+          disabled={disabled || references.length >= MAX_REFERENCE_IMAGES}
+          className="w-full inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          <UploadIcon className="w-4 h-4 mr-2" />
+          {t('references.add', { current: references.length, max: MAX_REFERENCE_IMAGES })}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReferencePanel;
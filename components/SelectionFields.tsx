@@ -0,0 +1,60 @@
+import React from 'react';
+import { Selection } from '../types';
+import { Size } from '../utils/viewport';
+import { clampSelection, roundSelection } from '../utils/selection';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface SelectionFieldsProps {
+  selection: Selection;
+  // Natural size of the image, which bounds the selection.
+  bounds: Size;
+  onChange: (selection: Selection) => void;
+  disabled?: boolean;
+}
+
+const fieldLabels: Record<keyof Selection, MessageKey> = {
+  x: 'selection.x',
+  y: 'selection.y',
+  width: 'selection.width',
+  height: 'selection.height',
+};
+
+const numberInputClass = "w-full p-1 border border-gray-300 rounded-md bg-white text-xs tabular-nums";
+
+const SelectionFields: React.FC<SelectionFieldsProps> = ({ selection, bounds, onChange, disabled = false }) => {
+  const { t } = useI18n();
+  const rounded = roundSelection(selection);
+
+  const handleChange = (field: keyof Selection, value: string) => {
+    const number = Number(value);
+    if (value === '' || !Number.isFinite(number)) return;
+    // A zero-sized rectangle would count as no selection and hide these fields.
+    const min = field === 'width' || field === 'height' ? 1 : 0;
+    onChange(clampSelection({ ...rounded, [field]: Math.max(min, number) }, bounds));
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="grid grid-cols-4 gap-2 text-xs text-gray-600">
+        {(Object.keys(fieldLabels) as (keyof Selection)[]).map(field => (
+          <label key={field} className="flex flex-col">
+            {t(fieldLabels[field])}
+            <input
+              type="number"
+              min={field === 'width' || field === 'height' ? 1 : 0}
+              max={field === 'x' || field === 'width' ? bounds.width : bounds.height}
+              value={rounded[field]}
+              onChange={(e) => handleChange(field, e.target.value)}
+              disabled={disabled}
+              className={numberInputClass}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">{t('selection.hint')}</p>
+    </div>
+  );
+};
+
+export default SelectionFields;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { ShadowPreset, ShadowSettings } from '../types';
+import { DEFAULT_SHADOW_SETTINGS, describeShadows, loadShadowPresets, renderShadows, saveShadowPresets } from '../utils/shadows';
+import { CHECKERBOARD_BACKGROUND } from '../utils/chromaKey';
+import { loadImage, canvasToBase64 } from '../utils/canvasUtils';
+import { ProcessingIcon } from './Icons';
+import { PREVIEW_SIZE, Slider, toolButtonClass } from './PanelControls';
+import { LocalizedMessage, toLocalizedMessage } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ShadowPanelProps {
+  // The image to add effects to, on a clean white or transparent background.
+  imageUrl: string | null;
+  disabled?: boolean;
+  onApply: (imageBase64: string, description: string) => void;
+}
+
+const ShadowPanel: React.FC<ShadowPanelProps> = ({ imageUrl, disabled = false, onApply }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<ShadowSettings>(DEFAULT_SHADOW_SETTINGS);
+  const [presets, setPresets] = useState<ShadowPreset[]>(loadShadowPresets);
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+
+  useEffect(() => {
+    if (!imageUrl || !isOpen) {
+      setSource(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(image => { if (!cancelled) setSource(image); })
+      .catch(err => {
+        if (cancelled) return;
+        setError({ key: 'errors.shadowsLoadFailed' });
+        console.error(err);
+      });
+    return () => { cancelled = true; };
+  }, [imageUrl, isOpen]);
+
+  useEffect(() => {
+    if (!source) {
+      setPreviewUrl(null);
+      return;
+    }
+    try {
+      const canvas = renderShadows(source, source.width, source.height, settings, { maxSize: PREVIEW_SIZE });
+      setPreviewUrl(canvas.toDataURL('image/png'));
+      setError(null);
+    } catch (err) {
+      setPreviewUrl(null);
+      setError(toLocalizedMessage(err, 'errors.shadowsPreviewFailed'));
+      console.error(err);
+    }
+  }, [source, settings]);
+
+  // Editing the settings detaches them from the preset they were loaded from.
+  const update = <K extends keyof ShadowSettings>(effect: K, changes: Partial<ShadowSettings[K]>) => {
+    setSettings(prev => ({ ...prev, [effect]: { ...prev[effect], ...changes } }));
+    setPresetId('');
+  };
+
+  const updatePresets = (next: ShadowPreset[]) => {
+    setPresets(next);
+    saveShadowPresets(next);
+  };
+
+  const handleSelectPreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find(candidate => candidate.id === id);
+    if (preset) setSettings(preset.settings);
+  };
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (!name) return;
+    // Saving under an existing name replaces that preset.
+    const existing = presets.find(preset => preset.name === name);
+    const preset: ShadowPreset = { id: existing?.id ?? crypto.randomUUID(), name, settings };
+    updatePresets(existing ? presets.map(candidate => (candidate.id === existing.id ? preset : candidate)) : [...presets, preset]);
+    setPresetId(preset.id);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    const preset = presets.find(candidate => candidate.id === presetId);
+    if (!preset || !window.confirm(t('shadows.confirmDelete', { name: preset.name }))) return;
+    updatePresets(presets.filter(candidate => candidate.id !== preset.id));
+    setPresetId('');
+  };
+
+  const handleApply = async () => {
+    if (!source) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      // Let the spinner render before the full-resolution pass blocks the thread.
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const canvas = renderShadows(source, source.width, source.height, settings);
+      onApply(canvasToBase64(canvas), describeShadows(t, settings));
+    } catch (err) {
+      setError(toLocalizedMessage(err, 'errors.shadowsApplyFailed'));
+      console.error(err);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!imageUrl) return null;
+
+  const { dropShadow, contactShadow, reflection } = settings;
+  const hasEffect = dropShadow.enabled || contactShadow.enabled || reflection.enabled;
+
+  const renderToggle = (label: string, checked: boolean, onChange: (enabled: boolean) => void) => (
+    <label className="inline-flex items-center gap-2 text-xs font-semibold text-gray-700">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow-md border border-gray-200 p-3">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-sm font-semibold text-gray-700"
+        aria-expanded={isOpen}
+      >
+        {t('shadows.title')}
+        <span className="text-xs font-normal text-gray-500">{isOpen ? t('common.close') : t('common.open')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 flex flex-col gap-3">
+          <p className="text-xs text-gray-500">{t('shadows.hint')}</p>
+
+          <div className="relative overflow-hidden rounded-md" style={{ background: CHECKERBOARD_BACKGROUND }}>
+            {previewUrl ? (
+              <img src={previewUrl} alt={t('shadows.previewAlt')} className="block w-full h-auto" draggable={false} />
+            ) : (
+              <div className="h-40 flex items-center justify-center text-gray-400">
+                {!error && <ProcessingIcon className="w-6 h-6 animate-spin" />}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={presetId}
+              onChange={(e) => handleSelectPreset(e.target.value)}
+              aria-label={t('shadows.preset')}
+              className="flex-1 min-w-0 p-1 border border-gray-300 rounded-md bg-white text-xs"
+            >
+              <option value="">{t('shadows.customSettings')}</option>
+              {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            </select>
+            <button onClick={handleDeletePreset} disabled={!presetId} className={toolButtonClass}>{t('common.remove')}</button>
+          </div>
+          <form onSubmit={handleSavePreset} className="flex gap-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder={t('shadows.presetNamePlaceholder')}
+              className="flex-1 min-w-0 p-1 border border-gray-300 rounded-md text-xs"
+            />
+            <button type="submit" disabled={!presetName.trim()} className={toolButtonClass}>{t('shadows.savePreset')}</button>
+          </form>
+
+          <div className="flex flex-col gap-1.5">
+            {renderToggle(t('shadows.dropShadow'), dropShadow.enabled, enabled => update('dropShadow', { enabled }))}
+            <Slider label={t('shadows.angle')} value={dropShadow.angle} min={0} max={359} disabled={!dropShadow.enabled} onChange={angle => update('dropShadow', { angle })} />
+            <Slider label={t('shadows.distance')} value={dropShadow.distance} min={0} max={30} step={0.5} disabled={!dropShadow.enabled} onChange={distance => update('dropShadow', { distance })} />
+            <Slider label={t('shadows.blur')} value={dropShadow.blur} min={0} max={20} step={0.5} disabled={!dropShadow.enabled} onChange={blur => update('dropShadow', { blur })} />
+            <Slider label={t('shadows.opacity')} value={dropShadow.opacity} min={0} max={100} disabled={!dropShadow.enabled} onChange={opacity => update('dropShadow', { opacity })} />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            {renderToggle(t('shadows.contactShadow'), contactShadow.enabled, enabled => update('contactShadow', { enabled }))}
+            <Slider label={t('shadows.height')} value={contactShadow.height} min={0.5} max={15} step={0.5} disabled={!contactShadow.enabled} onChange={height => update('contactShadow', { height })} />
+            <Slider label={t('shadows.blur')} value={contactShadow.blur} min={0} max={10} step={0.5} disabled={!contactShadow.enabled} onChange={blur => update('contactShadow', { blur })} />
+            <Slider label={t('shadows.opacity')} value={contactShadow.opacity} min={0} max={100} disabled={!contactShadow.enabled} onChange={opacity => update('contactShadow', { opacity })} />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            {renderToggle(t('shadows.reflection'), reflection.enabled, enabled => update('reflection', { enabled }))}
+            <Slider label={t('shadows.distance')} value={reflection.distance} min={0} max={10} step={0.5} disabled={!reflection.enabled} onChange={distance => update('reflection', { distance })} />
+            <Slider label={t('shadows.opacity')} value={reflection.opacity} min={0} max={100} disabled={!reflection.enabled} onChange={opacity => update('reflection', { opacity })} />
+            <Slider label={t('shadows.fade')} value={reflection.fade} min={1} max={100} disabled={!reflection.enabled} onChange={fade => update('reflection', { fade })} />
+          </div>
+
+          {error && <p className="text-xs text-red-600">{t(error.key, error.params)}</p>}
+
+          <div className="flex justify-between gap-2">
+            <button
+              onClick={() => {
+                setSettings(DEFAULT_SHADOW_SETTINGS);
+                setPresetId('');
+              }}
+              className={toolButtonClass}
+            >
+              {t('shadows.reset')}
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={disabled || isApplying || !source || !previewUrl || !hasEffect}
+              className="px-3 py-1.5 text-xs font-medium border border-transparent rounded-md text-white bg-brand-primary hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition"
+            >
+              {isApplying ? t('shadows.applying') : t('shadows.apply')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShadowPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { UploadFormat, UploadSettings } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface UploadSettingsPanelProps {
+  settings: UploadSettings;
+  onChange: (settings: UploadSettings) => void;
+  disabled?: boolean;
+}
+
+const MAX_EDGE_OPTIONS = [1024, 1536, 2048, 3072, 4096, 0];
+
+// The automatic option's label is translated; format names are the same in every language.
+const formatOptions: { value: UploadFormat; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+const selectClass = "p-1 border border-gray-300 rounded-md bg-white text-xs disabled:opacity-50";
+
+const UploadSettingsPanel: React.FC<UploadSettingsPanelProps> = ({ settings, onChange, disabled = false }) => {
+  const { t } = useI18n();
+  const update = (changes: Partial<UploadSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <details className="text-xs text-gray-600">
+      <summary className="cursor-pointer select-none font-medium text-gray-700">{t('upload.title')}</summary>
+      <div className="mt-2 flex flex-col gap-2">
+        <label className="flex items-center justify-between gap-2">
+          {t('upload.maxEdge')}
+          <select
+            value={settings.maxEdge}
+            onChange={(e) => update({ maxEdge: Number(e.target.value) })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {MAX_EDGE_OPTIONS.map(edge => (
+              <option key={edge} value={edge}>{edge === 0 ? t('upload.noDownscale') : t('upload.pixels', { size: edge })}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          {t('upload.format')}
+          <select
+            value={settings.format}
+            onChange={(e) => update({ format: e.target.value as UploadFormat })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value="auto">{t('upload.format.auto')}</option>
+            {formatOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.keepMetadata}
+            onChange={(e) => update({ keepMetadata: e.target.checked })}
+            disabled={disabled}
+          />
+          {t('upload.keepMetadata')}
+        </label>
+        <p className="text-gray-500">{t('upload.hint')}</p>
+      </div>
+    </details>
+  );
+};
+
+export default UploadSettingsPanel;
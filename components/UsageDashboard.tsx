@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BudgetSettings, UsageEntry } from '../types';
+import {
+  SessionUsage,
+  clearUsage,
+  getSessionUsage,
+  listUsage,
+  loadBudgetSettings,
+  resetSessionUsage,
+  saveBudgetSettings,
+  subscribeToUsage,
+} from '../services/usageStore';
+import { UsageGroup, getBudgetState, groupUsage, toDayKey, usageToCsv } from '../utils/usage';
+import { downloadBlob } from '../utils/fileUtils';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const numberInputClass = "w-full p-1.5 border border-gray-300 rounded-md text-sm";
+const linkButtonClass = "text-sm text-brand-primary hover:underline disabled:opacity-50";
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+  const { t, formatNumber, formatDate, formatFileDate } = useI18n();
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [session, setSession] = useState<SessionUsage>(getSessionUsage);
+  const [budget, setBudget] = useState<BudgetSettings>(loadBudgetSettings);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const refresh = useCallback(async () => {
+    setSession(getSessionUsage());
+    try {
+      setEntries(await listUsage());
+    } catch (err) {
+      setError('errors.usageLoadFailed');
+      console.error(err);
+    }
+  }, []);
+
+  // Requests still running when the dashboard is open show up as they finish.
+  useEffect(() => {
+    refresh();
+    return subscribeToUsage(refresh);
+  }, [refresh]);
+
+  const formatCost = (cost: number) =>
+    formatNumber(cost, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+  const updateBudget = (changes: Partial<BudgetSettings>) => {
+    const next = { ...budget, ...changes };
+    setBudget(next);
+    saveBudgetSettings(next);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([usageToCsv(entries)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${t('usage.fileName')}_${formatFileDate(Date.now())}.csv`);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('usage.confirmClear'))) return;
+    setError(null);
+    try {
+      await clearUsage();
+    } catch (err) {
+      setError('errors.usageClearFailed');
+      console.error(err);
+    }
+  };
+
+  const byDay = groupUsage(entries, entry => ({
+    key: toDayKey(entry.timestamp),
+    label: formatDate(entry.timestamp, { dateStyle: 'medium' }),
+  })).sort((a, b) => b.key.localeCompare(a.key));
+  const byProject = groupUsage(entries, entry => ({
+    key: entry.projectId ?? '',
+    label: entry.projectName ?? t('usage.noProject'),
+  }));
+
+  const budgetState = getBudgetState(session.cost, budget);
+  const usedPct = budget.limit ? (session.cost / budget.limit) * 100 : 0;
+
+  const renderTable = (title: string, groups: UsageGroup[]) => (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">{title}</h3>
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('usage.empty')}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-1 font-medium" />
+              <th className="py-1 font-medium text-right">{t('usage.requests')}</th>
+              <th className="py-1 font-medium text-right">{t('usage.tokens')}</th>
+              <th className="py-1 font-medium text-right">{t('usage.latency')}</th>
+              <th className="py-1 font-medium text-right">{t('usage.cost')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {groups.map(group => (
+              <tr key={group.key}>
+                <td className="py-1 pr-2 truncate max-w-[12rem]">{group.label}</td>
+                <td className="py-1 text-right tabular-nums">
+                  {formatNumber(group.requests)}
+                  {group.failed > 0 && <span className="ml-1 text-xs text-red-600">({t('usage.failed', { count: group.failed })})</span>}
+                </td>
+                <td className="py-1 text-right tabular-nums">{formatNumber(group.totalTokens)}</td>
+                <td className="py-1 text-right tabular-nums">{formatNumber(group.averageLatencyMs / 1000, { maximumFractionDigits: 1 })} s</td>
+                <td className="py-1 text-right tabular-nums">{formatCost(group.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 bg-opacity-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 flex flex-col gap-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="usage-dashboard-title"
+      >
+        <div>
+          <h2 id="usage-dashboard-title" className="text-xl font-semibold text-gray-800">{t('usage.title')}</h2>
+          <p className="text-xs text-gray-500 mt-1">{t('usage.estimateNote')}</p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{t(error)}</p>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-2">
+            <h3 className="text-sm font-semibold text-gray-700">
+              {t('usage.session', { date: formatDate(session.startedAt, { timeStyle: 'short' }) })}
+            </h3>
+            <p className="text-sm text-gray-700">
+              {t('usage.sessionSummary', {
+                requests: formatNumber(session.requests),
+                tokens: formatNumber(session.totalTokens),
+                cost: formatCost(session.cost),
+              })}
+            </p>
+            {budget.limit !== null && (
+              <div>
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>{t('usage.budgetUsed')}</span>
+                  <span>{t('usage.budgetOf', { used: formatCost(session.cost), limit: formatCost(budget.limit) })}</span>
+                </div>
+                <div className="h-2 bg-gray-200 rounded">
+                  <div
+                    className={`h-2 rounded ${budgetState === 'exceeded' ? 'bg-red-500' : budgetState === 'warning' ? 'bg-amber-500' : 'bg-brand-primary'}`}
+                    style={{ width: `${Math.min(100, Math.max(1, usedPct))}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            <button onClick={resetSessionUsage} className={`${linkButtonClass} self-start`}>{t('usage.newSession')}</button>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <h3 className="text-sm font-semibold text-gray-700">{t('usage.budget')}</h3>
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+              <label className="flex flex-col gap-1">
+                {t('usage.budgetLimit')}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={budget.limit ?? ''}
+                  placeholder={t('usage.noLimit')}
+                  onChange={(e) => updateBudget({ limit: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                  className={numberInputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                {t('usage.warnAt')}
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={budget.warnPercent}
+                  onChange={(e) => updateBudget({ warnPercent: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+                  className={numberInputClass}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">{t('usage.budgetHint')}</p>
+          </div>
+        </div>
+
+        {renderTable(t('usage.byDay'), byDay)}
+        {renderTable(t('usage.byProject'), byProject)}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex gap-4">
+            <button onClick={handleExport} disabled={entries.length === 0} className={linkButtonClass}>{t('usage.exportCsv')}</button>
+            <button onClick={handleClear} disabled={entries.length === 0} className="text-sm text-red-600 hover:underline disabled:opacity-50">
+              {t('usage.clear')}
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
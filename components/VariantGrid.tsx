@@ -0,0 +1,95 @@
+import React, { useCallback } from 'react';
+import { HistoryNode } from '../types';
+import { base64ToBytes, stripExtension, downloadBlob } from '../utils/fileUtils';
+import { createZip } from '../utils/zip';
+import { StarIcon, DownloadIcon } from './Icons';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface VariantGridProps {
+  // The versions generated together, in creation order.
+  variants: HistoryNode[];
+  currentId: string | null;
+  sourceName?: string;
+  disabled?: boolean;
+  onSelect: (nodeId: string) => void;
+  onToggleStar: (nodeId: string) => void;
+}
+
+const buttonClass = "inline-flex items-center px-2.5 py-1.5 text-xs font-medium border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition";
+
+const VariantGrid: React.FC<VariantGridProps> = ({
+  variants,
+  currentId,
+  sourceName,
+  disabled = false,
+  onSelect,
+  onToggleStar,
+}) => {
+  const { t, formatFileDate } = useI18n();
+  const starredCount = variants.filter(variant => variant.starred).length;
+
+  const handleDownload = useCallback((onlyStarred: boolean) => {
+    const stem = sourceName ? stripExtension(sourceName) : t('export.defaultName');
+    // Keep the variant numbers in the names so favourites can be matched to the grid.
+    const entries = variants
+      .map((variant, index) => ({ variant, number: index + 1 }))
+      .filter(({ variant }) => !onlyStarred || variant.starred)
+      .map(({ variant, number }) => ({
+        name: `${t('variants.fileName', { name: stem, number: String(number) })}.png`,
+        data: base64ToBytes(variant.imageUrl.split(',')[1]),
+      }));
+    if (entries.length === 0) return;
+    const zipName = t(onlyStarred ? 'variants.zipStarred' : 'variants.zipAll', { name: stem, date: formatFileDate(Date.now()) });
+    downloadBlob(createZip(entries), `${zipName}.zip`);
+  }, [variants, sourceName, t, formatFileDate]);
+
+  if (variants.length < 2) return null;
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow-md border border-gray-200 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-gray-700">{t('variants.title', { count: variants.length })}</h4>
+        <div className="flex gap-2">
+          <button onClick={() => handleDownload(true)} disabled={starredCount === 0} className={buttonClass}>
+            <StarIcon className="w-3.5 h-3.5 mr-1" />
+            {t('variants.downloadStarred')}
+          </button>
+          <button onClick={() => handleDownload(false)} className={buttonClass}>
+            <DownloadIcon className="w-3.5 h-3.5 mr-1" />
+            {t('variants.downloadAll')}
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {variants.map((variant, index) => {
+          const isCurrent = variant.id === currentId;
+          return (
+            <div key={variant.id} className="relative">
+              <button
+                onClick={() => onSelect(variant.id)}
+                disabled={disabled}
+                title={t('variants.select')}
+                className={`block w-full aspect-square rounded-md overflow-hidden border-2 transition disabled:cursor-not-allowed ${
+                  isCurrent ? 'border-brand-primary' : 'border-gray-200 hover:border-blue-200'
+                }`}
+              >
+                <img src={variant.imageUrl} alt={t('variants.alt', { number: index + 1 })} className="w-full h-full object-contain bg-gray-100" draggable={false} />
+                <span className="absolute bottom-1 left-1 bg-white bg-opacity-80 rounded px-1 text-[11px] text-gray-600">{index + 1}</span>
+              </button>
+              <button
+                onClick={() => onToggleStar(variant.id)}
+                title={t(variant.starred ? 'variants.unstar' : 'variants.star')}
+                aria-pressed={Boolean(variant.starred)}
+                className="absolute top-1 right-1 p-1 rounded-full bg-white bg-opacity-80 hover:bg-opacity-100 transition"
+              >
+                <StarIcon className={`w-4 h-4 ${variant.starred ? 'fill-current text-yellow-500' : 'text-gray-500'}`} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariantGrid;
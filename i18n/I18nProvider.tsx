@@ -0,0 +1,58 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  Locale,
+  Translate,
+  loadLocale,
+  saveLocale,
+  translate,
+  formatNumber,
+  formatDate,
+  formatFileDate,
+} from './index';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatFileDate: (value: Date | number, withTime?: boolean) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  // Keeps the document language in sync for screen readers, hyphenation and spell checking.
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatNumber: (number, options) => formatNumber(locale, number, options),
+    formatDate: (date, options) => formatDate(locale, date, options),
+    formatFileDate: (date, withTime) => formatFileDate(locale, date, withTime),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+/**
+ * Returns the active language with its translate and formatting helpers.
+ */
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used inside an I18nProvider");
+  }
+  return context;
+};
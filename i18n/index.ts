@@ -0,0 +1,164 @@
+import { ptBR, MessageKey } from './messages/pt-BR';
+import { en } from './messages/en';
+import { es } from './messages/es';
+
+export type { MessageKey };
+
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'pt-BR', label: 'Português (Brasil)' },
+  { id: 'en', label: 'English' },
+  { id: 'es', label: 'Español' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+const LOCALE_STORAGE_KEY = 'locale';
+
+const catalogues: Record<Locale, Record<MessageKey, string>> = { 'pt-BR': ptBR, en, es };
+
+/**
+ * Keys of messages with plural forms, written as "<key>.one" and "<key>.other"
+ * in the catalogues and looked up by their common prefix.
+ */
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.other` ? Base : never;
+}[MessageKey];
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * A message to show later, in whatever language is active by then.
+ */
+export interface LocalizedMessage {
+  key: MessageKey | PluralKey;
+  params?: MessageParams;
+}
+
+export type Translate = (key: MessageKey | PluralKey, params?: MessageParams) => string;
+
+const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in catalogues;
+
+/**
+ * Returns the language chosen in the switcher, falling back to the browser's
+ * preferred languages and finally to Portuguese.
+ */
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const prefix = language.toLowerCase().split('-')[0];
+    const match = LOCALES.find(locale => locale.id.toLowerCase().split('-')[0] === prefix);
+    if (match) return match.id;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/**
+ * Persists the language choice for subsequent sessions.
+ * @param locale The language to use.
+ */
+export const saveLocale = (locale: Locale): void => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
+
+/**
+ * Formats a number with the locale's digit grouping and decimal separator.
+ * @param locale The language to format for.
+ * @param value The number to format.
+ * @param options Intl options, e.g. `{ maximumFractionDigits: 1 }`.
+ */
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+/**
+ * Formats a date (and time, by default) the way the locale writes it.
+ * @param locale The language to format for.
+ * @param value The date or timestamp to format.
+ * @param options Intl options; defaults to a short date and time.
+ */
+export const formatDate = (
+  locale: Locale,
+  value: Date | number,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'short', timeStyle: 'short' }
+): string => new Intl.DateTimeFormat(locale, options).format(value);
+
+/**
+ * Formats a date for use inside a file name: the locale's day/month order, with
+ * separators that are valid on every operating system (e.g. "19-10-2026").
+ * @param locale The language to format for.
+ * @param value The date to format.
+ * @param withTime Whether to append the time as "HHhMM".
+ */
+export const formatFileDate = (locale: Locale, value: Date | number, withTime = false): string => {
+  const date = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(value)
+    .replace(/[^\d]+/g, '-');
+  if (!withTime) return date;
+  const time = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(value)
+    .filter(part => part.type === 'hour' || part.type === 'minute')
+    .map(part => part.value);
+  return `${date}_${time[0]}h${time[1]}`;
+};
+
+/**
+ * Looks up a message and fills in its `{placeholders}`. Numeric parameters are
+ * formatted for the locale, and a `count` parameter selects the plural form.
+ * Missing keys fall back to Portuguese, then to the key itself.
+ * @param locale The language to translate to.
+ * @param key The message key.
+ * @param params Values for the placeholders.
+ */
+export const translate = (locale: Locale, key: MessageKey | PluralKey, params: MessageParams = {}): string => {
+  const catalogue = catalogues[locale] as Record<string, string>;
+  const fallback = ptBR as Record<string, string>;
+  let lookup: string = key;
+  if (typeof params.count === 'number' && `${key}.other` in fallback) {
+    const form = `${key}.${new Intl.PluralRules(locale).select(params.count)}`;
+    lookup = form in fallback ? form : `${key}.other`;
+  }
+  const message = catalogue[lookup] ?? fallback[lookup] ?? key;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+};
+
+/**
+ * An error whose user-facing text is a message key, so it can be shown in the
+ * active language. `message` holds the English text for logs.
+ */
+export class LocalizedError extends Error {
+  readonly messageKey: MessageKey | PluralKey;
+  readonly params: MessageParams;
+
+  constructor(messageKey: MessageKey | PluralKey, params: MessageParams = {}, options?: ErrorOptions) {
+    super(translate('en', messageKey, params), options);
+    this.name = new.target.name;
+    this.messageKey = messageKey;
+    this.params = params;
+  }
+}
+
+/**
+ * Extracts the message of a caught error, to be translated when shown.
+ * @param error The caught error.
+ * @param fallbackKey Message used for errors that carry no message key.
+ */
+export const toLocalizedMessage = (error: unknown, fallbackKey: MessageKey = 'errors.unknown'): LocalizedMessage =>
+  error instanceof LocalizedError ? { key: error.messageKey, params: error.params } : { key: fallbackKey };
+
+/**
+ * Turns a caught error into a message for the user.
+ * @param t The translate function of the active language.
+ * @param error The caught error.
+ * @param fallbackKey Message used for errors that carry no message key.
+ */
+export const describeError = (t: Translate, error: unknown, fallbackKey: MessageKey = 'errors.unknown'): string => {
+  const message = toLocalizedMessage(error, fallbackKey);
+  return t(message.key, message.params);
+};
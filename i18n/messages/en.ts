@@ -0,0 +1,467 @@
+import { MessageKey } from './pt-BR';
+
+export const en: Record<MessageKey, string> = {
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.open': 'Open',
+  'common.generate': 'Generate',
+  'common.generating': 'Generating...',
+  'common.download': 'Download',
+  'common.remove': 'Remove',
+  'common.copyName': '{name} (copy)',
+  'common.language': 'Language',
+
+  'app.title': 'AI Product Photo Editor',
+  'app.subtitle': 'Clean up and enhance your product photos with simple text instructions.',
+  'app.projects': 'Projects',
+  'app.usage': 'Usage · {cost}',
+  'app.usageTitle': 'Usage, costs and budget of this session',
+  'app.budgetWarning': 'This session has used {percent}% of its budget. Edits stop when it runs out.',
+  'app.provider': 'Editing engine',
+  'app.provider.proxy': 'Gemini (server)',
+  'app.provider.local': 'Local (offline)',
+  'app.provider.gemini': 'Gemini (cloud)',
+  'app.instructions': '1. Your Instructions',
+  'app.mode.single': 'Single Image',
+  'app.mode.batch': 'Batch',
+  'app.promptPlaceholder': "e.g. 'Remove the background and make it white', 'Add a natural shadow', 'Make the colours more vibrant'...",
+  'app.changeImage': 'Change Image',
+  'app.uploadImage': '2. Upload Image',
+  'app.variantCount': 'Variants',
+  'app.variation': 'Diversify',
+  'app.variation.none': 'No variation',
+  'app.variation.seed': 'Vary seed',
+  'app.variation.temperature': 'Vary temperature',
+  'app.generate': '3. Generate',
+  'app.generateVariants': '3. Generate {count} variants',
+  'app.errorTitle': 'Something went wrong',
+  'app.originalTitle': 'Original Image',
+  'app.baseTitle': 'Base Image (v{version})',
+  'app.originalPlaceholder': 'Upload, drop or paste (Ctrl+V) an image to get started',
+  'app.dropOriginal': 'Drop to use as the original',
+  'app.dropReference': 'Drop to add as a reference',
+  'app.editedTitle': 'Edited Image',
+  'app.uploadNotes': 'Upload adjustments',
+  'app.downloadOriginal': 'Download original file ({width}×{height})',
+  'app.provenanceFound.one': 'Exported earlier by this app from "{name}", with {count} edit:',
+  'app.provenanceFound.other': 'Exported earlier by this app from "{name}", with {count} edits:',
+  'app.provenanceUnknownName': 'an unnamed file',
+  'app.footer': 'Built with the Gemini API. Designed for product photography enhancement.',
+
+  'imageCard.editing': 'Editing your image...',
+  'imageCard.editedPlaceholder': 'Your edited image will appear here',
+  'imageCard.before': 'Before',
+  'imageCard.after': 'After',
+  'imageCard.diffAlt': 'Difference map',
+  'imageCard.zoomOut': 'Zoom out',
+  'imageCard.zoomIn': 'Zoom in',
+  'imageCard.actualSize': 'Actual size (1 image pixel = 1 screen pixel)',
+  'imageCard.fitTitle': 'Fit to screen',
+  'imageCard.fit': 'Fit',
+  'imageCard.editSelection': 'Edit selected area:',
+  'imageCard.drawHint': 'Draw over the image to select the area you want to edit.',
+  'imageCard.inpaintPlaceholder': "e.g. 'Remove the power lines', 'make the sky bluer'",
+  'imageCard.compositeOnly': 'Change only the selected area (keeps the rest identical)',
+  'imageCard.feather': 'Edge feathering: {radius}px',
+  'imageCard.matchColors': 'Match colours at the seam',
+  'imageCard.compare': 'Compare:',
+  'imageCard.compare.split': 'Split',
+  'imageCard.compare.hold': 'Hold',
+  'imageCard.compare.onion': 'Overlay',
+  'imageCard.compare.diff': 'Difference',
+  'imageCard.holdToCompare': 'Hold to see the original',
+  'imageCard.onionOpacity': 'Original opacity: {percent}%',
+  'imageCard.diffSummary': '{percent}% of the pixels changed. Red areas changed the most.',
+  'imageCard.diffCalculating': 'Computing differences...',
+  'imageCard.cancelSelection': 'Cancel Selection',
+  'imageCard.editArea': 'Edit Area',
+  'imageCard.dragToOriginal': 'Drag',
+  'imageCard.dragToOriginalTitle': 'Drag onto the original to use this version as the base',
+
+  'references.title': 'References',
+  'references.empty': 'Add reference images (optional): a background scene, a style, lighting, brand colours or an object to insert.',
+  'references.alt': 'Reference {number}',
+  'references.role': 'Role',
+  'references.role.background': 'Background scene',
+  'references.role.style': 'Style',
+  'references.role.lighting': 'Lighting',
+  'references.role.color': 'Brand colours',
+  'references.role.object': 'Object to insert',
+  'references.moveUp': 'Move up',
+  'references.moveDown': 'Move down',
+  'references.remove': 'Remove',
+  'references.add': 'Add reference ({current}/{max})',
+
+  'selection.x': 'X (px)',
+  'selection.y': 'Y (px)',
+  'selection.width': 'Width (px)',
+  'selection.height': 'Height (px)',
+  'selection.hint': 'Drag the handles to resize and the middle to move. Arrow keys move it by 1 px (10 px with Shift).',
+
+  'recipes.title': 'Recipes',
+  'recipes.import': 'Import',
+  'recipes.export': 'Export',
+  'recipes.namePlaceholder': 'Name for a recipe of this version',
+  'recipes.save': 'Save recipe',
+  'recipes.saveHint': 'Saves the steps that led to the current version so they can be run on other photos.',
+  'recipes.empty': 'No recipes yet. Edit a photo, then save its steps as a recipe to repeat them on other photos.',
+  'recipes.run': 'Run',
+  'recipes.steps.one': '{count} step',
+  'recipes.steps.other': '{count} steps',
+  'recipes.stepNumber': '{number}.',
+  'recipes.step.edit': 'Edit: "{prompt}"',
+  'recipes.step.inpaint': 'Area: "{prompt}"',
+  'recipes.skipped.one': '{count} version was left out: painted masks and automatic fixes cannot be replayed.',
+  'recipes.skipped.other': '{count} versions were left out: painted masks and automatic fixes cannot be replayed.',
+  'recipes.nothingToSave': 'None of the versions leading here can be replayed on another photo.',
+  'recipes.confirmDelete': 'Delete the recipe "{name}"?',
+
+  'mask.tool.rectangle': 'Rectangle',
+  'mask.tool.brush': 'Brush',
+  'mask.tool.eraser': 'Eraser',
+  'mask.tool.lasso': 'Lasso',
+  'mask.mode.add': 'Add',
+  'mask.mode.subtract': 'Subtract',
+  'mask.clear': 'Clear selection',
+  'mask.size': 'Size: {size}px',
+  'mask.hardness': 'Hardness: {percent}%',
+
+  'history.title': 'Version history',
+  'history.undo': 'Undo (Ctrl+Z)',
+  'history.redo': 'Redo (Ctrl+Shift+Z)',
+  'history.original': 'original',
+  'history.versionAlt': 'Version {number}',
+  'history.nodeTitle': '{prompt}\n(from {parent}, {date})',
+  'history.base': 'Base',
+  'history.setBase': 'Use as base',
+  'history.setBaseTitle': 'Use this version as the base for the next edit',
+  'history.unsetBase': 'Remove base',
+  'history.unsetBaseTitle': 'Go back to using the original image as the base',
+
+  'variants.title': 'Variants ({count})',
+  'variants.downloadStarred': 'Download favourites',
+  'variants.downloadAll': 'Download all',
+  'variants.select': 'Use this variant as the current image',
+  'variants.alt': 'Variant {number}',
+  'variants.star': 'Mark as favourite',
+  'variants.unstar': 'Remove from favourites',
+  'variants.fileName': '{name}_variant_{number}',
+  'variants.zipStarred': '{name}_favourites_{date}',
+  'variants.zipAll': '{name}_variants_{date}',
+
+  'upload.title': 'Upload preparation',
+  'upload.maxEdge': 'Longest side',
+  'upload.noDownscale': 'No downscaling',
+  'upload.pixels': '{size} px',
+  'upload.format': 'Format',
+  'upload.format.auto': 'Automatic',
+  'upload.keepMetadata': 'Keep metadata (EXIF/XMP)',
+  'upload.hint': 'The camera orientation is always applied. The original file is kept for export.',
+  'upload.orientation.2': 'Camera orientation applied (flipped horizontally).',
+  'upload.orientation.3': 'Camera orientation applied (rotated 180°).',
+  'upload.orientation.4': 'Camera orientation applied (flipped vertically).',
+  'upload.orientation.5': 'Camera orientation applied (rotated 90° and flipped).',
+  'upload.orientation.6': 'Camera orientation applied (rotated 90°).',
+  'upload.orientation.7': 'Camera orientation applied (rotated 270° and flipped).',
+  'upload.orientation.8': 'Camera orientation applied (rotated 270°).',
+  'upload.downscaled': 'Downscaled from {fromWidth}×{fromHeight} to {width}×{height} px.',
+  'upload.converted': 'Converted from {from} to {to}.',
+  'upload.cmyk': 'Colours converted from CMYK to RGB.',
+  'upload.metadataRemoved': 'Metadata (EXIF/XMP, including location) removed.',
+  'upload.metadataUnsupported': 'Metadata could not be kept in the {format} format.',
+
+  'projects.title': 'Projects',
+  'projects.new': 'New Project',
+  'projects.storage': 'Storage used',
+  'projects.storageOf': '{used} of {quota}',
+  'projects.empty': 'No saved projects yet. Upload an image to start one.',
+  'projects.save': 'Save',
+  'projects.current': '(open)',
+  'projects.versions.one': '{count} version',
+  'projects.versions.other': '{count} versions',
+  'projects.editedAt': 'edited {date}',
+  'projects.rename': 'Rename',
+  'projects.duplicate': 'Duplicate',
+  'projects.delete': 'Delete',
+  'projects.confirmDelete': 'Delete the project "{name}"? This cannot be undone.',
+
+  'usage.title': 'Usage and costs',
+  'usage.estimateNote': 'Costs are estimated from the tokens each request used, at the model\'s list prices. The local provider is free.',
+  'usage.session': 'Current session (since {date})',
+  'usage.sessionSummary': '{requests} requests · {tokens} tokens · {cost}',
+  'usage.budgetUsed': 'Budget used',
+  'usage.budgetOf': '{used} of {limit}',
+  'usage.newSession': 'Start a new session',
+  'usage.budget': 'Session budget',
+  'usage.budgetLimit': 'Limit (US$)',
+  'usage.noLimit': 'No limit',
+  'usage.warnAt': 'Warn at (%)',
+  'usage.budgetHint': 'Past the warning level the app shows a notice; once the limit is reached, new requests are blocked until you raise it or start a new session.',
+  'usage.byDay': 'By day',
+  'usage.byProject': 'By project',
+  'usage.noProject': 'No project (batch)',
+  'usage.empty': 'No requests recorded yet.',
+  'usage.requests': 'Requests',
+  'usage.tokens': 'Tokens',
+  'usage.latency': 'Avg. time',
+  'usage.cost': 'Est. cost',
+  'usage.failed.one': '{count} failed',
+  'usage.failed.other': '{count} failed',
+  'usage.exportCsv': 'Export CSV',
+  'usage.fileName': 'usage',
+  'usage.clear': 'Clear log',
+  'usage.confirmClear': 'Delete the whole usage log? The current session\'s budget is not affected.',
+
+  'export.title': 'Export Image',
+  'export.profiles': 'Channel profiles',
+  'export.profile.mercadoLivre': 'Mercado Livre 1200×1200 JPEG 85',
+  'export.profile.instagram': 'Instagram 1080×1350',
+  'export.profile.pngOriginal': 'PNG original size',
+  'export.exportWith': 'Export with {name}',
+  'export.newProfile': 'New profile',
+  'export.deleteProfile': 'Delete profile',
+  'export.sku': 'SKU',
+  'export.skuPlaceholder': 'e.g. CAM-001-BL',
+  'export.fullResolution': 'This version only has local adjustments, so it is exported from the uploaded file at full resolution ({percent}% of the edited image).',
+  'export.upscaleToOriginal': 'Upscale to the size of the uploaded file ({percent}% of the edited image) for original-size and longest-side profiles',
+  'export.upscaleToOriginalHint': 'This version has AI edits or effects made on the downscaled copy, so this only enlarges the result: the pixel count matches the upload, the fine detail does not. Raise the longest side under Upload preparation to edit at full resolution.',
+  'export.embedProvenance': 'Embed the edit history (original file, prompts, models) in the file metadata',
+  'export.provenanceSidecar': 'Also save the edit history as a JSON file',
+  'export.profileName': 'Profile name',
+  'export.format': 'Format',
+  'export.quality': 'Quality: {quality}',
+  'export.dimensions': 'Dimensions',
+  'export.size.original': 'Original size',
+  'export.size.max': 'Longest side',
+  'export.size.exact': 'Exact size',
+  'export.maxDimension': 'Longest side (px)',
+  'export.width': 'Width',
+  'export.height': 'Height',
+  'export.fit': 'Fit',
+  'export.fit.pad': 'Pad edges',
+  'export.fit.crop': 'Crop',
+  'export.keepTransparency': 'Keep transparency',
+  'export.background': 'Background colour',
+  'export.fileName': 'File name',
+  'export.tokensHint': 'Use {tokens}.',
+  'export.exporting': 'Exporting...',
+  'export.submit.one': 'Export {count} profile',
+  'export.submit.other': 'Export {count} profiles',
+  'export.zipName': 'export_{date}',
+  'export.defaultName': 'image',
+  'export.noSku': 'no-sku',
+
+  'batch.title': 'Batch Processing',
+  'batch.summary': 'Images: {total} · Done: {done} · Failed: {failed} · Remaining: {remaining}',
+  'batch.add': 'Add Images',
+  'batch.concurrency': 'Concurrent',
+  'batch.start': 'Start Batch',
+  'batch.pause': 'Pause',
+  'batch.resume': 'Resume',
+  'batch.retryFailed': 'Retry Failed',
+  'batch.downloadZip': 'Download ZIP',
+  'batch.clear': 'Clear',
+  'batch.retry': 'Retry',
+  'batch.paused.one': 'Paused. Waiting for {count} image in progress to finish.',
+  'batch.paused.other': 'Paused. Waiting for {count} images in progress to finish.',
+  'batch.skipped.one': '{count} file skipped because it is not an image.',
+  'batch.skipped.other': '{count} files skipped because they are not images.',
+  'batch.missingPrompt': 'Enter an editing instruction before starting the batch.',
+  'batch.empty': 'Add the photos from the shoot to apply the same instruction to all of them.',
+  'batch.attempt': '(attempt {number})',
+  'batch.status.pending': 'Queued',
+  'batch.status.processing': 'Processing',
+  'batch.status.done': 'Done',
+  'batch.status.error': 'Failed',
+  'batch.zipName': 'edited-batch_{date}',
+  'batch.importCatalogue': 'Import SKU CSV',
+  'batch.downloadReport': 'Download report',
+  'batch.reportName': 'sku-report_{date}',
+  'batch.catalogueSummary.one': 'SKU catalogue: {count} line, {references} reference image(s).',
+  'batch.catalogueSummary.other': 'SKU catalogue: {count} lines, {references} reference image(s).',
+  'batch.catalogueMissing.one': '{count} line has no matching photo yet.',
+  'batch.catalogueMissing.other': '{count} lines have no matching photo yet.',
+  'batch.removeCatalogue': 'Remove catalogue',
+  'batch.catalogueItem': 'SKU {sku} #{number}',
+
+  'compliance.title': 'Marketplace compliance',
+  'compliance.custom': 'Custom',
+  'compliance.minWidth': 'Min. width',
+  'compliance.minHeight': 'Min. height',
+  'compliance.aspectRatio': 'Aspect ratio (W/H)',
+  'compliance.anyRatio': 'any',
+  'compliance.minWhite': 'Min. white background %',
+  'compliance.minFill': 'Min. fill %',
+  'compliance.maxFill': 'Max. fill %',
+  'compliance.analysing': 'Analysing...',
+  'compliance.highlight': 'Highlight problems on the image',
+  'compliance.autoFix': 'Fix automatically',
+  'compliance.autoFixTitle': 'Centres the product and adjusts margins, aspect ratio and resolution',
+  'compliance.fixing': 'Fixing...',
+  'compliance.autoFixVersion': 'Automatic fix ({rules}): centre and fill',
+  'compliance.check.resolution': 'Minimum resolution',
+  'compliance.check.aspect': 'Aspect ratio',
+  'compliance.check.background': 'Pure white background',
+  'compliance.check.fill': 'Product fill',
+  'compliance.check.border': 'No borders',
+  'compliance.detail.resolution': '{width}×{height}px (min. {minWidth}×{minHeight}px)',
+  'compliance.detail.anyAspect': '{ratio}:1 (any ratio)',
+  'compliance.detail.aspect': '{ratio}:1 (required {required}:1)',
+  'compliance.detail.background': '{percent}% of the background at RGB 255,255,255 (min. {min}%)',
+  'compliance.detail.fill': '{percent}% of the frame (expected {min}–{max}%)',
+  'compliance.detail.border': 'Solid border detected around the image',
+  'compliance.detail.noBorder': 'No border detected',
+
+  'adjust.title': 'Local adjustments',
+  'adjust.reopen': 'Reopen this version\'s adjustments (starting from the previous version)',
+  'adjust.previewAlt': 'Adjustment preview',
+  'adjust.eyedropperHint': 'Click an area that should be white or neutral grey.',
+  'adjust.crop': 'Crop',
+  'adjust.cropAspect': 'Crop aspect ratio',
+  'adjust.aspect.free': 'Free',
+  'adjust.aspect.original': 'Original',
+  'adjust.noCrop': 'No crop',
+  'adjust.rotateLeft': 'Rotate 90° left',
+  'adjust.rotateRight': 'Rotate 90° right',
+  'adjust.flipHorizontal': 'Flip ↔',
+  'adjust.flipVertical': 'Flip ↕',
+  'adjust.straighten': 'Straighten (°)',
+  'adjust.brightness': 'Brightness',
+  'adjust.contrast': 'Contrast',
+  'adjust.saturation': 'Saturation',
+  'adjust.levels': 'Levels',
+  'adjust.black': 'Black',
+  'adjust.white': 'White',
+  'adjust.gamma': 'Gamma',
+  'adjust.curve': 'Curve',
+  'adjust.shadows': 'Shadows',
+  'adjust.midtones': 'Midtones',
+  'adjust.highlights': 'Highlights',
+  'adjust.whiteBalance': 'White balance',
+  'adjust.eyedropper': 'Eyedropper',
+  'adjust.neutral': 'Neutral',
+  'adjust.reset': 'Reset',
+  'adjust.apply': 'Apply as new version',
+  'adjust.applying': 'Applying...',
+  'adjust.summary': 'Local adjustment: {changes}',
+  'adjust.summary.none': 'no changes',
+  'adjust.summary.rotate': 'rotate {degrees}°',
+  'adjust.summary.flipHorizontal': 'flip horizontal',
+  'adjust.summary.flipVertical': 'flip vertical',
+  'adjust.summary.straighten': 'straighten {degrees}°',
+  'adjust.summary.crop': 'crop',
+  'adjust.summary.brightness': 'brightness {value}',
+  'adjust.summary.contrast': 'contrast {value}',
+  'adjust.summary.saturation': 'saturation {value}',
+  'adjust.summary.levels': 'levels',
+  'adjust.summary.curve': 'curve',
+  'adjust.summary.whiteBalance': 'white balance',
+
+  'cutout.title': 'Transparent background',
+  'cutout.keyHint': 'The model cannot return transparency. First ask it for a flat key colour behind the product, in a colour the product does not have; that colour is then removed here.',
+  'cutout.keyColor': 'Key colour to ask for',
+  'cutout.color.green': 'Green',
+  'cutout.color.blue': 'Blue',
+  'cutout.color.magenta': 'Magenta',
+  'cutout.requestKey': 'Generate key background',
+  'cutout.previewAlt': 'Cutout preview',
+  'cutout.removedColor': 'Colour to remove',
+  'cutout.eyedropper': 'Pick from image',
+  'cutout.eyedropperHint': 'Click the backdrop in the preview to use its colour.',
+  'cutout.detect': 'Detect',
+  'cutout.presets': 'Key colours',
+  'cutout.tolerance': 'Tolerance',
+  'cutout.softness': 'Edge softness',
+  'cutout.despill': 'Despill',
+  'cutout.refine': 'Refine matte',
+  'cutout.keepBrush': 'Restore brush',
+  'cutout.eraseBrush': 'Erase brush',
+  'cutout.clearRefine': 'Clear strokes',
+  'cutout.brushSize': 'Brush size',
+  'cutout.reset': 'Reset',
+  'cutout.apply': 'Apply cutout',
+  'cutout.applying': 'Applying...',
+  'cutout.version': 'Transparent background (tolerance {tolerance}, despill {despill})',
+
+  'shadows.title': 'Shadows and reflection',
+  'shadows.hint': 'Adds the same shadows to every photo, computed from the product outline. Needs a clean white or transparent background; sizes are relative to the product height, so a saved preset looks the same on any photo.',
+  'shadows.previewAlt': 'Shadow preview',
+  'shadows.preset': 'Preset',
+  'shadows.customSettings': 'Current settings',
+  'shadows.presetNamePlaceholder': 'Preset name',
+  'shadows.savePreset': 'Save preset',
+  'shadows.confirmDelete': 'Delete the preset "{name}"?',
+  'shadows.dropShadow': 'Drop shadow',
+  'shadows.contactShadow': 'Contact shadow',
+  'shadows.reflection': 'Floor reflection',
+  'shadows.angle': 'Angle (°)',
+  'shadows.distance': 'Distance (%)',
+  'shadows.blur': 'Blur (%)',
+  'shadows.height': 'Height (%)',
+  'shadows.opacity': 'Opacity (%)',
+  'shadows.fade': 'Fade (%)',
+  'shadows.reset': 'Reset',
+  'shadows.apply': 'Apply effects',
+  'shadows.applying': 'Applying...',
+  'shadows.summary': 'Shadows: {effects}',
+  'shadows.summary.dropShadow': 'drop shadow',
+  'shadows.summary.contactShadow': 'contact shadow',
+  'shadows.summary.reflection': 'reflection',
+
+  'errors.unknown': 'An unknown error occurred.',
+  'errors.invalidFileType': 'Invalid file type. Please upload an image.',
+  'errors.uploadFailed': 'The uploaded file could not be processed.',
+  'errors.urlImportFailed': 'The image could not be downloaded from the link. The site may not allow it; save the file and upload it instead.',
+  'errors.referenceUploadFailed': 'The reference file could not be processed.',
+  'errors.tooManyReferences': 'Each edit accepts at most {max} references; the extra files were skipped.',
+  'errors.unsupportedFormat': 'The browser cannot open {format} files. Convert the image to JPEG or PNG and try again.',
+  'errors.preprocessFailed': 'The uploaded image could not be prepared.',
+  'errors.missingImageOrPrompt': 'Please upload an image and enter an editing instruction.',
+  'errors.missingSelection': 'Please select an area and enter an instruction to edit it.',
+  'errors.baseUnreadable': 'The version chosen as the base could not be processed.',
+  'errors.editedUnreadable': 'The existing edited image could not be processed.',
+  'errors.maskFailed': 'The mask for the selected area could not be created.',
+  'errors.canvasContext': 'Could not get the canvas context.',
+  'errors.variantFailures': '{failed} of {total} variants failed. {detail}',
+  'errors.projectOpenFailed': 'The saved project could not be opened.',
+  'errors.projectSaveFailed': 'The project could not be saved. Check the available storage space.',
+  'errors.projectsLoadFailed': 'The saved projects could not be loaded.',
+  'errors.projectActionFailed': 'The operation could not be completed.',
+  'errors.recipeInvalid': 'The file is not a valid recipe.',
+  'errors.catalogueInvalid': 'The CSV file could not be read as a SKU catalogue. Every line needs a SKU and an image file name.',
+  'errors.catalogueMissingColumns': 'The CSV needs a header row with SKU and image file name columns.',
+  'errors.catalogueEmpty': 'The CSV has no product lines.',
+  'errors.catalogueReferenceMissing': 'Add the reference image {name} listed in the catalogue.',
+  'errors.recipesLoadFailed': 'The saved recipes could not be loaded.',
+  'errors.recipeActionFailed': 'The recipe operation could not be completed.',
+  'errors.recipeStepFailed': 'Step {step} of the recipe failed. {detail}',
+  'errors.budgetExceeded': 'This session\'s budget has been used up. Raise the limit or start a new session in the usage panel to keep editing.',
+  'errors.usageLoadFailed': 'The usage log could not be loaded.',
+  'errors.usageClearFailed': 'The usage log could not be cleared.',
+  'errors.exportFailed': 'The export file could not be generated.',
+  'errors.complianceFailed': 'The image could not be analysed.',
+  'errors.autoFixFailed': 'The image could not be fixed automatically.',
+  'errors.adjustLoadFailed': 'The image could not be loaded for adjustment.',
+  'errors.adjustPreviewFailed': 'The preview could not be generated.',
+  'errors.adjustApplyFailed': 'The adjustments could not be applied.',
+  'errors.cutoutLoadFailed': 'The image could not be loaded for the cutout.',
+  'errors.cutoutPreviewFailed': 'The cutout preview could not be generated.',
+  'errors.cutoutApplyFailed': 'The cutout could not be applied.',
+  'errors.shadowsLoadFailed': 'The image could not be loaded for the shadow effects.',
+  'errors.shadowsPreviewFailed': 'The shadow preview could not be generated.',
+  'errors.shadowsApplyFailed': 'The shadow effects could not be applied.',
+  'errors.shadowsNeedCleanBackground': 'The product could not be separated from the background. Shadows need a clean white or transparent background around the product.',
+  'errors.editFailed': 'Editing the image failed. Please try again.',
+  'errors.safetyBlocked': 'The request was blocked by the model\'s safety policies{reason}. Try a different prompt or image.',
+  'errors.safetyBlockedCategories': 'The request was blocked by the model\'s safety policies{reason}. Flagged categories: {categories}. Try a different prompt or image.',
+  'errors.rateLimited': 'API usage limit reached. Wait a moment and try again.',
+  'errors.network': 'Could not connect to the editing service. Check your internet connection.',
+  'errors.serviceUnavailable': 'The editing service is temporarily unavailable. Try again shortly.',
+  'errors.apiKeyRejected': 'The editing service rejected the API key. Check the configuration.',
+  'errors.requestRejected': 'The editing service rejected the request (status {status}). Check the image and instruction you sent.',
+  'errors.noImage': 'The model did not return an image{reason}. Rephrase the instruction and try again.',
+  'errors.noImageWithReply': 'The model did not return an image{reason}. Rephrase the instruction and try again. Model reply: "{reply}"',
+  'errors.cancelled': 'Request cancelled.',
+  'errors.payloadTooLarge': 'The uploaded image is too large for the server.',
+  'errors.invalidProxyRequest': 'The server rejected the request. Reload the page and try again.',
+};
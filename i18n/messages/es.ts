@@ -0,0 +1,467 @@
+import { MessageKey } from './pt-BR';
+
+export const es: Record<MessageKey, string> = {
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.open': 'Abrir',
+  'common.generate': 'Generar',
+  'common.generating': 'Generando...',
+  'common.download': 'Descargar',
+  'common.remove': 'Quitar',
+  'common.copyName': '{name} (copia)',
+  'common.language': 'Idioma',
+
+  'app.title': 'Editor de Fotos de Producto con IA',
+  'app.subtitle': 'Limpia y mejora tus fotos de productos con simples instrucciones de texto.',
+  'app.projects': 'Proyectos',
+  'app.usage': 'Uso · {cost}',
+  'app.usageTitle': 'Uso, costes y presupuesto de esta sesión',
+  'app.budgetWarning': 'Esta sesión ya usó el {percent}% del presupuesto. Las ediciones se detienen cuando se agote.',
+  'app.provider': 'Motor de edición',
+  'app.provider.proxy': 'Gemini (servidor)',
+  'app.provider.local': 'Local (sin conexión)',
+  'app.provider.gemini': 'Gemini (nube)',
+  'app.instructions': '1. Tus Instrucciones',
+  'app.mode.single': 'Imagen Única',
+  'app.mode.batch': 'Lote',
+  'app.promptPlaceholder': "ej.: 'Quita el fondo y déjalo blanco', 'Agrega una sombra natural', 'Haz los colores más vivos'...",
+  'app.changeImage': 'Cambiar Imagen',
+  'app.uploadImage': '2. Subir Imagen',
+  'app.variantCount': 'Variaciones',
+  'app.variation': 'Diversificar',
+  'app.variation.none': 'Sin variación',
+  'app.variation.seed': 'Variar seed',
+  'app.variation.temperature': 'Variar temperatura',
+  'app.generate': '3. Generar',
+  'app.generateVariants': '3. Generar {count} variaciones',
+  'app.errorTitle': 'Ocurrió un error',
+  'app.originalTitle': 'Imagen Original',
+  'app.baseTitle': 'Imagen Base (v{version})',
+  'app.originalPlaceholder': 'Sube, arrastra o pega (Ctrl+V) una imagen para empezar',
+  'app.dropOriginal': 'Suelta para usar como original',
+  'app.dropReference': 'Suelta para añadir como referencia',
+  'app.editedTitle': 'Imagen Editada',
+  'app.uploadNotes': 'Ajustes al subir',
+  'app.downloadOriginal': 'Descargar archivo original ({width}×{height})',
+  'app.provenanceFound.one': 'Exportada antes por esta app a partir de "{name}", con {count} edición:',
+  'app.provenanceFound.other': 'Exportada antes por esta app a partir de "{name}", con {count} ediciones:',
+  'app.provenanceUnknownName': 'un archivo sin nombre',
+  'app.footer': 'Desarrollado con la API de Gemini. Diseñado para mejorar la fotografía de productos.',
+
+  'imageCard.editing': 'Editando tu imagen...',
+  'imageCard.editedPlaceholder': 'Tu imagen editada aparecerá aquí',
+  'imageCard.before': 'Antes',
+  'imageCard.after': 'Después',
+  'imageCard.diffAlt': 'Mapa de diferencias',
+  'imageCard.zoomOut': 'Alejar',
+  'imageCard.zoomIn': 'Acercar',
+  'imageCard.actualSize': 'Tamaño real (1 píxel de la imagen = 1 píxel de la pantalla)',
+  'imageCard.fitTitle': 'Ajustar a la pantalla',
+  'imageCard.fit': 'Ajustar',
+  'imageCard.editSelection': 'Editar el área seleccionada:',
+  'imageCard.drawHint': 'Dibuja sobre la imagen para seleccionar el área que quieres editar.',
+  'imageCard.inpaintPlaceholder': "ej.: 'Quita los cables eléctricos', 'haz el cielo más azul'",
+  'imageCard.compositeOnly': 'Cambiar solo el área seleccionada (el resto queda idéntico)',
+  'imageCard.feather': 'Suavizado del borde: {radius}px',
+  'imageCard.matchColors': 'Igualar colores en la unión',
+  'imageCard.compare': 'Comparar:',
+  'imageCard.compare.split': 'Dividir',
+  'imageCard.compare.hold': 'Mantener',
+  'imageCard.compare.onion': 'Superponer',
+  'imageCard.compare.diff': 'Diferencia',
+  'imageCard.holdToCompare': 'Mantén presionado para ver el original',
+  'imageCard.onionOpacity': 'Opacidad del original: {percent}%',
+  'imageCard.diffSummary': 'Cambió el {percent}% de los píxeles. Las áreas en rojo cambiaron más.',
+  'imageCard.diffCalculating': 'Calculando diferencias...',
+  'imageCard.cancelSelection': 'Cancelar Selección',
+  'imageCard.editArea': 'Editar Área',
+  'imageCard.dragToOriginal': 'Arrastrar',
+  'imageCard.dragToOriginalTitle': 'Arrastra al original para usar esta versión como base',
+
+  'references.title': 'Referencias',
+  'references.empty': 'Añade imágenes de referencia (opcional): un escenario, un estilo, iluminación, colores de marca o un objeto a insertar.',
+  'references.alt': 'Referencia {number}',
+  'references.role': 'Función',
+  'references.role.background': 'Escenario de fondo',
+  'references.role.style': 'Estilo',
+  'references.role.lighting': 'Iluminación',
+  'references.role.color': 'Colores de marca',
+  'references.role.object': 'Objeto a insertar',
+  'references.moveUp': 'Subir',
+  'references.moveDown': 'Bajar',
+  'references.remove': 'Quitar',
+  'references.add': 'Añadir referencia ({current}/{max})',
+
+  'selection.x': 'X (px)',
+  'selection.y': 'Y (px)',
+  'selection.width': 'Ancho (px)',
+  'selection.height': 'Alto (px)',
+  'selection.hint': 'Arrastra las asas para redimensionar y el centro para mover. Las flechas lo mueven 1 px (10 px con Shift).',
+
+  'recipes.title': 'Recetas',
+  'recipes.import': 'Importar',
+  'recipes.export': 'Exportar',
+  'recipes.namePlaceholder': 'Nombre de la receta de esta versión',
+  'recipes.save': 'Guardar receta',
+  'recipes.saveHint': 'Guarda los pasos que llevaron a la versión actual para aplicarlos a otras fotos.',
+  'recipes.empty': 'Aún no hay recetas. Edita una foto y guarda sus pasos como receta para repetirlos en otras fotos.',
+  'recipes.run': 'Aplicar',
+  'recipes.steps.one': '{count} paso',
+  'recipes.steps.other': '{count} pasos',
+  'recipes.stepNumber': '{number}.',
+  'recipes.step.edit': 'Edición: "{prompt}"',
+  'recipes.step.inpaint': 'Área: "{prompt}"',
+  'recipes.skipped.one': 'Se omitió {count} versión: las máscaras pintadas y las correcciones automáticas no se pueden repetir.',
+  'recipes.skipped.other': 'Se omitieron {count} versiones: las máscaras pintadas y las correcciones automáticas no se pueden repetir.',
+  'recipes.nothingToSave': 'Ninguna de las versiones hasta aquí se puede repetir en otra foto.',
+  'recipes.confirmDelete': '¿Eliminar la receta "{name}"?',
+
+  'mask.tool.rectangle': 'Rectángulo',
+  'mask.tool.brush': 'Pincel',
+  'mask.tool.eraser': 'Borrador',
+  'mask.tool.lasso': 'Lazo',
+  'mask.mode.add': 'Agregar',
+  'mask.mode.subtract': 'Restar',
+  'mask.clear': 'Limpiar selección',
+  'mask.size': 'Tamaño: {size}px',
+  'mask.hardness': 'Dureza: {percent}%',
+
+  'history.title': 'Historial de versiones',
+  'history.undo': 'Deshacer (Ctrl+Z)',
+  'history.redo': 'Rehacer (Ctrl+Shift+Z)',
+  'history.original': 'original',
+  'history.versionAlt': 'Versión {number}',
+  'history.nodeTitle': '{prompt}\n(a partir de {parent}, {date})',
+  'history.base': 'Base',
+  'history.setBase': 'Usar como base',
+  'history.setBaseTitle': 'Usar esta versión como base para la próxima edición',
+  'history.unsetBase': 'Quitar base',
+  'history.unsetBaseTitle': 'Volver a usar la imagen original como base',
+
+  'variants.title': 'Variaciones ({count})',
+  'variants.downloadStarred': 'Descargar favoritas',
+  'variants.downloadAll': 'Descargar todas',
+  'variants.select': 'Usar esta variación como imagen actual',
+  'variants.alt': 'Variación {number}',
+  'variants.star': 'Marcar como favorita',
+  'variants.unstar': 'Quitar de favoritas',
+  'variants.fileName': '{name}_variacion_{number}',
+  'variants.zipStarred': '{name}_favoritas_{date}',
+  'variants.zipAll': '{name}_variaciones_{date}',
+
+  'upload.title': 'Preparación de la subida',
+  'upload.maxEdge': 'Lado máximo',
+  'upload.noDownscale': 'Sin reducción',
+  'upload.pixels': '{size} px',
+  'upload.format': 'Formato',
+  'upload.format.auto': 'Automático',
+  'upload.keepMetadata': 'Conservar metadatos (EXIF/XMP)',
+  'upload.hint': 'La orientación de la cámara siempre se aplica. El archivo original se guarda para la exportación.',
+  'upload.orientation.2': 'Orientación de la cámara aplicada (reflejada horizontalmente).',
+  'upload.orientation.3': 'Orientación de la cámara aplicada (girada 180°).',
+  'upload.orientation.4': 'Orientación de la cámara aplicada (reflejada verticalmente).',
+  'upload.orientation.5': 'Orientación de la cámara aplicada (girada 90° y reflejada).',
+  'upload.orientation.6': 'Orientación de la cámara aplicada (girada 90°).',
+  'upload.orientation.7': 'Orientación de la cámara aplicada (girada 270° y reflejada).',
+  'upload.orientation.8': 'Orientación de la cámara aplicada (girada 270°).',
+  'upload.downscaled': 'Reducida de {fromWidth}×{fromHeight} a {width}×{height} px.',
+  'upload.converted': 'Convertida de {from} a {to}.',
+  'upload.cmyk': 'Colores convertidos de CMYK a RGB.',
+  'upload.metadataRemoved': 'Metadatos (EXIF/XMP, incluida la ubicación) eliminados.',
+  'upload.metadataUnsupported': 'No se pudieron conservar los metadatos en el formato {format}.',
+
+  'projects.title': 'Proyectos',
+  'projects.new': 'Nuevo Proyecto',
+  'projects.storage': 'Almacenamiento usado',
+  'projects.storageOf': '{used} de {quota}',
+  'projects.empty': 'Todavía no hay proyectos guardados. Sube una imagen para empezar uno.',
+  'projects.save': 'Guardar',
+  'projects.current': '(abierto)',
+  'projects.versions.one': '{count} versión',
+  'projects.versions.other': '{count} versiones',
+  'projects.editedAt': 'editado el {date}',
+  'projects.rename': 'Renombrar',
+  'projects.duplicate': 'Duplicar',
+  'projects.delete': 'Eliminar',
+  'projects.confirmDelete': '¿Eliminar el proyecto "{name}"? Esta acción no se puede deshacer.',
+
+  'usage.title': 'Uso y costes',
+  'usage.estimateNote': 'Los costes se estiman a partir de los tokens de cada solicitud, con los precios de lista del modelo. El proveedor local es gratuito.',
+  'usage.session': 'Sesión actual (desde {date})',
+  'usage.sessionSummary': '{requests} solicitudes · {tokens} tokens · {cost}',
+  'usage.budgetUsed': 'Presupuesto usado',
+  'usage.budgetOf': '{used} de {limit}',
+  'usage.newSession': 'Iniciar una nueva sesión',
+  'usage.budget': 'Presupuesto de la sesión',
+  'usage.budgetLimit': 'Límite (US$)',
+  'usage.noLimit': 'Sin límite',
+  'usage.warnAt': 'Avisar al (%)',
+  'usage.budgetHint': 'Al superar el nivel de aviso la app muestra una alerta; al alcanzar el límite, las nuevas solicitudes se bloquean hasta que lo aumentes o inicies una nueva sesión.',
+  'usage.byDay': 'Por día',
+  'usage.byProject': 'Por proyecto',
+  'usage.noProject': 'Sin proyecto (lote)',
+  'usage.empty': 'Aún no hay solicitudes registradas.',
+  'usage.requests': 'Solicitudes',
+  'usage.tokens': 'Tokens',
+  'usage.latency': 'Tiempo medio',
+  'usage.cost': 'Coste estimado',
+  'usage.failed.one': '{count} falló',
+  'usage.failed.other': '{count} fallaron',
+  'usage.exportCsv': 'Exportar CSV',
+  'usage.fileName': 'uso',
+  'usage.clear': 'Borrar registro',
+  'usage.confirmClear': '¿Eliminar todo el registro de uso? El presupuesto de la sesión actual no se ve afectado.',
+
+  'export.title': 'Exportar Imagen',
+  'export.profiles': 'Perfiles de canal',
+  'export.profile.mercadoLivre': 'Mercado Libre 1200×1200 JPEG 85',
+  'export.profile.instagram': 'Instagram 1080×1350',
+  'export.profile.pngOriginal': 'PNG tamaño original',
+  'export.exportWith': 'Exportar con {name}',
+  'export.newProfile': 'Nuevo perfil',
+  'export.deleteProfile': 'Eliminar perfil',
+  'export.sku': 'SKU',
+  'export.skuPlaceholder': 'ej.: CAM-001-AZ',
+  'export.fullResolution': 'Esta versión solo tiene ajustes locales, así que se exporta desde el archivo subido a resolución completa ({percent}% de la imagen editada).',
+  'export.upscaleToOriginal': 'Ampliar al tamaño del archivo subido ({percent}% de la imagen editada) en los perfiles de tamaño original y lado máximo',
+  'export.upscaleToOriginalHint': 'Esta versión tiene ediciones de IA o efectos hechos sobre la copia reducida, así que esto solo amplía el resultado: la cantidad de píxeles es la del archivo subido, pero los detalles finos no. Aumenta el lado máximo en Preparación de la subida para editar a resolución completa.',
+  'export.embedProvenance': 'Incluir el historial de edición (archivo original, prompts, modelos) en los metadatos del archivo',
+  'export.provenanceSidecar': 'Guardar también el historial de edición en un archivo JSON',
+  'export.profileName': 'Nombre del perfil',
+  'export.format': 'Formato',
+  'export.quality': 'Calidad: {quality}',
+  'export.dimensions': 'Dimensiones',
+  'export.size.original': 'Tamaño original',
+  'export.size.max': 'Lado máximo',
+  'export.size.exact': 'Tamaño exacto',
+  'export.maxDimension': 'Lado máximo (px)',
+  'export.width': 'Ancho',
+  'export.height': 'Alto',
+  'export.fit': 'Ajuste',
+  'export.fit.pad': 'Rellenar bordes',
+  'export.fit.crop': 'Recortar',
+  'export.keepTransparency': 'Conservar transparencia',
+  'export.background': 'Color de fondo',
+  'export.fileName': 'Nombre del archivo',
+  'export.tokensHint': 'Usa {tokens}.',
+  'export.exporting': 'Exportando...',
+  'export.submit.one': 'Exportar {count} perfil',
+  'export.submit.other': 'Exportar {count} perfiles',
+  'export.zipName': 'exportacion_{date}',
+  'export.defaultName': 'imagen',
+  'export.noSku': 'sin-sku',
+
+  'batch.title': 'Procesamiento por Lotes',
+  'batch.summary': 'Imágenes: {total} · Listas: {done} · Con error: {failed} · Restantes: {remaining}',
+  'batch.add': 'Agregar Imágenes',
+  'batch.concurrency': 'Simultáneas',
+  'batch.start': 'Iniciar Lote',
+  'batch.pause': 'Pausar',
+  'batch.resume': 'Reanudar',
+  'batch.retryFailed': 'Reintentar Fallidas',
+  'batch.downloadZip': 'Descargar ZIP',
+  'batch.clear': 'Limpiar',
+  'batch.retry': 'Reintentar',
+  'batch.paused.one': 'En pausa. Esperando a que termine {count} imagen en curso.',
+  'batch.paused.other': 'En pausa. Esperando a que terminen {count} imágenes en curso.',
+  'batch.skipped.one': '{count} archivo ignorado por no ser una imagen.',
+  'batch.skipped.other': '{count} archivos ignorados por no ser imágenes.',
+  'batch.missingPrompt': 'Escribe una instrucción de edición antes de iniciar el lote.',
+  'batch.empty': 'Agrega las fotos de la sesión para aplicar la misma instrucción a todas.',
+  'batch.attempt': '(intento {number})',
+  'batch.status.pending': 'En cola',
+  'batch.status.processing': 'Procesando',
+  'batch.status.done': 'Listo',
+  'batch.status.error': 'Falló',
+  'batch.zipName': 'lote-editado_{date}',
+  'batch.importCatalogue': 'Importar CSV de SKU',
+  'batch.downloadReport': 'Descargar informe',
+  'batch.reportName': 'informe-sku_{date}',
+  'batch.catalogueSummary.one': 'Catálogo de SKU: {count} línea, {references} imagen(es) de referencia.',
+  'batch.catalogueSummary.other': 'Catálogo de SKU: {count} líneas, {references} imagen(es) de referencia.',
+  'batch.catalogueMissing.one': '{count} línea aún no tiene foto correspondiente.',
+  'batch.catalogueMissing.other': '{count} líneas aún no tienen foto correspondiente.',
+  'batch.removeCatalogue': 'Quitar catálogo',
+  'batch.catalogueItem': 'SKU {sku} n.º {number}',
+
+  'compliance.title': 'Cumplimiento del marketplace',
+  'compliance.custom': 'Personalizado',
+  'compliance.minWidth': 'Ancho mín.',
+  'compliance.minHeight': 'Alto mín.',
+  'compliance.aspectRatio': 'Proporción (An/Al)',
+  'compliance.anyRatio': 'cualquiera',
+  'compliance.minWhite': 'Fondo blanco mín. %',
+  'compliance.minFill': 'Ocupación mín. %',
+  'compliance.maxFill': 'Ocupación máx. %',
+  'compliance.analysing': 'Analizando...',
+  'compliance.highlight': 'Resaltar problemas en la imagen',
+  'compliance.autoFix': 'Corregir automáticamente',
+  'compliance.autoFixTitle': 'Centra el producto y ajusta márgenes, proporción y resolución',
+  'compliance.fixing': 'Corrigiendo...',
+  'compliance.autoFixVersion': 'Corrección automática ({rules}): centrar y rellenar',
+  'compliance.check.resolution': 'Resolución mínima',
+  'compliance.check.aspect': 'Proporción',
+  'compliance.check.background': 'Fondo blanco puro',
+  'compliance.check.fill': 'Ocupación del producto',
+  'compliance.check.border': 'Sin bordes',
+  'compliance.detail.resolution': '{width}×{height}px (mín. {minWidth}×{minHeight}px)',
+  'compliance.detail.anyAspect': '{ratio}:1 (cualquier proporción)',
+  'compliance.detail.aspect': '{ratio}:1 (se exige {required}:1)',
+  'compliance.detail.background': '{percent}% del fondo en RGB 255,255,255 (mín. {min}%)',
+  'compliance.detail.fill': '{percent}% del cuadro (se espera {min}–{max}%)',
+  'compliance.detail.border': 'Se detectó un borde sólido alrededor de la imagen',
+  'compliance.detail.noBorder': 'No se detectaron bordes',
+
+  'adjust.title': 'Ajustes locales',
+  'adjust.reopen': 'Reabrir los ajustes de esta versión (a partir de la versión anterior)',
+  'adjust.previewAlt': 'Vista previa de los ajustes',
+  'adjust.eyedropperHint': 'Haz clic en un área que debería ser blanca o gris neutro.',
+  'adjust.crop': 'Recortar',
+  'adjust.cropAspect': 'Proporción del recorte',
+  'adjust.aspect.free': 'Libre',
+  'adjust.aspect.original': 'Original',
+  'adjust.noCrop': 'Sin recorte',
+  'adjust.rotateLeft': 'Girar 90° a la izquierda',
+  'adjust.rotateRight': 'Girar 90° a la derecha',
+  'adjust.flipHorizontal': 'Reflejar ↔',
+  'adjust.flipVertical': 'Reflejar ↕',
+  'adjust.straighten': 'Enderezar (°)',
+  'adjust.brightness': 'Brillo',
+  'adjust.contrast': 'Contraste',
+  'adjust.saturation': 'Saturación',
+  'adjust.levels': 'Niveles',
+  'adjust.black': 'Negro',
+  'adjust.white': 'Blanco',
+  'adjust.gamma': 'Gamma',
+  'adjust.curve': 'Curva',
+  'adjust.shadows': 'Sombras',
+  'adjust.midtones': 'Medios tonos',
+  'adjust.highlights': 'Luces',
+  'adjust.whiteBalance': 'Balance de blancos',
+  'adjust.eyedropper': 'Cuentagotas',
+  'adjust.neutral': 'Neutro',
+  'adjust.reset': 'Restablecer',
+  'adjust.apply': 'Aplicar como nueva versión',
+  'adjust.applying': 'Aplicando...',
+  'adjust.summary': 'Ajuste local: {changes}',
+  'adjust.summary.none': 'sin cambios',
+  'adjust.summary.rotate': 'girar {degrees}°',
+  'adjust.summary.flipHorizontal': 'reflejar horizontal',
+  'adjust.summary.flipVertical': 'reflejar vertical',
+  'adjust.summary.straighten': 'enderezar {degrees}°',
+  'adjust.summary.crop': 'recortar',
+  'adjust.summary.brightness': 'brillo {value}',
+  'adjust.summary.contrast': 'contraste {value}',
+  'adjust.summary.saturation': 'saturación {value}',
+  'adjust.summary.levels': 'niveles',
+  'adjust.summary.curve': 'curva',
+  'adjust.summary.whiteBalance': 'balance de blancos',
+
+  'cutout.title': 'Fondo transparente',
+  'cutout.keyHint': 'El modelo no devuelve transparencia. Primero pídele un fondo de color clave liso detrás del producto, en un color que el producto no tenga; ese color se elimina después aquí.',
+  'cutout.keyColor': 'Color clave a pedir',
+  'cutout.color.green': 'Verde',
+  'cutout.color.blue': 'Azul',
+  'cutout.color.magenta': 'Magenta',
+  'cutout.requestKey': 'Generar fondo clave',
+  'cutout.previewAlt': 'Vista previa del recorte',
+  'cutout.removedColor': 'Color a eliminar',
+  'cutout.eyedropper': 'Tomar de la imagen',
+  'cutout.eyedropperHint': 'Haz clic en el fondo de la vista previa para usar su color.',
+  'cutout.detect': 'Detectar',
+  'cutout.presets': 'Colores clave',
+  'cutout.tolerance': 'Tolerancia',
+  'cutout.softness': 'Suavidad del borde',
+  'cutout.despill': 'Quitar reflejo',
+  'cutout.refine': 'Refinar máscara',
+  'cutout.keepBrush': 'Pincel de restaurar',
+  'cutout.eraseBrush': 'Pincel de borrar',
+  'cutout.clearRefine': 'Borrar trazos',
+  'cutout.brushSize': 'Tamaño del pincel',
+  'cutout.reset': 'Restablecer',
+  'cutout.apply': 'Aplicar recorte',
+  'cutout.applying': 'Aplicando...',
+  'cutout.version': 'Fondo transparente (tolerancia {tolerance}, quitar reflejo {despill})',
+
+  'shadows.title': 'Sombras y reflejo',
+  'shadows.hint': 'Añade las mismas sombras a todas las fotos, calculadas a partir del contorno del producto. Necesita un fondo blanco limpio o transparente; los tamaños son relativos a la altura del producto, así que un ajuste guardado se ve igual en cualquier foto.',
+  'shadows.previewAlt': 'Vista previa de las sombras',
+  'shadows.preset': 'Ajuste guardado',
+  'shadows.customSettings': 'Configuración actual',
+  'shadows.presetNamePlaceholder': 'Nombre del ajuste',
+  'shadows.savePreset': 'Guardar ajuste',
+  'shadows.confirmDelete': '¿Eliminar el ajuste "{name}"?',
+  'shadows.dropShadow': 'Sombra proyectada',
+  'shadows.contactShadow': 'Sombra de contacto',
+  'shadows.reflection': 'Reflejo en el suelo',
+  'shadows.angle': 'Ángulo (°)',
+  'shadows.distance': 'Distancia (%)',
+  'shadows.blur': 'Desenfoque (%)',
+  'shadows.height': 'Altura (%)',
+  'shadows.opacity': 'Opacidad (%)',
+  'shadows.fade': 'Desvanecido (%)',
+  'shadows.reset': 'Restablecer',
+  'shadows.apply': 'Aplicar efectos',
+  'shadows.applying': 'Aplicando...',
+  'shadows.summary': 'Sombras: {effects}',
+  'shadows.summary.dropShadow': 'sombra proyectada',
+  'shadows.summary.contactShadow': 'sombra de contacto',
+  'shadows.summary.reflection': 'reflejo',
+
+  'errors.unknown': 'Ocurrió un error desconocido.',
+  'errors.invalidFileType': 'Tipo de archivo no válido. Sube una imagen.',
+  'errors.uploadFailed': 'No se pudo procesar el archivo subido.',
+  'errors.urlImportFailed': 'No se pudo descargar la imagen del enlace. Puede que el sitio no lo permita; guarda el archivo y súbelo.',
+  'errors.referenceUploadFailed': 'No se pudo procesar el archivo de referencia.',
+  'errors.tooManyReferences': 'Cada edición acepta como máximo {max} referencias; se omitieron los archivos sobrantes.',
+  'errors.unsupportedFormat': 'El navegador no puede abrir archivos {format}. Convierte la imagen a JPEG o PNG e inténtalo de nuevo.',
+  'errors.preprocessFailed': 'No se pudo preparar la imagen subida.',
+  'errors.missingImageOrPrompt': 'Sube una imagen y escribe una instrucción de edición.',
+  'errors.missingSelection': 'Selecciona un área y escribe una instrucción para editarla.',
+  'errors.baseUnreadable': 'No se pudo procesar la versión elegida como base.',
+  'errors.editedUnreadable': 'No se pudo procesar la imagen editada existente.',
+  'errors.maskFailed': 'No se pudo crear la máscara del área seleccionada.',
+  'errors.canvasContext': 'No se pudo obtener el contexto del canvas.',
+  'errors.variantFailures': 'Fallaron {failed} de {total} variaciones. {detail}',
+  'errors.projectOpenFailed': 'No se pudo abrir el proyecto guardado.',
+  'errors.projectSaveFailed': 'No se pudo guardar el proyecto. Verifica el espacio de almacenamiento disponible.',
+  'errors.projectsLoadFailed': 'No se pudieron cargar los proyectos guardados.',
+  'errors.projectActionFailed': 'No se pudo completar la operación.',
+  'errors.recipeInvalid': 'El archivo no es una receta válida.',
+  'errors.catalogueInvalid': 'No se pudo leer el CSV como catálogo de SKU. Cada línea necesita un SKU y el nombre de un archivo de imagen.',
+  'errors.catalogueMissingColumns': 'El CSV necesita una fila de encabezado con las columnas de SKU y de archivo de imagen.',
+  'errors.catalogueEmpty': 'El CSV no tiene líneas de productos.',
+  'errors.catalogueReferenceMissing': 'Añade la imagen de referencia {name} indicada en el catálogo.',
+  'errors.recipesLoadFailed': 'No se pudieron cargar las recetas guardadas.',
+  'errors.recipeActionFailed': 'No se pudo completar la operación con la receta.',
+  'errors.recipeStepFailed': 'El paso {step} de la receta falló. {detail}',
+  'errors.budgetExceeded': 'El presupuesto de esta sesión se agotó. Aumenta el límite o inicia una nueva sesión en el panel de uso para seguir editando.',
+  'errors.usageLoadFailed': 'No se pudo cargar el registro de uso.',
+  'errors.usageClearFailed': 'No se pudo borrar el registro de uso.',
+  'errors.exportFailed': 'No se pudo generar el archivo de exportación.',
+  'errors.complianceFailed': 'No se pudo analizar la imagen.',
+  'errors.autoFixFailed': 'No se pudo corregir la imagen automáticamente.',
+  'errors.adjustLoadFailed': 'No se pudo cargar la imagen para ajustarla.',
+  'errors.adjustPreviewFailed': 'No se pudo generar la vista previa.',
+  'errors.adjustApplyFailed': 'No se pudieron aplicar los ajustes.',
+  'errors.cutoutLoadFailed': 'No se pudo cargar la imagen para el recorte.',
+  'errors.cutoutPreviewFailed': 'No se pudo generar la vista previa del recorte.',
+  'errors.cutoutApplyFailed': 'No se pudo aplicar el recorte.',
+  'errors.shadowsLoadFailed': 'No se pudo cargar la imagen para las sombras.',
+  'errors.shadowsPreviewFailed': 'No se pudo generar la vista previa de las sombras.',
+  'errors.shadowsApplyFailed': 'No se pudieron aplicar las sombras.',
+  'errors.shadowsNeedCleanBackground': 'No se pudo separar el producto del fondo. Las sombras necesitan un fondo blanco limpio o transparente alrededor del producto.',
+  'errors.editFailed': 'No se pudo editar la imagen. Inténtalo de nuevo.',
+  'errors.safetyBlocked': 'La solicitud fue bloqueada por las políticas de seguridad del modelo{reason}. Prueba con otra instrucción o imagen.',
+  'errors.safetyBlockedCategories': 'La solicitud fue bloqueada por las políticas de seguridad del modelo{reason}. Categorías señaladas: {categories}. Prueba con otra instrucción o imagen.',
+  'errors.rateLimited': 'Se alcanzó el límite de uso de la API. Espera unos instantes e inténtalo de nuevo.',
+  'errors.network': 'No se pudo conectar con el servicio de edición. Verifica tu conexión a internet.',
+  'errors.serviceUnavailable': 'El servicio de edición no está disponible temporalmente. Inténtalo de nuevo en unos instantes.',
+  'errors.apiKeyRejected': 'El servicio de edición rechazó la clave de API. Verifica la configuración.',
+  'errors.requestRejected': 'El servicio de edición rechazó la solicitud (código {status}). Verifica la imagen y la instrucción enviadas.',
+  'errors.noImage': 'El modelo no devolvió ninguna imagen{reason}. Reformula la instrucción e inténtalo de nuevo.',
+  'errors.noImageWithReply': 'El modelo no devolvió ninguna imagen{reason}. Reformula la instrucción e inténtalo de nuevo. Respuesta del modelo: "{reply}"',
+  'errors.cancelled': 'Solicitud cancelada.',
+  'errors.payloadTooLarge': 'La imagen enviada es demasiado grande para el servidor.',
+  'errors.invalidProxyRequest': 'El servidor rechazó la solicitud. Recarga la página e inténtalo de nuevo.',
+};
@@ -0,0 +1,472 @@
+/**
+ * Portuguese (Brazil) messages. This is the reference catalogue: its keys
+ * define MessageKey, and the other languages must provide every one of them.
+ * Plural messages have ".one" and ".other" forms and take a `count` parameter.
+ */
+export const ptBR = {
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.open': 'Abrir',
+  'common.generate': 'Gerar',
+  'common.generating': 'Gerando...',
+  'common.download': 'Baixar',
+  'common.remove': 'Remover',
+  'common.copyName': '{name} (cópia)',
+  'common.language': 'Idioma',
+
+  'app.title': 'Editor de Fotos de Produto com IA',
+  'app.subtitle': 'Limpe e aprimore suas fotos de produtos com simples comandos de texto.',
+  'app.projects': 'Projetos',
+  'app.usage': 'Uso · {cost}',
+  'app.usageTitle': 'Uso, custos e orçamento desta sessão',
+  'app.budgetWarning': 'Esta sessão já usou {percent}% do orçamento. As edições param quando ele acabar.',
+  'app.provider': 'Motor de edição',
+  'app.provider.proxy': 'Gemini (servidor)',
+  'app.provider.local': 'Local (offline)',
+  'app.provider.gemini': 'Gemini (nuvem)',
+  'app.instructions': '1. Suas Instruções',
+  'app.mode.single': 'Imagem Única',
+  'app.mode.batch': 'Lote',
+  'app.promptPlaceholder': "ex: 'Remova o fundo e deixe-o branco', 'Adicione uma sombra natural', 'Deixe as cores mais vibrantes'...",
+  'app.changeImage': 'Alterar Imagem',
+  'app.uploadImage': '2. Enviar Imagem',
+  'app.variantCount': 'Variações',
+  'app.variation': 'Diversificar',
+  'app.variation.none': 'Sem variação',
+  'app.variation.seed': 'Variar seed',
+  'app.variation.temperature': 'Variar temperatura',
+  'app.generate': '3. Gerar',
+  'app.generateVariants': '3. Gerar {count} variações',
+  'app.errorTitle': 'Ocorreu um erro',
+  'app.originalTitle': 'Imagem Original',
+  'app.baseTitle': 'Imagem Base (v{version})',
+  'app.originalPlaceholder': 'Envie, arraste ou cole (Ctrl+V) uma imagem para começar',
+  'app.dropOriginal': 'Solte para usar como original',
+  'app.dropReference': 'Solte para adicionar como referência',
+  'app.editedTitle': 'Imagem Editada',
+  'app.uploadNotes': 'Ajustes no envio',
+  'app.downloadOriginal': 'Baixar arquivo original ({width}×{height})',
+  'app.provenanceFound.one': 'Exportada antes por este app a partir de "{name}", com {count} edição:',
+  'app.provenanceFound.other': 'Exportada antes por este app a partir de "{name}", com {count} edições:',
+  'app.provenanceUnknownName': 'um arquivo sem nome',
+  'app.footer': 'Desenvolvido com a API Gemini. Projetado para aprimoramento de fotografia de produtos.',
+
+  'imageCard.editing': 'Editando sua imagem...',
+  'imageCard.editedPlaceholder': 'Sua imagem editada aparecerá aqui',
+  'imageCard.before': 'Antes',
+  'imageCard.after': 'Depois',
+  'imageCard.diffAlt': 'Mapa de diferenças',
+  'imageCard.zoomOut': 'Diminuir zoom',
+  'imageCard.zoomIn': 'Aumentar zoom',
+  'imageCard.actualSize': 'Tamanho real (1 pixel da imagem = 1 pixel da tela)',
+  'imageCard.fitTitle': 'Ajustar à tela',
+  'imageCard.fit': 'Ajustar',
+  'imageCard.editSelection': 'Editar área selecionada:',
+  'imageCard.drawHint': 'Desenhe sobre a imagem para selecionar a área que deseja editar.',
+  'imageCard.inpaintPlaceholder': "ex: 'Remova os fios elétricos', 'faça o céu ficar mais azul'",
+  'imageCard.compositeOnly': 'Alterar apenas a área selecionada (mantém o resto idêntico)',
+  'imageCard.feather': 'Suavização da borda: {radius}px',
+  'imageCard.matchColors': 'Igualar cores na emenda',
+  'imageCard.compare': 'Comparar:',
+  'imageCard.compare.split': 'Dividir',
+  'imageCard.compare.hold': 'Segurar',
+  'imageCard.compare.onion': 'Sobrepor',
+  'imageCard.compare.diff': 'Diferença',
+  'imageCard.holdToCompare': 'Segure para ver o original',
+  'imageCard.onionOpacity': 'Opacidade do original: {percent}%',
+  'imageCard.diffSummary': '{percent}% dos pixels foram alterados. Áreas em vermelho mudaram mais.',
+  'imageCard.diffCalculating': 'Calculando diferenças...',
+  'imageCard.cancelSelection': 'Cancelar Seleção',
+  'imageCard.editArea': 'Editar Área',
+  'imageCard.dragToOriginal': 'Arrastar',
+  'imageCard.dragToOriginalTitle': 'Arraste até o original para usar esta versão como base',
+
+  'references.title': 'Referências',
+  'references.empty': 'Adicione imagens de referência (opcional): cenário, estilo, iluminação, cores da marca ou um objeto a inserir.',
+  'references.alt': 'Referência {number}',
+  'references.role': 'Papel',
+  'references.role.background': 'Cenário de fundo',
+  'references.role.style': 'Estilo',
+  'references.role.lighting': 'Iluminação',
+  'references.role.color': 'Cores da marca',
+  'references.role.object': 'Objeto a inserir',
+  'references.moveUp': 'Mover para cima',
+  'references.moveDown': 'Mover para baixo',
+  'references.remove': 'Remover',
+  'references.add': 'Adicionar referência ({current}/{max})',
+
+  'selection.x': 'X (px)',
+  'selection.y': 'Y (px)',
+  'selection.width': 'Largura (px)',
+  'selection.height': 'Altura (px)',
+  'selection.hint': 'Arraste as alças para redimensionar e o centro para mover. As setas movem 1 px (10 px com Shift).',
+
+  'recipes.title': 'Receitas',
+  'recipes.import': 'Importar',
+  'recipes.export': 'Exportar',
+  'recipes.namePlaceholder': 'Nome da receita desta versão',
+  'recipes.save': 'Salvar receita',
+  'recipes.saveHint': 'Salva os passos que levaram à versão atual para aplicá-los em outras fotos.',
+  'recipes.empty': 'Nenhuma receita ainda. Edite uma foto e salve os passos como receita para repeti-los em outras fotos.',
+  'recipes.run': 'Aplicar',
+  'recipes.steps.one': '{count} passo',
+  'recipes.steps.other': '{count} passos',
+  'recipes.stepNumber': '{number}.',
+  'recipes.step.edit': 'Edição: "{prompt}"',
+  'recipes.step.inpaint': 'Área: "{prompt}"',
+  'recipes.skipped.one': '{count} versão ficou de fora: máscaras pintadas e correções automáticas não podem ser repetidas.',
+  'recipes.skipped.other': '{count} versões ficaram de fora: máscaras pintadas e correções automáticas não podem ser repetidas.',
+  'recipes.nothingToSave': 'Nenhuma das versões até aqui pode ser repetida em outra foto.',
+  'recipes.confirmDelete': 'Excluir a receita "{name}"?',
+
+  'mask.tool.rectangle': 'Retângulo',
+  'mask.tool.brush': 'Pincel',
+  'mask.tool.eraser': 'Borracha',
+  'mask.tool.lasso': 'Laço',
+  'mask.mode.add': 'Adicionar',
+  'mask.mode.subtract': 'Subtrair',
+  'mask.clear': 'Limpar seleção',
+  'mask.size': 'Tamanho: {size}px',
+  'mask.hardness': 'Dureza: {percent}%',
+
+  'history.title': 'Histórico de versões',
+  'history.undo': 'Desfazer (Ctrl+Z)',
+  'history.redo': 'Refazer (Ctrl+Shift+Z)',
+  'history.original': 'original',
+  'history.versionAlt': 'Versão {number}',
+  'history.nodeTitle': '{prompt}\n(a partir de {parent}, {date})',
+  'history.base': 'Base',
+  'history.setBase': 'Usar como base',
+  'history.setBaseTitle': 'Usar esta versão como base para a próxima edição',
+  'history.unsetBase': 'Remover base',
+  'history.unsetBaseTitle': 'Voltar a usar a imagem original como base',
+
+  'variants.title': 'Variações ({count})',
+  'variants.downloadStarred': 'Baixar favoritas',
+  'variants.downloadAll': 'Baixar todas',
+  'variants.select': 'Usar esta variação como imagem atual',
+  'variants.alt': 'Variação {number}',
+  'variants.star': 'Marcar como favorita',
+  'variants.unstar': 'Remover dos favoritos',
+  'variants.fileName': '{name}_variante_{number}',
+  'variants.zipStarred': '{name}_favoritas_{date}',
+  'variants.zipAll': '{name}_variantes_{date}',
+
+  'upload.title': 'Preparação do envio',
+  'upload.maxEdge': 'Lado máximo',
+  'upload.noDownscale': 'Sem redução',
+  'upload.pixels': '{size} px',
+  'upload.format': 'Formato',
+  'upload.format.auto': 'Automático',
+  'upload.keepMetadata': 'Manter metadados (EXIF/XMP)',
+  'upload.hint': 'A orientação da câmera é sempre aplicada. O arquivo original é guardado para a exportação.',
+  'upload.orientation.2': 'Orientação da câmera aplicada (espelhada horizontalmente).',
+  'upload.orientation.3': 'Orientação da câmera aplicada (girada 180°).',
+  'upload.orientation.4': 'Orientação da câmera aplicada (espelhada verticalmente).',
+  'upload.orientation.5': 'Orientação da câmera aplicada (girada 90° e espelhada).',
+  'upload.orientation.6': 'Orientação da câmera aplicada (girada 90°).',
+  'upload.orientation.7': 'Orientação da câmera aplicada (girada 270° e espelhada).',
+  'upload.orientation.8': 'Orientação da câmera aplicada (girada 270°).',
+  'upload.downscaled': 'Reduzida de {fromWidth}×{fromHeight} para {width}×{height} px.',
+  'upload.converted': 'Convertida de {from} para {to}.',
+  'upload.cmyk': 'Cores convertidas de CMYK para RGB.',
+  'upload.metadataRemoved': 'Metadados (EXIF/XMP, incluindo localização) removidos.',
+  'upload.metadataUnsupported': 'Metadados não puderam ser mantidos no formato {format}.',
+
+  'projects.title': 'Projetos',
+  'projects.new': 'Novo Projeto',
+  'projects.storage': 'Armazenamento usado',
+  'projects.storageOf': '{used} de {quota}',
+  'projects.empty': 'Nenhum projeto salvo ainda. Envie uma imagem para começar um.',
+  'projects.save': 'Salvar',
+  'projects.current': '(aberto)',
+  'projects.versions.one': '{count} versão',
+  'projects.versions.other': '{count} versões',
+  'projects.editedAt': 'editado em {date}',
+  'projects.rename': 'Renomear',
+  'projects.duplicate': 'Duplicar',
+  'projects.delete': 'Excluir',
+  'projects.confirmDelete': 'Excluir o projeto "{name}"? Esta ação não pode ser desfeita.',
+
+  'usage.title': 'Uso e custos',
+  'usage.estimateNote': 'Os custos são estimados pelos tokens de cada pedido, com os preços de tabela do modelo. O provedor local é gratuito.',
+  'usage.session': 'Sessão atual (desde {date})',
+  'usage.sessionSummary': '{requests} pedidos · {tokens} tokens · {cost}',
+  'usage.budgetUsed': 'Orçamento usado',
+  'usage.budgetOf': '{used} de {limit}',
+  'usage.newSession': 'Iniciar nova sessão',
+  'usage.budget': 'Orçamento da sessão',
+  'usage.budgetLimit': 'Limite (US$)',
+  'usage.noLimit': 'Sem limite',
+  'usage.warnAt': 'Avisar em (%)',
+  'usage.budgetHint': 'Ao passar do nível de aviso o app mostra um alerta; ao atingir o limite, novos pedidos são bloqueados até você aumentá-lo ou iniciar uma nova sessão.',
+  'usage.byDay': 'Por dia',
+  'usage.byProject': 'Por projeto',
+  'usage.noProject': 'Sem projeto (lote)',
+  'usage.empty': 'Nenhum pedido registrado ainda.',
+  'usage.requests': 'Pedidos',
+  'usage.tokens': 'Tokens',
+  'usage.latency': 'Tempo médio',
+  'usage.cost': 'Custo estimado',
+  'usage.failed.one': '{count} falhou',
+  'usage.failed.other': '{count} falharam',
+  'usage.exportCsv': 'Exportar CSV',
+  'usage.fileName': 'uso',
+  'usage.clear': 'Limpar registro',
+  'usage.confirmClear': 'Excluir todo o registro de uso? O orçamento da sessão atual não é afetado.',
+
+  'export.title': 'Exportar Imagem',
+  'export.profiles': 'Perfis de canal',
+  'export.profile.mercadoLivre': 'Mercado Livre 1200×1200 JPEG 85',
+  'export.profile.instagram': 'Instagram 1080×1350',
+  'export.profile.pngOriginal': 'PNG tamanho original',
+  'export.exportWith': 'Exportar com {name}',
+  'export.newProfile': 'Novo perfil',
+  'export.deleteProfile': 'Excluir perfil',
+  'export.sku': 'SKU',
+  'export.skuPlaceholder': 'ex: CAM-001-AZ',
+  'export.fullResolution': 'Esta versão só tem ajustes locais, então é exportada a partir do arquivo enviado, na resolução completa ({percent}% da imagem editada).',
+  'export.upscaleToOriginal': 'Ampliar para o tamanho do arquivo enviado ({percent}% da imagem editada) nos perfis de tamanho original e lado máximo',
+  'export.upscaleToOriginalHint': 'Esta versão tem edições de IA ou efeitos feitos na cópia reduzida, então isto só amplia o resultado: a quantidade de pixels é a do arquivo enviado, mas os detalhes finos não. Aumente o lado máximo em Preparação do envio para editar na resolução completa.',
+  'export.embedProvenance': 'Incluir o histórico de edição (arquivo original, prompts, modelos) nos metadados do arquivo',
+  'export.provenanceSidecar': 'Salvar também o histórico de edição em um arquivo JSON',
+  'export.profileName': 'Nome do perfil',
+  'export.format': 'Formato',
+  'export.quality': 'Qualidade: {quality}',
+  'export.dimensions': 'Dimensões',
+  'export.size.original': 'Tamanho original',
+  'export.size.max': 'Lado máximo',
+  'export.size.exact': 'Tamanho exato',
+  'export.maxDimension': 'Lado máximo (px)',
+  'export.width': 'Largura',
+  'export.height': 'Altura',
+  'export.fit': 'Ajuste',
+  'export.fit.pad': 'Preencher bordas',
+  'export.fit.crop': 'Recortar',
+  'export.keepTransparency': 'Manter transparência',
+  'export.background': 'Cor de fundo',
+  'export.fileName': 'Nome do arquivo',
+  'export.tokensHint': 'Use {tokens}.',
+  'export.exporting': 'Exportando...',
+  'export.submit.one': 'Exportar {count} perfil',
+  'export.submit.other': 'Exportar {count} perfis',
+  'export.zipName': 'exportacao_{date}',
+  'export.defaultName': 'imagem',
+  'export.noSku': 'sem-sku',
+
+  'batch.title': 'Processamento em Lote',
+  'batch.summary': 'Imagens: {total} · Concluídas: {done} · Com falha: {failed} · Restantes: {remaining}',
+  'batch.add': 'Adicionar Imagens',
+  'batch.concurrency': 'Simultâneas',
+  'batch.start': 'Iniciar Lote',
+  'batch.pause': 'Pausar',
+  'batch.resume': 'Retomar',
+  'batch.retryFailed': 'Repetir Falhas',
+  'batch.downloadZip': 'Baixar ZIP',
+  'batch.clear': 'Limpar',
+  'batch.retry': 'Repetir',
+  'batch.paused.one': 'Pausado. Aguardando {count} imagem em andamento terminar.',
+  'batch.paused.other': 'Pausado. Aguardando {count} imagens em andamento terminarem.',
+  'batch.skipped.one': '{count} arquivo ignorado por não ser imagem.',
+  'batch.skipped.other': '{count} arquivos ignorados por não serem imagens.',
+  'batch.missingPrompt': 'Insira uma instrução de edição antes de iniciar o lote.',
+  'batch.empty': 'Adicione as fotos da sessão para aplicar a mesma instrução a todas.',
+  'batch.attempt': '({number}ª tentativa)',
+  'batch.status.pending': 'Na fila',
+  'batch.status.processing': 'Processando',
+  'batch.status.done': 'Concluído',
+  'batch.status.error': 'Falhou',
+  'batch.zipName': 'lote-editado_{date}',
+  'batch.importCatalogue': 'Importar CSV de SKUs',
+  'batch.downloadReport': 'Baixar relatório',
+  'batch.reportName': 'relatorio-sku_{date}',
+  'batch.catalogueSummary.one': 'Catálogo de SKUs: {count} linha, {references} imagem(ns) de referência.',
+  'batch.catalogueSummary.other': 'Catálogo de SKUs: {count} linhas, {references} imagem(ns) de referência.',
+  'batch.catalogueMissing.one': '{count} linha ainda não tem foto correspondente.',
+  'batch.catalogueMissing.other': '{count} linhas ainda não têm foto correspondente.',
+  'batch.removeCatalogue': 'Remover catálogo',
+  'batch.catalogueItem': 'SKU {sku} nº {number}',
+
+  'compliance.title': 'Conformidade com marketplace',
+  'compliance.custom': 'Personalizado',
+  'compliance.minWidth': 'Largura mín.',
+  'compliance.minHeight': 'Altura mín.',
+  'compliance.aspectRatio': 'Proporção (L/A)',
+  'compliance.anyRatio': 'qualquer',
+  'compliance.minWhite': 'Fundo branco mín. %',
+  'compliance.minFill': 'Ocupação mín. %',
+  'compliance.maxFill': 'Ocupação máx. %',
+  'compliance.analysing': 'Analisando...',
+  'compliance.highlight': 'Destacar problemas na imagem',
+  'compliance.autoFix': 'Corrigir automaticamente',
+  'compliance.autoFixTitle': 'Centraliza o produto e ajusta margens, proporção e resolução',
+  'compliance.fixing': 'Corrigindo...',
+  'compliance.autoFixVersion': 'Correção automática ({rules}): centralizar e preencher',
+  'compliance.check.resolution': 'Resolução mínima',
+  'compliance.check.aspect': 'Proporção',
+  'compliance.check.background': 'Fundo branco puro',
+  'compliance.check.fill': 'Ocupação do produto',
+  'compliance.check.border': 'Sem bordas',
+  'compliance.detail.resolution': '{width}×{height}px (mín. {minWidth}×{minHeight}px)',
+  'compliance.detail.anyAspect': '{ratio}:1 (qualquer proporção)',
+  'compliance.detail.aspect': '{ratio}:1 (exigido {required}:1)',
+  'compliance.detail.background': '{percent}% do fundo em RGB 255,255,255 (mín. {min}%)',
+  'compliance.detail.fill': '{percent}% do quadro (esperado {min}–{max}%)',
+  'compliance.detail.border': 'Borda sólida detectada ao redor da imagem',
+  'compliance.detail.noBorder': 'Nenhuma borda detectada',
+
+  'adjust.title': 'Ajustes locais',
+  'adjust.reopen': 'Reabrir os ajustes desta versão (a partir da versão anterior)',
+  'adjust.previewAlt': 'Pré-visualização dos ajustes',
+  'adjust.eyedropperHint': 'Clique numa área que deveria ser branca ou cinza neutro.',
+  'adjust.crop': 'Recortar',
+  'adjust.cropAspect': 'Proporção do recorte',
+  'adjust.aspect.free': 'Livre',
+  'adjust.aspect.original': 'Original',
+  'adjust.noCrop': 'Sem recorte',
+  'adjust.rotateLeft': 'Girar 90° à esquerda',
+  'adjust.rotateRight': 'Girar 90° à direita',
+  'adjust.flipHorizontal': 'Espelhar ↔',
+  'adjust.flipVertical': 'Espelhar ↕',
+  'adjust.straighten': 'Endireitar (°)',
+  'adjust.brightness': 'Brilho',
+  'adjust.contrast': 'Contraste',
+  'adjust.saturation': 'Saturação',
+  'adjust.levels': 'Níveis',
+  'adjust.black': 'Preto',
+  'adjust.white': 'Branco',
+  'adjust.gamma': 'Gama',
+  'adjust.curve': 'Curva',
+  'adjust.shadows': 'Sombras',
+  'adjust.midtones': 'Meios-tons',
+  'adjust.highlights': 'Realces',
+  'adjust.whiteBalance': 'Balanço de branco',
+  'adjust.eyedropper': 'Conta-gotas',
+  'adjust.neutral': 'Neutro',
+  'adjust.reset': 'Redefinir',
+  'adjust.apply': 'Aplicar como nova versão',
+  'adjust.applying': 'Aplicando...',
+  'adjust.summary': 'Ajuste local: {changes}',
+  'adjust.summary.none': 'sem alterações',
+  'adjust.summary.rotate': 'girar {degrees}°',
+  'adjust.summary.flipHorizontal': 'espelhar horizontal',
+  'adjust.summary.flipVertical': 'espelhar vertical',
+  'adjust.summary.straighten': 'endireitar {degrees}°',
+  'adjust.summary.crop': 'recortar',
+  'adjust.summary.brightness': 'brilho {value}',
+  'adjust.summary.contrast': 'contraste {value}',
+  'adjust.summary.saturation': 'saturação {value}',
+  'adjust.summary.levels': 'níveis',
+  'adjust.summary.curve': 'curva',
+  'adjust.summary.whiteBalance': 'balanço de branco',
+
+  'cutout.title': 'Fundo transparente',
+  'cutout.keyHint': 'O modelo não devolve transparência. Primeiro peça a ele um fundo de cor chave lisa atrás do produto, numa cor que o produto não tenha; essa cor é então removida aqui.',
+  'cutout.keyColor': 'Cor chave a pedir',
+  'cutout.color.green': 'Verde',
+  'cutout.color.blue': 'Azul',
+  'cutout.color.magenta': 'Magenta',
+  'cutout.requestKey': 'Gerar fundo chave',
+  'cutout.previewAlt': 'Prévia do recorte',
+  'cutout.removedColor': 'Cor a remover',
+  'cutout.eyedropper': 'Pegar da imagem',
+  'cutout.eyedropperHint': 'Clique no fundo da prévia para usar a cor dele.',
+  'cutout.detect': 'Detectar',
+  'cutout.presets': 'Cores chave',
+  'cutout.tolerance': 'Tolerância',
+  'cutout.softness': 'Suavidade da borda',
+  'cutout.despill': 'Remover reflexo',
+  'cutout.refine': 'Refinar máscara',
+  'cutout.keepBrush': 'Pincel de restaurar',
+  'cutout.eraseBrush': 'Pincel de apagar',
+  'cutout.clearRefine': 'Limpar pinceladas',
+  'cutout.brushSize': 'Tamanho do pincel',
+  'cutout.reset': 'Redefinir',
+  'cutout.apply': 'Aplicar recorte',
+  'cutout.applying': 'Aplicando...',
+  'cutout.version': 'Fundo transparente (tolerância {tolerance}, remoção de reflexo {despill})',
+
+  'shadows.title': 'Sombras e reflexo',
+  'shadows.hint': 'Adiciona as mesmas sombras em todas as fotos, calculadas a partir do contorno do produto. Precisa de fundo branco limpo ou transparente; os tamanhos são relativos à altura do produto, então uma predefinição salva fica igual em qualquer foto.',
+  'shadows.previewAlt': 'Prévia das sombras',
+  'shadows.preset': 'Predefinição',
+  'shadows.customSettings': 'Configuração atual',
+  'shadows.presetNamePlaceholder': 'Nome da predefinição',
+  'shadows.savePreset': 'Salvar predefinição',
+  'shadows.confirmDelete': 'Excluir a predefinição "{name}"?',
+  'shadows.dropShadow': 'Sombra projetada',
+  'shadows.contactShadow': 'Sombra de contato',
+  'shadows.reflection': 'Reflexo no chão',
+  'shadows.angle': 'Ângulo (°)',
+  'shadows.distance': 'Distância (%)',
+  'shadows.blur': 'Desfoque (%)',
+  'shadows.height': 'Altura (%)',
+  'shadows.opacity': 'Opacidade (%)',
+  'shadows.fade': 'Esmaecimento (%)',
+  'shadows.reset': 'Redefinir',
+  'shadows.apply': 'Aplicar efeitos',
+  'shadows.applying': 'Aplicando...',
+  'shadows.summary': 'Sombras: {effects}',
+  'shadows.summary.dropShadow': 'sombra projetada',
+  'shadows.summary.contactShadow': 'sombra de contato',
+  'shadows.summary.reflection': 'reflexo',
+
+  'errors.unknown': 'Ocorreu um erro desconhecido.',
+  'errors.invalidFileType': 'Tipo de arquivo inválido. Por favor, envie uma imagem.',
+  'errors.uploadFailed': 'Não foi possível processar o arquivo enviado.',
+  'errors.urlImportFailed': 'Não foi possível baixar a imagem do link. O site pode não permitir o acesso; salve o arquivo e envie-o.',
+  'errors.referenceUploadFailed': 'Não foi possível processar o arquivo de referência.',
+  'errors.tooManyReferences': 'Cada edição aceita no máximo {max} referências; os arquivos excedentes foram ignorados.',
+  'errors.unsupportedFormat': 'O navegador não consegue abrir arquivos {format}. Converta a imagem para JPEG ou PNG e tente novamente.',
+  'errors.preprocessFailed': 'Não foi possível preparar a imagem enviada.',
+  'errors.missingImageOrPrompt': 'Por favor, envie uma imagem e insira uma instrução de edição.',
+  'errors.missingSelection': 'Por favor, selecione uma área e insira uma instrução para editar.',
+  'errors.baseUnreadable': 'Não foi possível processar a versão escolhida como base.',
+  'errors.editedUnreadable': 'Não foi possível processar a imagem editada existente.',
+  'errors.maskFailed': 'Não foi possível criar a máscara da área selecionada.',
+  'errors.canvasContext': 'Não foi possível obter o contexto do canvas.',
+  'errors.variantFailures': '{failed} de {total} variações falharam. {detail}',
+  'errors.projectOpenFailed': 'Não foi possível abrir o projeto salvo.',
+  'errors.projectSaveFailed': 'Não foi possível salvar o projeto. Verifique o espaço de armazenamento disponível.',
+  'errors.projectsLoadFailed': 'Não foi possível carregar os projetos salvos.',
+  'errors.projectActionFailed': 'Não foi possível concluir a operação.',
+  'errors.recipeInvalid': 'O arquivo não é uma receita válida.',
+  'errors.catalogueInvalid': 'Não foi possível ler o CSV como catálogo de SKUs. Cada linha precisa de um SKU e do nome de um arquivo de imagem.',
+  'errors.catalogueMissingColumns': 'O CSV precisa de uma linha de cabeçalho com as colunas de SKU e de arquivo de imagem.',
+  'errors.catalogueEmpty': 'O CSV não tem linhas de produtos.',
+  'errors.catalogueReferenceMissing': 'Adicione a imagem de referência {name} indicada no catálogo.',
+  'errors.recipesLoadFailed': 'Não foi possível carregar as receitas salvas.',
+  'errors.recipeActionFailed': 'Não foi possível concluir a operação com a receita.',
+  'errors.recipeStepFailed': 'O passo {step} da receita falhou. {detail}',
+  'errors.budgetExceeded': 'O orçamento desta sessão acabou. Aumente o limite ou inicie uma nova sessão no painel de uso para continuar editando.',
+  'errors.usageLoadFailed': 'Não foi possível carregar o registro de uso.',
+  'errors.usageClearFailed': 'Não foi possível limpar o registro de uso.',
+  'errors.exportFailed': 'Não foi possível gerar o arquivo de exportação.',
+  'errors.complianceFailed': 'Não foi possível analisar a imagem.',
+  'errors.autoFixFailed': 'Não foi possível corrigir a imagem automaticamente.',
+  'errors.adjustLoadFailed': 'Não foi possível carregar a imagem para ajuste.',
+  'errors.adjustPreviewFailed': 'Não foi possível gerar a pré-visualização.',
+  'errors.adjustApplyFailed': 'Não foi possível aplicar os ajustes.',
+  'errors.cutoutLoadFailed': 'Não foi possível carregar a imagem para o recorte.',
+  'errors.cutoutPreviewFailed': 'Não foi possível gerar a prévia do recorte.',
+  'errors.cutoutApplyFailed': 'Não foi possível aplicar o recorte.',
+  'errors.shadowsLoadFailed': 'Não foi possível carregar a imagem para as sombras.',
+  'errors.shadowsPreviewFailed': 'Não foi possível gerar a prévia das sombras.',
+  'errors.shadowsApplyFailed': 'Não foi possível aplicar as sombras.',
+  'errors.shadowsNeedCleanBackground': 'Não foi possível separar o produto do fundo. As sombras precisam de um fundo branco limpo ou transparente em volta do produto.',
+  'errors.editFailed': 'Falha ao editar a imagem. Tente novamente.',
+  'errors.safetyBlocked': 'A solicitação foi bloqueada pelas políticas de segurança do modelo{reason}. Tente um prompt ou imagem diferente.',
+  'errors.safetyBlockedCategories': 'A solicitação foi bloqueada pelas políticas de segurança do modelo{reason}. Categorias sinalizadas: {categories}. Tente um prompt ou imagem diferente.',
+  'errors.rateLimited': 'Limite de uso da API atingido. Aguarde alguns instantes e tente novamente.',
+  'errors.network': 'Não foi possível conectar ao serviço de edição. Verifique sua conexão com a internet.',
+  'errors.serviceUnavailable': 'O serviço de edição está temporariamente indisponível. Tente novamente em instantes.',
+  'errors.apiKeyRejected': 'O serviço de edição recusou a chave de API. Verifique a configuração.',
+  'errors.requestRejected': 'O serviço de edição recusou a solicitação (código {status}). Verifique a imagem e a instrução enviadas.',
+  'errors.noImage': 'O modelo não retornou nenhuma imagem{reason}. Reformule a instrução e tente novamente.',
+  'errors.noImageWithReply': 'O modelo não retornou nenhuma imagem{reason}. Reformule a instrução e tente novamente. Resposta do modelo: "{reply}"',
+  'errors.cancelled': 'Solicitação cancelada.',
+  'errors.payloadTooLarge': 'A imagem enviada é grande demais para o servidor.',
+  'errors.invalidProxyRequest': 'O servidor recusou a solicitação. Atualize a página e tente novamente.',
+};
+
+export type MessageKey = keyof typeof ptBR;
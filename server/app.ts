@@ -0,0 +1,267 @@
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  EditRequestOptions,
+  ImagePayload,
+  MAX_REFERENCE_IMAGES,
+  ModelUsage,
+  REFERENCE_ROLES,
+  ReferenceImagePayload,
+} from '../services/imageEditProvider';
+import {
+  ImageEditError,
+  ImageEditErrorPayload,
+  RateLimitError,
+  RequestCancelledError,
+  httpStatusForError,
+  serializeImageEditError,
+} from '../services/imageEditErrors';
+import { MessageKey } from '../i18n';
+import { ProxyBackend } from './backends';
+import { ProxyConfig } from './config';
+import { RateLimiter } from './rateLimiter';
+import { log } from './logger';
+
+const MAX_PROMPT_LENGTH = 4000;
+
+/**
+ * A request the proxy refuses before it reaches the backend. The message is
+ * English detail for logs and API consumers; the key is what the app shows.
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, readonly code: string, readonly messageKey: MessageKey, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface EditBody {
+  image: ImagePayload;
+  prompt: string;
+  references: ReferenceImagePayload[];
+  seed?: number;
+  temperature?: number;
+}
+
+interface InpaintBody extends EditBody {
+  mask: ImagePayload;
+}
+
+const tooLarge = (maxBytes: number) =>
+  new HttpError(413, 'PayloadTooLarge', 'errors.payloadTooLarge', `Request body exceeds ${maxBytes} bytes.`);
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBytes) {
+      reject(tooLarge(maxBytes));
+      req.resume();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Drain the rest without keeping it, so the 413 still reaches the client.
+        req.off('data', onData);
+        chunks.length = 0;
+        reject(tooLarge(maxBytes));
+        req.resume();
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const invalid = (message: string) => new HttpError(400, 'BadRequest', 'errors.invalidProxyRequest', message);
+
+const parseImage = (value: unknown, field: string): ImagePayload => {
+  const image = value as Partial<ImagePayload> | null;
+  if (!image || typeof image.base64 !== 'string' || image.base64.length === 0
+    || typeof image.mimeType !== 'string' || !image.mimeType.startsWith('image/')) {
+    throw invalid(`"${field}" must contain the base64 data and mimeType of an image.`);
+  }
+  return { base64: image.base64, mimeType: image.mimeType };
+};
+
+const parseReferences = (value: unknown): ReferenceImagePayload[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_REFERENCE_IMAGES) {
+    throw invalid(`"references" must be an array of at most ${MAX_REFERENCE_IMAGES} images.`);
+  }
+  return value.map((reference, index) => {
+    const field = `references[${index}]`;
+    const role = (reference as Partial<ReferenceImagePayload> | null)?.role;
+    if (!REFERENCE_ROLES.includes(role as ReferenceImagePayload['role'])) {
+      throw invalid(`"${field}.role" must be one of ${REFERENCE_ROLES.join(', ')}.`);
+    }
+    return { ...parseImage(reference, field), role: role as ReferenceImagePayload['role'] };
+  });
+};
+
+const parseJson = (raw: Buffer): Record<string, unknown> => {
+  try {
+    const body = JSON.parse(raw.toString('utf8'));
+    if (body && typeof body === 'object') return body;
+  } catch {
+    // Reported below.
+  }
+  throw invalid('The request body is not valid JSON.');
+};
+
+const parseEditBody = (body: Record<string, unknown>): EditBody => {
+  if (typeof body.prompt !== 'string' || body.prompt.trim().length === 0) {
+    throw invalid('"prompt" is required.');
+  }
+  if (body.prompt.length > MAX_PROMPT_LENGTH) {
+    throw invalid(`"prompt" exceeds ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  if (body.seed !== undefined && !Number.isInteger(body.seed)) {
+    throw invalid('"seed" must be an integer.');
+  }
+  if (body.temperature !== undefined
+    && (typeof body.temperature !== 'number' || body.temperature < 0 || body.temperature > 2)) {
+    throw invalid('"temperature" must be between 0 and 2.');
+  }
+  return {
+    image: parseImage(body.image, 'image'),
+    prompt: body.prompt,
+    references: parseReferences(body.references),
+    seed: body.seed as number | undefined,
+    temperature: body.temperature as number | undefined,
+  };
+};
+
+const parseInpaintBody = (body: Record<string, unknown>): InpaintBody => ({
+  ...parseEditBody(body),
+  mask: parseImage(body.mask, 'mask'),
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  if (res.destroyed) return;
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (
+  res: ServerResponse,
+  status: number,
+  error: ImageEditErrorPayload,
+  headers: Record<string, string> = {},
+  usage?: ModelUsage
+) => sendJson(res, status, { error, usage }, headers);
+
+const getClientId = (req: IncomingMessage, config: ProxyConfig): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (config.trustForwardedFor && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * Creates the proxy's request handler.
+ * @param config The proxy configuration.
+ * @param backend The service edits are forwarded to.
+ * @param rateLimiter The per-client request allowance.
+ */
+export const createRequestHandler = (config: ProxyConfig, backend: ProxyBackend, rateLimiter: RateLimiter) =>
+  async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const requestId = randomUUID();
+    const startedAt = Date.now();
+    const clientId = getClientId(req, config);
+    const path = (req.url ?? '/').split('?')[0];
+    const fields: Record<string, unknown> = { requestId, method: req.method, path, clientId };
+    // Token usage reported by the backend, returned to the client so it can track spending.
+    let usage: ModelUsage | undefined;
+
+    res.setHeader('X-Request-Id', requestId);
+    if (config.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-Request-Id');
+    }
+
+    // Closing the connection before the response (e.g. the user pressed "Cancelar") aborts the upstream call.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+      const status = res.writableFinished ? res.statusCode : 499;
+      log(status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info', 'request', {
+        ...fields,
+        status,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST, OPTIONS' });
+        res.end();
+        return;
+      }
+      if (req.method === 'GET' && path === '/api/health') {
+        sendJson(res, 200, { status: 'ok', backend: config.backend });
+        return;
+      }
+      const isEdit = path === '/api/edit';
+      if (!isEdit && path !== '/api/inpaint') {
+        throw new HttpError(404, 'NotFound', 'errors.invalidProxyRequest', 'Unknown endpoint.');
+      }
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'MethodNotAllowed', 'errors.invalidProxyRequest', 'Use POST on this endpoint.');
+      }
+
+      const waitMs = rateLimiter.take(clientId);
+      if (waitMs > 0) {
+        throw new RateLimitError({ retryAfterMs: waitMs });
+      }
+
+      const raw = await readBody(req, config.maxBodyBytes);
+      fields.bytesIn = raw.length;
+      const json = parseJson(raw);
+      const body = isEdit ? parseEditBody(json) : parseInpaintBody(json);
+      const options: EditRequestOptions = {
+        signal: controller.signal,
+        seed: body.seed,
+        temperature: body.temperature,
+        onUsage: reported => {
+          usage = reported;
+          fields.model = reported.model;
+          fields.totalTokens = reported.totalTokens;
+        },
+      };
+      fields.promptLength = body.prompt.length;
+      fields.referenceCount = body.references.length;
+
+      const image = isEdit
+        ? await backend.editImage(body.image, body.prompt, body.references, options)
+        : await backend.editImageWithMask(body.image, (body as InpaintBody).mask, body.prompt, options);
+      sendJson(res, 200, { image, usage });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        fields.error = error.code;
+        // An oversized body may still be arriving; close the connection once the error is sent.
+        const headers: Record<string, string> = error.status === 413 ? { Connection: 'close' } : {};
+        sendError(res, error.status, { code: error.code, messageKey: error.messageKey, message: error.message, retryable: false }, headers);
+        return;
+      }
+      const editError = error instanceof ImageEditError
+        ? error
+        : new ImageEditError('errors.editFailed', { cause: error });
+      fields.error = editError.name;
+      fields.finishReason = editError.finishReason;
+      if (editError instanceof RequestCancelledError) return;
+      if (!(error instanceof ImageEditError)) {
+        log('error', 'unexpected_error', { requestId, message: error instanceof Error ? error.message : String(error) });
+      }
+      const headers: Record<string, string> = editError instanceof RateLimitError && editError.retryAfterMs
+        ? { 'Retry-After': String(Math.ceil(editError.retryAfterMs / 1000)) }
+        : {};
+      sendError(res, httpStatusForError(editError), serializeImageEditError(editError), headers, usage);
+    }
+  };
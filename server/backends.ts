@@ -0,0 +1,14 @@
+import { ImageEditProvider } from '../services/imageEditProvider';
+import { geminiProvider } from '../services/geminiService';
+import { stubBackend } from './stubBackend';
+import { ProxyBackendId } from './config';
+
+/**
+ * What the proxy forwards requests to: the same calls the browser providers make.
+ */
+export type ProxyBackend = Pick<ImageEditProvider, 'editImage' | 'editImageWithMask'>;
+
+export const proxyBackends: Record<ProxyBackendId, ProxyBackend> = {
+  gemini: geminiProvider,
+  stub: stubBackend,
+};
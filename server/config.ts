@@ -0,0 +1,42 @@
+export type ProxyBackendId = 'gemini' | 'stub';
+
+export interface ProxyConfig {
+  port: number;
+  backend: ProxyBackendId;
+  // Requests each client may make per minute; bursts up to this size are allowed.
+  rateLimitPerMinute: number;
+  // Largest accepted request body, in bytes.
+  maxBodyBytes: number;
+  // Origin allowed to call the proxy cross-origin. Empty when the app is served from the same origin.
+  allowedOrigin: string;
+  // Whether to identify clients by X-Forwarded-For (only behind a trusted reverse proxy).
+  trustForwardedFor: boolean;
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads the proxy configuration from the environment.
+ * @param env The environment variables.
+ * @throws An Error when the configuration is unusable.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv): ProxyConfig => {
+  const backend = env.PROXY_BACKEND ?? 'gemini';
+  if (backend !== 'gemini' && backend !== 'stub') {
+    throw new Error(`Unknown PROXY_BACKEND "${backend}". Use "gemini" or "stub".`);
+  }
+  if (backend === 'gemini' && !env.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY is required by the gemini backend. Set PROXY_BACKEND=stub to run without it.');
+  }
+  return {
+    port: readNumber(env.PROXY_PORT, 8787),
+    backend,
+    rateLimitPerMinute: readNumber(env.PROXY_RATE_LIMIT, 30),
+    maxBodyBytes: readNumber(env.PROXY_MAX_BODY_MB, 20) * 1024 * 1024,
+    allowedOrigin: env.PROXY_ALLOWED_ORIGIN ?? '',
+    trustForwardedFor: env.PROXY_TRUST_FORWARDED === 'true',
+  };
+};
@@ -0,0 +1,43 @@
+import { createServer } from 'node:http';
+import { ProxyConfig, loadConfig } from './config';
+import { proxyBackends } from './backends';
+import { createRateLimiter } from './rateLimiter';
+import { createRequestHandler } from './app';
+import { log } from './logger';
+
+// Share .env.local with the Vite app; variables already set in the environment win.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: rely on the environment alone.
+}
+
+const readConfig = (): ProxyConfig => {
+  try {
+    return loadConfig(process.env);
+  } catch (error) {
+    log('error', 'invalid_config', { message: error instanceof Error ? error.message : String(error) });
+    process.exit(1);
+  }
+};
+
+const config = readConfig();
+
+const handler = createRequestHandler(config, proxyBackends[config.backend], createRateLimiter(config.rateLimitPerMinute));
+const server = createServer((req, res) => void handler(req, res));
+
+server.listen(config.port, () => {
+  log('info', 'listening', {
+    port: config.port,
+    backend: config.backend,
+    rateLimitPerMinute: config.rateLimitPerMinute,
+    maxBodyBytes: config.maxBodyBytes,
+  });
+});
+
+const shutdown = () => {
+  log('info', 'shutdown');
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
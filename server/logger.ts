@@ -0,0 +1,16 @@
+type LogLevel = 'info' | 'warn' | 'error';
+
+/**
+ * Writes one JSON object per line, so the logs can be filtered and shipped as is.
+ * @param level The severity.
+ * @param event A short, stable name for what happened, e.g. "request".
+ * @param fields Extra data to include.
+ */
+export const log = (level: LogLevel, event: string, fields: Record<string, unknown> = {}): void => {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, event, ...fields });
+  if (level === 'info') {
+    process.stdout.write(`${line}\n`);
+  } else {
+    process.stderr.write(`${line}\n`);
+  }
+};
@@ -0,0 +1,47 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Takes one request from the client's allowance.
+   * @param clientId The client to charge.
+   * @returns 0 when the request may proceed, otherwise the milliseconds until it could.
+   */
+  take(clientId: string): number;
+}
+
+/**
+ * Creates a per-client token bucket: each client can burst up to `perMinute`
+ * requests and then gets one more every 60 / `perMinute` seconds.
+ * @param perMinute The sustained number of requests allowed per minute.
+ */
+export const createRateLimiter = (perMinute: number): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60000;
+
+  // Full buckets carry no state worth keeping, so idle clients are dropped.
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [clientId, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= perMinute) buckets.delete(clientId);
+    }
+  }, 60000);
+  cleanup.unref();
+
+  return {
+    take(clientId) {
+      const now = Date.now();
+      const bucket = buckets.get(clientId) ?? { tokens: perMinute, updatedAt: now };
+      bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(clientId, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil((1 - bucket.tokens) / refillPerMs);
+    },
+  };
+};
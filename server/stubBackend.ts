@@ -0,0 +1,66 @@
+import { EditRequestOptions, ImagePayload } from '../services/imageEditProvider';
+import {
+  SafetyBlockedError,
+  RateLimitError,
+  ServiceUnavailableError,
+  NoImageReturnedError,
+  throwIfCancelled,
+} from '../services/imageEditErrors';
+import { ProxyBackend } from './backends';
+
+// Simulated model latency, so loading states and cancellation can be exercised.
+const DEFAULT_DELAY_MS = 300;
+
+// Roughly what Gemini reports for one image in and one image out, so usage tracking can be exercised.
+const STUB_IMAGE_TOKENS = 1290;
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Fails the way Gemini would when the prompt contains a marker such as
+ * "[stub:safety]", so error handling can be tested without the real API.
+ */
+const simulateFailure = (prompt: string): void => {
+  const marker = prompt.match(/\[stub:([a-z-]+)\]/)?.[1];
+  switch (marker) {
+    case 'safety':
+      throw new SafetyBlockedError({ finishReason: 'IMAGE_SAFETY' });
+    case 'rate-limit':
+      throw new RateLimitError({ retryAfterMs: 1000 });
+    case 'unavailable':
+      throw new ServiceUnavailableError();
+    case 'no-image':
+      throw new NoImageReturnedError({ finishReason: 'STOP', modelText: 'Stub reply without an image.', retryable: false });
+  }
+};
+
+const respond = async (image: ImagePayload, prompt: string, options: EditRequestOptions): Promise<string> => {
+  await delay(Number(process.env.STUB_DELAY_MS ?? DEFAULT_DELAY_MS), options.signal);
+  throwIfCancelled(options.signal);
+  const promptTokens = STUB_IMAGE_TOKENS + Math.ceil(prompt.length / 4);
+  options.onUsage?.({
+    model: 'stub',
+    promptTokens,
+    outputTokens: STUB_IMAGE_TOKENS,
+    totalTokens: promptTokens + STUB_IMAGE_TOKENS,
+  });
+  simulateFailure(prompt);
+  // Returning the input unchanged keeps the stub deterministic and free of image dependencies.
+  return image.base64;
+};
+
+/**
+ * Stand-in for Gemini used in development and tests: echoes the input image
+ * after a short delay, or fails on demand.
+ */
+export const stubBackend: ProxyBackend = {
+  editImage: (image, prompt, _references, options = {}) => respond(image, prompt, options),
+  editImageWithMask: (image, _mask, prompt, options = {}) => respond(image, prompt, options),
+};
@@ -0,0 +1,87 @@
+/**
+ * The app's IndexedDB database, shared by the project, recipe and usage stores.
+ */
+
+const DB_NAME = 'editor-de-fotos';
+// Version 2 added the recipes store, version 3 the usage log.
+const DB_VERSION = 3;
+
+export const PROJECTS_STORE = 'projects';
+export const RECIPES_STORE = 'recipes';
+export const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const storeName of [PROJECTS_STORE, RECIPES_STORE, USAGE_STORE]) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single-request transaction on one store.
+ * @param storeName The object store to use.
+ * @param mode Whether the transaction reads or writes.
+ * @param operation Issues the request on the store.
+ * @returns A promise that resolves to the request's result once the transaction completes.
+ */
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Reads a record and writes back its updated version in one transaction, so no
+ * other write to the record can land in between.
+ * @param storeName The object store to use.
+ * @param key The record key.
+ * @param update Returns the record to write, or undefined to leave the store unchanged.
+ * @returns A promise that resolves to the written record, or undefined when nothing
+ * was written, once the transaction completes.
+ */
+export const updateRecord = async <T>(
+  storeName: string,
+  key: IDBValidKey,
+  update: (record: T | undefined) => T | undefined
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const request = store.get(key);
+    let next: T | undefined;
+    request.onsuccess = () => {
+      next = update(request.result as T | undefined);
+      if (next !== undefined) store.put(next);
+    };
+    transaction.oncomplete = () => resolve(next);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -1,144 +1,187 @@
+import { ApiError, GenerateContentResponse, GoogleGenAI, Modality } from "@google/genai";
+import { EditRequestOptions, ImageEditProvider, ImagePayload, ModelUsage, ReferenceImagePayload } from './imageEditProvider';
+import { ReferenceRole } from '../types';
+import {
+  ImageEditError,
+  SafetyBlockedError,
+  RateLimitError,
+  NetworkError,
+  ServiceUnavailableError,
+  InvalidRequestError,
+  NoImageReturnedError,
+  RequestCancelledError,
+  isCancellation,
+} from './imageEditErrors';
 
-import { GoogleGenAI, Modality } from "@google/genai";
+const MODEL_NAME = 'gemini-2.5-flash-image';
 
-// The API key is injected from the environment and should not be hardcoded.
-// Initialize the Google AI client.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+let ai: GoogleGenAI | null = null;
+
+// The API key is read from the proxy server's environment and should not be hardcoded.
+// The client is created on first use so the server can run with the stub backend and no key.
+const getClient = (): GoogleGenAI => {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+  }
+  return ai;
+};
+
+type ContentPart = { inlineData: { data: string; mimeType: string } } | { text: string };
+
+// How each reference role is explained to the model, in the text part placed before the image.
+const REFERENCE_ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  background: 'Use it as the background scene: place the subject of the photo being edited into this setting.',
+  style: 'Match its photographic style: composition, colour grading and overall look. Do not copy its content.',
+  lighting: 'Match its lighting: direction, softness, colour temperature and shadows.',
+  color: 'Use its colours as the brand palette for accents, props and backdrops.',
+  object: 'Insert the object shown in it into the photo being edited, matching perspective and lighting.',
+};
+
+// Finish and block reasons that mean the content was refused rather than lost.
+const SAFETY_REASONS = new Set([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+]);
 
 /**
- * Edits an image using a text prompt with the Gemini 2.5 Flash Image model.
- * @param base64ImageData The base64-encoded image data, without the data URL prefix.
- * @param mimeType The MIME type of the image (e.g., 'image/jpeg').
- * @param prompt The text prompt describing the desired edits.
- * @param referenceImage Optional reference image data.
- * @returns A promise that resolves to the base64-encoded string of the edited image.
+ * Reads the token counts the API reports with every response.
  */
-export const editImageWithPrompt = async (
-  base64ImageData: string,
-  mimeType: string,
-  prompt: string,
-  referenceImage?: { base64: string, mimeType: string }
-): Promise<string> => {
-  try {
-    const contentParts: ({ inlineData: { data: string; mimeType: string; }; } | { text: string; })[] = [
-      {
-        inlineData: {
-          data: base64ImageData,
-          mimeType: mimeType,
-        },
-      },
-    ];
+const toModelUsage = (response: GenerateContentResponse): ModelUsage => {
+  const metadata = response.usageMetadata;
+  const promptTokens = metadata?.promptTokenCount ?? 0;
+  const outputTokens = metadata?.candidatesTokenCount ?? 0;
+  return {
+    model: response.modelVersion ?? MODEL_NAME,
+    promptTokens,
+    outputTokens,
+    totalTokens: metadata?.totalTokenCount ?? promptTokens + outputTokens,
+  };
+};
 
-    if (referenceImage) {
-      contentParts.push({
-        inlineData: {
-          data: referenceImage.base64,
-          mimeType: referenceImage.mimeType,
-        },
-      });
+/**
+ * Extracts the generated image, or throws the error that explains its absence.
+ */
+const extractImage = (response: GenerateContentResponse): string => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    throw new SafetyBlockedError({ finishReason: feedback.blockReason, safetyRatings: feedback.safetyRatings });
+  }
+
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return part.inlineData.data;
     }
+  }
+
+  const finishReason = candidate?.finishReason;
+  if (finishReason && SAFETY_REASONS.has(finishReason)) {
+    throw new SafetyBlockedError({ finishReason, safetyRatings: candidate?.safetyRatings });
+  }
+  const modelText = (candidate?.content?.parts || []).map(part => part.text ?? '').join(' ').trim();
+  throw new NoImageReturnedError({
+    finishReason,
+    safetyRatings: candidate?.safetyRatings,
+    modelText: modelText || undefined,
+  });
+};
 
-    contentParts.push({ text: prompt });
+/**
+ * Maps SDK and fetch failures onto the service's error classes.
+ */
+const toImageEditError = (error: unknown, signal?: AbortSignal): ImageEditError => {
+  if (error instanceof ImageEditError) return error;
+  if (signal?.aborted || isCancellation(error)) return new RequestCancelledError();
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new RateLimitError({ cause: error });
+    if (error.status >= 500) return new ServiceUnavailableError({ cause: error });
+    return new InvalidRequestError(error.status, { cause: error });
+  }
+  // fetch rejects with a TypeError when the network is unreachable.
+  if (error instanceof TypeError) return new NetworkError({ cause: error });
+  return new ImageEditError('errors.editFailed', { cause: error });
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: contentParts,
-      },
+const generateImage = async (parts: ContentPart[], options: EditRequestOptions): Promise<string> => {
+  try {
+    const response = await getClient().models.generateContent({
+      model: MODEL_NAME,
+      contents: { parts },
       // Configuration to ensure the model returns an image.
       config: {
         responseModalities: [Modality.IMAGE],
+        abortSignal: options.signal,
+        seed: options.seed,
+        temperature: options.temperature,
       },
     });
-
-    // Extract the generated image from the response.
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return part.inlineData.data; // Return the base64 string of the edited image.
-      }
+    // Refused and empty responses are billed too, so usage is reported before checking for the image.
+    options.onUsage?.(toModelUsage(response));
+    return extractImage(response);
+  } catch (error) {
+    const editError = toImageEditError(error, options.signal);
+    if (!(editError instanceof RequestCancelledError)) {
+      console.error("Error editing image with Gemini:", error);
     }
+    throw editError;
+  }
+};
 
-    // If no image is found in the response, throw an error.
-    throw new Error("Nenhuma imagem foi gerada na resposta. O prompt pode ter sido bloqueado ou ser inválido.");
-  } catch (error) {
-    console.error("Error editing image with Gemini:", error);
-    // Provide a more user-friendly error message.
-    throw new Error("Falha ao editar a imagem. A solicitação pode ter sido bloqueada devido a políticas de segurança. Tente um prompt ou imagem diferente.");
+/**
+ * Edits an image using a text prompt with the Gemini 2.5 Flash Image model.
+ * @param image The image to edit.
+ * @param prompt The text prompt describing the desired edits.
+ * @param references Optional reference images, each introduced to the model with its role.
+ * @param options Request options such as the abort signal.
+ * @returns A promise that resolves to the base64-encoded string of the edited image.
+ */
+const editImage = (
+  image: ImagePayload,
+  prompt: string,
+  references: ReferenceImagePayload[] = [],
+  options: EditRequestOptions = {}
+): Promise<string> => {
+  const parts: ContentPart[] = [];
+  if (references.length > 0) {
+    parts.push({ text: 'The next image is the photo to edit. The images after it are references.' });
   }
+  parts.push({ inlineData: { data: image.base64, mimeType: image.mimeType } });
+  references.forEach((reference, index) => {
+    parts.push({ text: `Reference ${index + 1} (${reference.role}): ${REFERENCE_ROLE_INSTRUCTIONS[reference.role]}` });
+    parts.push({ inlineData: { data: reference.base64, mimeType: reference.mimeType } });
+  });
+  parts.push({ text: prompt });
+  return generateImage(parts, options);
 };
 
 /**
- * Edits a selected area of an image using a text prompt and a selection mask.
- * @param base64ImageData The base64-encoded image data.
- * @param mimeType The MIME type of the image.
+ * Edits a masked area of an image using a text prompt.
+ * @param image The image to edit.
+ * @param mask A PNG mask, white where the edit should happen.
  * @param prompt The text prompt for the selected area.
- * @param selection The selection coordinates (x, y, width, height in percentages).
+ * @param options Request options such as the abort signal.
  * @returns A promise that resolves to the base64-encoded string of the edited image.
  */
-export const editImageWithSelection = async (
-  base64ImageData: string,
-  mimeType: string,
+const editImageWithMask = (
+  image: ImagePayload,
+  mask: ImagePayload,
   prompt: string,
-  selection: { x: number; y: number; width: number; height: number; }
+  options: EditRequestOptions = {}
 ): Promise<string> => {
-  try {
-    // Create a mask from the selection
-    const image = new Image();
-    // We need to re-add the data URL prefix for the image to load
-    image.src = `data:${mimeType};base64,${base64ImageData}`;
-    // Wait for the image to load before we can get its dimensions
-    await new Promise((resolve, reject) => {
-      image.onload = resolve;
-      image.onerror = reject;
-    });
-
-    const canvas = document.createElement('canvas');
-    canvas.width = image.width;
-    canvas.height = image.height;
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) {
-      throw new Error("Não foi possível obter o contexto do canvas para criar a máscara.");
-    }
-
-    // Draw the mask: black background, white selection area
-    ctx.fillStyle = 'black';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    const maskX = (selection.x / 100) * canvas.width;
-    const maskY = (selection.y / 100) * canvas.height;
-    const maskWidth = (selection.width / 100) * canvas.width;
-    const maskHeight = (selection.height / 100) * canvas.height;
-    
-    ctx.fillStyle = 'white';
-    ctx.fillRect(maskX, maskY, maskWidth, maskHeight);
-
-    // Get the mask as a base64 string
-    const maskBase64 = canvas.toDataURL('image/png').split(',')[1];
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          { inlineData: { data: base64ImageData, mimeType: mimeType } },
-          { inlineData: { data: maskBase64, mimeType: 'image/png' } },
-          { text: prompt },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
-    }
+  return generateImage([
+    { inlineData: { data: image.base64, mimeType: image.mimeType } },
+    { inlineData: { data: mask.base64, mimeType: mask.mimeType } },
+    { text: prompt },
+  ], options);
+};
 
-    throw new Error("Nenhuma imagem foi gerada na resposta. O prompt pode ter sido bloqueado ou ser inválido.");
-  } catch (error) {
-    console.error("Error editing image with selection:", error);
-    throw new Error("Falha ao editar a área selecionada. A solicitação pode ter sido bloqueada. Tente um prompt ou imagem diferente.");
-  }
+export const geminiProvider: ImageEditProvider = {
+  id: 'gemini',
+  labelKey: 'app.provider.gemini',
+  editImage,
+  editImageWithMask,
 };
@@ -0,0 +1,204 @@
+/**
+ * Errors raised by the image edit service. Providers translate their own
+ * failures into these classes so the UI can tell a safety block from a quota
+ * problem, a network failure or an empty response, and so the service knows
+ * which failures are worth retrying. Messages are i18n keys, so the UI can show
+ * them in the active language.
+ */
+
+import { LocalizedError, MessageKey, MessageParams } from '../i18n';
+
+export interface SafetyRatingInfo {
+  category?: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+interface ImageEditErrorDetails {
+  // Whether repeating the same request may succeed.
+  retryable?: boolean;
+  // The model's finish or block reason, e.g. "SAFETY" or "NO_IMAGE".
+  finishReason?: string;
+  safetyRatings?: SafetyRatingInfo[];
+  cause?: unknown;
+}
+
+export class ImageEditError extends LocalizedError {
+  readonly retryable: boolean;
+  readonly finishReason?: string;
+  readonly safetyRatings: SafetyRatingInfo[];
+
+  constructor(messageKey: MessageKey, details: ImageEditErrorDetails & { params?: MessageParams } = {}) {
+    super(messageKey, details.params, { cause: details.cause });
+    this.retryable = details.retryable ?? false;
+    this.finishReason = details.finishReason;
+    this.safetyRatings = details.safetyRatings ?? [];
+  }
+}
+
+const flaggedCategories = (ratings: SafetyRatingInfo[]): string =>
+  ratings
+    .filter(rating => rating.blocked || rating.probability === 'HIGH' || rating.probability === 'MEDIUM')
+    .map(rating => rating.category?.replace(/^HARM_CATEGORY_/, '').toLowerCase())
+    .filter(Boolean)
+    .join(', ');
+
+// The model's reason code is shown as is, in parentheses, when there is one.
+const reasonSuffix = (finishReason?: string): string => (finishReason ? ` (${finishReason})` : '');
+
+export class SafetyBlockedError extends ImageEditError {
+  constructor(details: ImageEditErrorDetails = {}) {
+    const categories = flaggedCategories(details.safetyRatings ?? []);
+    super(categories ? 'errors.safetyBlockedCategories' : 'errors.safetyBlocked', {
+      ...details,
+      retryable: false,
+      params: { reason: reasonSuffix(details.finishReason), categories },
+    });
+  }
+}
+
+export class RateLimitError extends ImageEditError {
+  // Delay suggested by the server before trying again, when it sent one.
+  readonly retryAfterMs?: number;
+
+  constructor(details: ImageEditErrorDetails & { retryAfterMs?: number } = {}) {
+    super('errors.rateLimited', { ...details, retryable: true });
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+export class NetworkError extends ImageEditError {
+  constructor(details: ImageEditErrorDetails = {}) {
+    super('errors.network', { ...details, retryable: true });
+  }
+}
+
+export class ServiceUnavailableError extends ImageEditError {
+  constructor(details: ImageEditErrorDetails = {}) {
+    super('errors.serviceUnavailable', { ...details, retryable: true });
+  }
+}
+
+export class InvalidRequestError extends ImageEditError {
+  // HTTP status the upstream service answered with.
+  readonly status: number;
+
+  constructor(status: number, details: ImageEditErrorDetails = {}) {
+    super(status === 401 || status === 403 ? 'errors.apiKeyRejected' : 'errors.requestRejected', {
+      ...details,
+      retryable: false,
+      params: { status: String(status) },
+    });
+    this.status = status;
+  }
+}
+
+export class NoImageReturnedError extends ImageEditError {
+  // Text the model answered instead of an image, if any.
+  readonly modelText?: string;
+
+  constructor(details: ImageEditErrorDetails & { modelText?: string } = {}) {
+    super(details.modelText ? 'errors.noImageWithReply' : 'errors.noImage', {
+      ...details,
+      // Image models occasionally answer with text only; a second attempt often works.
+      retryable: details.retryable ?? true,
+      params: { reason: reasonSuffix(details.finishReason), reply: details.modelText?.slice(0, 200) ?? '' },
+    });
+    this.modelText = details.modelText;
+  }
+}
+
+export class RequestCancelledError extends ImageEditError {
+  constructor() {
+    super('errors.cancelled', { retryable: false });
+  }
+}
+
+// Raised in the browser before a request is sent, once the session's spending reaches the budget.
+export class BudgetExceededError extends ImageEditError {
+  constructor() {
+    super('errors.budgetExceeded', { retryable: false });
+  }
+}
+
+/**
+ * Tells whether an error comes from a cancelled request.
+ * @param error The caught error.
+ */
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof RequestCancelledError || (error instanceof DOMException && error.name === 'AbortError');
+
+/**
+ * Throws a RequestCancelledError if the signal has been aborted.
+ * @param signal The signal of the current request, if any.
+ */
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw new RequestCancelledError();
+};
+
+/**
+ * JSON form of an ImageEditError, used to carry errors from the proxy server to the browser.
+ */
+export interface ImageEditErrorPayload {
+  code: string;
+  // Key of the user-facing message, translated by the client.
+  messageKey: string;
+  params?: MessageParams;
+  // English text of the message, for logs and API consumers.
+  message: string;
+  retryable: boolean;
+  finishReason?: string;
+  safetyRatings?: SafetyRatingInfo[];
+  // Upstream status of an InvalidRequestError.
+  status?: number;
+  modelText?: string;
+}
+
+/**
+ * Converts an error into its JSON form.
+ * @param error The error to send.
+ */
+export const serializeImageEditError = (error: ImageEditError): ImageEditErrorPayload => ({
+  code: error.name,
+  messageKey: error.messageKey,
+  params: error.params,
+  message: error.message,
+  retryable: error.retryable,
+  finishReason: error.finishReason,
+  safetyRatings: error.safetyRatings.length > 0 ? error.safetyRatings : undefined,
+  status: error instanceof InvalidRequestError ? error.status : undefined,
+  modelText: error instanceof NoImageReturnedError ? error.modelText : undefined,
+});
+
+/**
+ * Picks the HTTP status the proxy answers with for an error.
+ * @param error The error to send.
+ */
+export const httpStatusForError = (error: ImageEditError): number => {
+  if (error instanceof SafetyBlockedError) return 422;
+  if (error instanceof RateLimitError) return 429;
+  if (error instanceof InvalidRequestError) return error.status === 401 || error.status === 403 ? 502 : 400;
+  if (error instanceof NoImageReturnedError || error instanceof NetworkError) return 502;
+  if (error instanceof ServiceUnavailableError) return 503;
+  if (error instanceof RequestCancelledError) return 499;
+  return 500;
+};
+
+/**
+ * Rebuilds the typed error from its JSON form.
+ * @param payload The error sent by the proxy.
+ * @param retryAfterMs The delay from the Retry-After header, if any.
+ */
+export const deserializeImageEditError = (payload: ImageEditErrorPayload, retryAfterMs?: number): ImageEditError => {
+  const details = { finishReason: payload.finishReason, safetyRatings: payload.safetyRatings };
+  switch (payload.code) {
+    case 'SafetyBlockedError': return new SafetyBlockedError(details);
+    case 'RateLimitError': return new RateLimitError({ ...details, retryAfterMs });
+    case 'NetworkError': return new NetworkError(details);
+    case 'ServiceUnavailableError': return new ServiceUnavailableError(details);
+    case 'InvalidRequestError': return new InvalidRequestError(payload.status ?? 400, details);
+    case 'NoImageReturnedError': return new NoImageReturnedError({ ...details, modelText: payload.modelText });
+    case 'RequestCancelledError': return new RequestCancelledError();
+    default: return new ImageEditError(payload.messageKey as MessageKey, { ...details, params: payload.params, retryable: payload.retryable });
+  }
+};
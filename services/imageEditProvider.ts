@@ -0,0 +1,71 @@
+import { ReferenceRole } from '../types';
+import { MessageKey } from '../i18n';
+
+/**
+ * Raw image payload passed to providers: base64 data without the data URL prefix.
+ */
+export interface ImagePayload {
+  base64: string;
+  mimeType: string;
+}
+
+/**
+ * A reference image and the role it plays in the edit.
+ */
+export interface ReferenceImagePayload extends ImagePayload {
+  role: ReferenceRole;
+}
+
+export const REFERENCE_ROLES: ReferenceRole[] = ['background', 'style', 'lighting', 'color', 'object'];
+
+// Most references a single edit accepts; more images dilute the instruction.
+export const MAX_REFERENCE_IMAGES = 4;
+
+/**
+ * Token usage the model reported for one request.
+ */
+export interface ModelUsage {
+  // Model version that answered, e.g. "gemini-2.5-flash-image".
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Per-request options shared by every provider.
+ */
+export interface EditRequestOptions {
+  // Aborts the request; providers reject with a RequestCancelledError.
+  signal?: AbortSignal;
+  // Sampling controls used to make variants differ; providers ignore what they do not support.
+  seed?: number;
+  temperature?: number;
+  // Receives the token usage when the provider reports it, also for requests the model refused.
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+/**
+ * A backend able to perform prompt-driven image edits. The app only talks to
+ * this interface, so the Gemini API can be swapped for an offline implementation.
+ */
+export interface ImageEditProvider {
+  id: ImageEditProviderId;
+  // Name shown in the engine picker.
+  labelKey: MessageKey;
+  /**
+   * Edits the whole image.
+   * @returns A promise that resolves to the base64-encoded string of the edited image.
+   * @throws An ImageEditError subclass describing why the edit failed.
+   */
+  editImage(image: ImagePayload, prompt: string, references?: ReferenceImagePayload[], options?: EditRequestOptions): Promise<string>;
+  /**
+   * Edits the area of the image marked white in the mask.
+   * @returns A promise that resolves to the base64-encoded string of the edited image.
+   * @throws An ImageEditError subclass describing why the edit failed.
+   */
+  editImageWithMask(image: ImagePayload, mask: ImagePayload, prompt: string, options?: EditRequestOptions): Promise<string>;
+}
+
+// 'gemini' calls the API directly and only runs on the proxy server, where the key lives.
+export type ImageEditProviderId = 'gemini' | 'local' | 'proxy';
@@ -0,0 +1,352 @@
+import { EditRequestOptions, ImageEditProvider, ImageEditProviderId, ModelUsage, ReferenceImagePayload } from './imageEditProvider';
+import {
+  BudgetExceededError,
+  ImageEditError,
+  RateLimitError,
+  RequestCancelledError,
+  isCancellation,
+  throwIfCancelled,
+} from './imageEditErrors';
+import { getSessionUsage, loadBudgetSettings, recordUsage } from './usageStore';
+import { proxyProvider } from './proxyProvider';
+import { localProvider } from './localProvider';
+import { createSelectionMask } from '../utils/maskUtils';
+import { LocalizedError } from '../i18n';
+import { getBudgetState } from '../utils/usage';
+import { Selection, UsageOperation } from '../types';
+
+const PROVIDER_STORAGE_KEY = 'imageEditProvider';
+
+// Transient failures are retried with exponential backoff: 1s, 2s, 4s (plus jitter).
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Providers available in the browser. Gemini is reached through the proxy so the key never ships to clients.
+export type ClientProviderId = Exclude<ImageEditProviderId, 'gemini'>;
+
+export const imageEditProviders: Record<ClientProviderId, ImageEditProvider> = {
+  proxy: proxyProvider,
+  local: localProvider,
+};
+
+const isProviderId = (value: unknown): value is ClientProviderId =>
+  typeof value === 'string' && value in imageEditProviders;
+
+/**
+ * Returns the provider chosen in the UI, falling back to the IMAGE_PROVIDER
+ * environment setting and finally to the proxy server.
+ */
+export const getActiveProviderId = (): ClientProviderId => {
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  if (isProviderId(stored)) return stored;
+  const configured = process.env.IMAGE_PROVIDER;
+  return isProviderId(configured) ? configured : 'proxy';
+};
+
+/**
+ * Persists the provider choice for subsequent edits and sessions.
+ * @param id The provider to use.
+ */
+export const setActiveProviderId = (id: ClientProviderId): void => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+const getActiveProvider = (): ImageEditProvider => imageEditProviders[getActiveProviderId()];
+
+// Resolves after the delay, or rejects as soon as the request is cancelled.
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new RequestCancelledError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs a provider call, retrying failures the provider marked as transient.
+ */
+const withRetry = async <T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof ImageEditError) || !error.retryable || attempt >= MAX_ATTEMPTS) throw error;
+      const backoff = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+      const delay = error instanceof RateLimitError && error.retryAfterMs ? error.retryAfterMs : backoff;
+      await wait(Math.min(delay, MAX_RETRY_DELAY_MS), signal);
+    }
+  }
+};
+
+/**
+ * Refuses to start requests once the session has spent its budget. Requests
+ * sent together cannot see each other's cost, so each is estimated at the
+ * session's average so far, and the group is refused when the ones before the
+ * last would use up the budget, as it would be if they ran one after another.
+ * @param requests How many requests are about to start at once.
+ * @throws A BudgetExceededError when the budget does not allow them.
+ */
+const checkBudget = (requests = 1): void => {
+  const session = getSessionUsage();
+  const averageCost = session.requests > 0 ? session.cost / session.requests : 0;
+  if (getBudgetState(session.cost + averageCost * (requests - 1), loadBudgetSettings()) === 'exceeded') {
+    throw new BudgetExceededError();
+  }
+};
+
+/**
+ * Makes one provider call and records it in the usage log: the tokens the
+ * provider reported, the latency and the outcome. Calls are refused once the
+ * session has spent its budget.
+ */
+const trackUsage = async (
+  provider: ImageEditProvider,
+  operation: UsageOperation,
+  options: EditRequestOptions,
+  call: (options: EditRequestOptions) => Promise<string>
+): Promise<string> => {
+  checkBudget();
+  const reported: { usage?: ModelUsage } = {};
+  const startedAt = performance.now();
+  const record = (status: 'ok' | 'error' | 'cancelled', errorCode?: string) => recordUsage({
+    provider: provider.id,
+    operation,
+    model: reported.usage?.model ?? provider.id,
+    status,
+    errorCode,
+    latencyMs: performance.now() - startedAt,
+    promptTokens: reported.usage?.promptTokens ?? 0,
+    outputTokens: reported.usage?.outputTokens ?? 0,
+    totalTokens: reported.usage?.totalTokens ?? 0,
+  });
+  try {
+    const image = await call({
+      ...options,
+      onUsage: usage => {
+        reported.usage = usage;
+        options.onUsage?.(usage);
+      },
+    });
+    record('ok');
+    return image;
+  } catch (error) {
+    record(isCancellation(error) ? 'cancelled' : 'error', error instanceof Error ? error.name : undefined);
+    throw error;
+  }
+};
+
+/**
+ * Edits an image using a text prompt with the active provider.
+ * @param base64ImageData The base64-encoded image data, without the data URL prefix.
+ * @param mimeType The MIME type of the image (e.g., 'image/jpeg').
+ * @param prompt The text prompt describing the desired edits.
+ * @param references Reference images with their roles, in the order they should be given to the model.
+ * @param options Request options; aborting the signal cancels the request and any pending retry.
+ * @returns A promise that resolves to the base64-encoded string of the edited image.
+ * @throws An ImageEditError subclass once retries are exhausted or the failure is permanent.
+ */
+export const editImageWithPrompt = (
+  base64ImageData: string,
+  mimeType: string,
+  prompt: string,
+  references: ReferenceImagePayload[] = [],
+  options: EditRequestOptions = {}
+): Promise<string> => {
+  const provider = getActiveProvider();
+  // Only the image data and role go to the provider, not whatever else the caller's objects carry.
+  const payloads = references.map(({ base64, mimeType, role }) => ({ base64, mimeType, role }));
+  return withRetry(
+    () => trackUsage(provider, 'edit', options, trackedOptions =>
+      provider.editImage({ base64: base64ImageData, mimeType }, prompt, payloads, trackedOptions)
+    ),
+    options.signal
+  );
+};
+
+/**
+ * Edits the masked area of an image using a text prompt with the active provider.
+ * @param base64ImageData The base64-encoded image data.
+ * @param mimeType The MIME type of the image.
+ * @param prompt The text prompt for the masked area.
+ * @param maskBase64 A base64-encoded PNG mask, white where the edit should happen.
+ * @param options Request options; aborting the signal cancels the request and any pending retry.
+ * @returns A promise that resolves to the base64-encoded string of the edited image.
+ * @throws An ImageEditError subclass once retries are exhausted or the failure is permanent.
+ */
+export const editImageWithMask = (
+  base64ImageData: string,
+  mimeType: string,
+  prompt: string,
+  maskBase64: string,
+  options: EditRequestOptions = {}
+): Promise<string> => {
+  const provider = getActiveProvider();
+  return withRetry(
+    () => trackUsage(provider, 'inpaint', options, trackedOptions => provider.editImageWithMask(
+      { base64: base64ImageData, mimeType },
+      { base64: maskBase64, mimeType: 'image/png' },
+      prompt,
+      trackedOptions
+    )),
+    options.signal
+  );
+};
+
+/**
+ * Edits a selected area of an image using a text prompt and a selection mask.
+ * @param base64ImageData The base64-encoded image data.
+ * @param mimeType The MIME type of the image.
+ * @param prompt The text prompt for the selected area.
+ * @param selection The selection rectangle in image pixels.
+ * @param options Request options such as the abort signal.
+ * @returns A promise that resolves to the base64-encoded string of the edited image.
+ */
+export const editImageWithSelection = async (
+  base64ImageData: string,
+  mimeType: string,
+  prompt: string,
+  selection: Selection,
+  options: EditRequestOptions = {}
+): Promise<string> => {
+  let maskBase64: string;
+  try {
+    maskBase64 = await createSelectionMask(base64ImageData, mimeType, selection);
+  } catch (error) {
+    console.error("Error creating selection mask:", error);
+    throw new LocalizedError('errors.maskFailed', {}, { cause: error });
+  }
+  return editImageWithMask(base64ImageData, mimeType, prompt, maskBase64, options);
+};
+
+export type VariantVariation = 'none' | 'seed' | 'temperature';
+
+export const MAX_VARIANTS = 8;
+
+// Temperatures are spread over this range when variants vary by temperature.
+const MIN_VARIANT_TEMPERATURE = 0.4;
+const MAX_VARIANT_TEMPERATURE = 1.6;
+
+export interface VariantRequestOptions extends EditRequestOptions {
+  count: number;
+  variation: VariantVariation;
+}
+
+export interface VariantResults {
+  // Base64 images of the variants that succeeded, in request order.
+  images: string[];
+  // Errors of the variants that failed.
+  errors: unknown[];
+}
+
+/**
+ * Sends the same request several times in parallel, varying the seed or
+ * temperature of each copy when asked to.
+ * @throws A BudgetExceededError when the budget cannot cover every variant,
+ *   otherwise the first error when every variant fails.
+ */
+const runVariants = async (
+  { count, variation, ...options }: VariantRequestOptions,
+  request: (options: EditRequestOptions) => Promise<string>
+): Promise<VariantResults> => {
+  const total = Math.max(1, Math.min(MAX_VARIANTS, Math.round(count)));
+  checkBudget(total);
+  const baseSeed = Math.floor(Math.random() * 2 ** 31);
+  const settled = await Promise.allSettled(Array.from({ length: total }, (_, index) => {
+    const variantOptions: EditRequestOptions = { ...options };
+    // A single request keeps the provider's default sampling.
+    if (total === 1) {
+      return request(variantOptions);
+    }
+    if (variation === 'seed') {
+      variantOptions.seed = baseSeed + index;
+    } else if (variation === 'temperature') {
+      variantOptions.temperature =
+        MIN_VARIANT_TEMPERATURE + ((MAX_VARIANT_TEMPERATURE - MIN_VARIANT_TEMPERATURE) * index) / (total - 1);
+    }
+    return request(variantOptions);
+  }));
+
+  const images: string[] = [];
+  const errors: unknown[] = [];
+  for (const result of settled) {
+    if (result.status === 'fulfilled') images.push(result.value);
+    else errors.push(result.reason);
+  }
+  if (images.length === 0) throw errors[0];
+  return { images, errors };
+};
+
+/**
+ * Generates several edits of an image from the same prompt, in parallel.
+ * @param base64ImageData The base64-encoded image data.
+ * @param mimeType The MIME type of the image.
+ * @param prompt The text prompt describing the desired edits.
+ * @param references Reference images with their roles.
+ * @param options The number of variants, how they vary, and request options.
+ * @returns A promise that resolves to the variants that succeeded and the errors of those that failed.
+ */
+export const editImageWithPromptVariants = (
+  base64ImageData: string,
+  mimeType: string,
+  prompt: string,
+  references: ReferenceImagePayload[],
+  options: VariantRequestOptions
+): Promise<VariantResults> => {
+  return runVariants(options, variantOptions =>
+    editImageWithPrompt(base64ImageData, mimeType, prompt, references, variantOptions)
+  );
+};
+
+/**
+ * Generates several edits of the masked area of an image, in parallel.
+ * @param base64ImageData The base64-encoded image data.
+ * @param mimeType The MIME type of the image.
+ * @param prompt The text prompt for the masked area.
+ * @param maskBase64 A base64-encoded PNG mask, white where the edit should happen.
+ * @param options The number of variants, how they vary, and request options.
+ * @returns A promise that resolves to the variants that succeeded and the errors of those that failed.
+ */
+export const editImageWithMaskVariants = (
+  base64ImageData: string,
+  mimeType: string,
+  prompt: string,
+  maskBase64: string,
+  options: VariantRequestOptions
+): Promise<VariantResults> => {
+  return runVariants(options, variantOptions =>
+    editImageWithMask(base64ImageData, mimeType, prompt, maskBase64, variantOptions)
+  );
+};
+
+/**
+ * Generates several edits of a selected area of an image, in parallel.
+ * @param base64ImageData The base64-encoded image data.
+ * @param mimeType The MIME type of the image.
+ * @param prompt The text prompt for the selected area.
+ * @param selection The selection rectangle in image pixels.
+ * @param options The number of variants, how they vary, and request options.
+ * @returns A promise that resolves to the variants that succeeded and the errors of those that failed.
+ */
+export const editImageWithSelectionVariants = async (
+  base64ImageData: string,
+  mimeType: string,
+  prompt: string,
+  selection: Selection,
+  options: VariantRequestOptions
+): Promise<VariantResults> => {
+  let maskBase64: string;
+  try {
+    maskBase64 = await createSelectionMask(base64ImageData, mimeType, selection);
+  } catch (error) {
+    console.error("Error creating selection mask:", error);
+    throw new LocalizedError('errors.maskFailed', {}, { cause: error });
+  }
+  return editImageWithMaskVariants(base64ImageData, mimeType, prompt, maskBase64, options);
+};
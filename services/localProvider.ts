@@ -0,0 +1,113 @@
+import { EditRequestOptions, ImageEditProvider, ImagePayload, ReferenceImagePayload } from './imageEditProvider';
+import { throwIfCancelled } from './imageEditErrors';
+import { loadImage, createCanvas, canvasToBase64 } from '../utils/canvasUtils';
+
+// Canvas filters the local provider can apply. The prompt picks one deterministically,
+// so the same input always produces the same output.
+const FILTERS = [
+  'grayscale(1)',
+  'sepia(0.8)',
+  'saturate(1.8)',
+  'contrast(1.4)',
+  'brightness(1.2)',
+  'hue-rotate(90deg)',
+  'invert(1)',
+];
+
+// A few keywords map to an obvious filter so demos read naturally.
+const KEYWORD_FILTERS: { pattern: RegExp; filter: string }[] = [
+  { pattern: /preto e branco|cinza|blanco y negro|gris|gray|grey|black and white/i, filter: 'grayscale(1)' },
+  { pattern: /vibrante|vibrant|satura/i, filter: 'saturate(1.8)' },
+  { pattern: /clar|bright|ilumin|brillo/i, filter: 'brightness(1.2)' },
+  { pattern: /contraste|contrast/i, filter: 'contrast(1.4)' },
+  { pattern: /vintage|sépia|sepia/i, filter: 'sepia(0.8)' },
+];
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const pickFilter = (prompt: string, options: EditRequestOptions = {}): string => {
+  // Variants ask for a seed or temperature; mix it into the hash so each one looks different.
+  const variation = options.seed ?? options.temperature;
+  if (variation !== undefined) {
+    return FILTERS[hashString(`${prompt.trim()}#${variation}`) % FILTERS.length];
+  }
+  const match = KEYWORD_FILTERS.find(({ pattern }) => pattern.test(prompt));
+  return match ? match.filter : FILTERS[hashString(prompt.trim()) % FILTERS.length];
+};
+
+const toDataUrl = ({ base64, mimeType }: ImagePayload) => `data:${mimeType};base64,${base64}`;
+
+/**
+ * Applies a prompt-dependent canvas filter to the whole image. Thumbnails of the
+ * reference images are stamped along the bottom edge, from the right corner in
+ * reference order, so the result shows which ones were used.
+ */
+const editImage = async (
+  image: ImagePayload,
+  prompt: string,
+  references: ReferenceImagePayload[] = [],
+  options: EditRequestOptions = {}
+): Promise<string> => {
+  throwIfCancelled(options.signal);
+  const source = await loadImage(toDataUrl(image));
+  const { canvas, ctx } = createCanvas(source.width, source.height);
+
+  ctx.filter = pickFilter(prompt, options);
+  ctx.drawImage(source, 0, 0);
+  ctx.filter = 'none';
+
+  const thumbWidth = Math.round(canvas.width / 5);
+  for (const [index, referenceImage] of references.entries()) {
+    const reference = await loadImage(toDataUrl(referenceImage));
+    const thumbHeight = Math.round((reference.height / reference.width) * thumbWidth);
+    ctx.drawImage(reference, canvas.width - thumbWidth * (index + 1), canvas.height - thumbHeight, thumbWidth, thumbHeight);
+  }
+
+  throwIfCancelled(options.signal);
+  return canvasToBase64(canvas);
+};
+
+/**
+ * Echoes the mask: the filter is applied only where the mask is white, and the
+ * rest of the image is left untouched.
+ */
+const editImageWithMask = async (
+  image: ImagePayload,
+  mask: ImagePayload,
+  prompt: string,
+  options: EditRequestOptions = {}
+): Promise<string> => {
+  throwIfCancelled(options.signal);
+  const [source, maskImage] = await Promise.all([loadImage(toDataUrl(image)), loadImage(toDataUrl(mask))]);
+  const { canvas, ctx } = createCanvas(source.width, source.height);
+  ctx.drawImage(source, 0, 0);
+
+  // Turn the black/white mask into an alpha mask, then clip the filtered image with it.
+  const { canvas: layer, ctx: layerCtx } = createCanvas(source.width, source.height);
+  layerCtx.drawImage(maskImage, 0, 0, source.width, source.height);
+  const maskData = layerCtx.getImageData(0, 0, source.width, source.height);
+  for (let i = 0; i < maskData.data.length; i += 4) {
+    maskData.data[i + 3] = maskData.data[i];
+  }
+  layerCtx.putImageData(maskData, 0, 0);
+  layerCtx.globalCompositeOperation = 'source-in';
+  layerCtx.filter = pickFilter(prompt, options);
+  layerCtx.drawImage(source, 0, 0);
+
+  ctx.drawImage(layer, 0, 0);
+  throwIfCancelled(options.signal);
+  return canvasToBase64(canvas);
+};
+
+export const localProvider: ImageEditProvider = {
+  id: 'local',
+  labelKey: 'app.provider.local',
+  editImage,
+  editImageWithMask,
+};
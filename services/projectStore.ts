@@ -0,0 +1,302 @@
+import { EditHistory, HistoryNode, OriginalImage, Provenance, ReferenceImage, ReferenceRole, Selection, SourceFile } from '../types';
+import { dataUrlToBlob, blobToDataUrl, base64ToBytes, dataUrlToBase64 } from '../utils/fileUtils';
+import { loadImage, createCanvas } from '../utils/canvasUtils';
+import { LocalizedMessage } from '../i18n';
+import { PROJECTS_STORE, runRequest, updateRecord } from './database';
+
+const LAST_PROJECT_STORAGE_KEY = 'lastProjectId';
+
+interface StoredImage {
+  blob: Blob;
+  name?: string;
+  source?: SourceFile;
+  preprocessingNotes?: LocalizedMessage[];
+  provenance?: Provenance;
+}
+
+interface StoredReference extends StoredImage {
+  id: string;
+  role: ReferenceRole;
+}
+
+type StoredHistoryNode = Omit<HistoryNode, 'imageUrl' | 'maskUrl' | 'referenceImages'> & {
+  image: Blob;
+  mask: Blob | null;
+  referenceImages: StoredReference[];
+};
+
+interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: Blob | null;
+  originalImage: StoredImage | null;
+  referenceImages: StoredReference[];
+  prompt: string;
+  inpaintPrompt: string;
+  history: Omit<EditHistory, 'nodes'> & { nodes: Record<string, StoredHistoryNode> };
+  baseNodeId: string | null;
+  selection: Selection | null;
+  mask: Blob | null;
+}
+
+/**
+ * Everything needed to restore the editor exactly as it was left.
+ */
+export interface ProjectState {
+  originalImage: OriginalImage | null;
+  referenceImages: ReferenceImage[];
+  prompt: string;
+  inpaintPrompt: string;
+  history: EditHistory;
+  baseNodeId: string | null;
+  selection: Selection | null;
+  maskUrl: string | null;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: Blob | null;
+  versionCount: number;
+}
+
+const getRecord = (id: string) => runRequest<ProjectRecord | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+const putRecord = (record: ProjectRecord) => runRequest<IDBValidKey>(PROJECTS_STORE, 'readwrite', store => store.put(record));
+// Leaves deleted projects deleted.
+const updateProjectRecord = (id: string, update: (record: ProjectRecord) => ProjectRecord) =>
+  updateRecord<ProjectRecord>(PROJECTS_STORE, id, record => record && update(record));
+
+type NodeBlobs = Pick<StoredHistoryNode, 'image' | 'mask' | 'referenceImages'>;
+
+// The images of a history node never change once created, so they are converted only once per session.
+const nodeBlobCache = new Map<string, NodeBlobs>();
+
+const toStoredImage = (image: OriginalImage | null): StoredImage | null =>
+  image ? {
+    blob: new Blob([base64ToBytes(image.base64)], { type: image.mimeType }),
+    name: image.name,
+    source: image.source,
+    preprocessingNotes: image.preprocessingNotes,
+    provenance: image.provenance,
+  } : null;
+
+const fromStoredImage = async (stored: StoredImage | null): Promise<OriginalImage | null> => {
+  if (!stored) return null;
+  const parsed = dataUrlToBase64(await blobToDataUrl(stored.blob));
+  if (!parsed) return null;
+  return {
+    url: URL.createObjectURL(stored.blob),
+    base64: parsed.base64,
+    mimeType: parsed.mimeType,
+    name: stored.name,
+    source: stored.source,
+    preprocessingNotes: stored.preprocessingNotes,
+    provenance: stored.provenance,
+  };
+};
+
+const toStoredReferences = (references: ReferenceImage[]): StoredReference[] =>
+  references.map(reference => ({ ...toStoredImage(reference)!, id: reference.id, role: reference.role }));
+
+const fromStoredReferences = async (stored: StoredReference[]): Promise<ReferenceImage[]> => {
+  const references: ReferenceImage[] = [];
+  for (const reference of stored) {
+    const image = await fromStoredImage(reference);
+    if (image) references.push({ ...image, id: reference.id, role: reference.role });
+  }
+  return references;
+};
+
+const toStoredNode = (node: HistoryNode): StoredHistoryNode => {
+  const { imageUrl, maskUrl, referenceImages, ...rest } = node;
+  let blobs = nodeBlobCache.get(node.id);
+  if (!blobs) {
+    blobs = {
+      image: dataUrlToBlob(imageUrl),
+      mask: maskUrl ? dataUrlToBlob(maskUrl) : null,
+      referenceImages: toStoredReferences(referenceImages),
+    };
+    nodeBlobCache.set(node.id, blobs);
+  }
+  return { ...rest, ...blobs };
+};
+
+const fromStoredNode = async (stored: StoredHistoryNode): Promise<HistoryNode> => {
+  const { image, mask, referenceImages, ...rest } = stored;
+  nodeBlobCache.set(stored.id, { image, mask, referenceImages });
+  return {
+    ...rest,
+    imageUrl: await blobToDataUrl(image),
+    maskUrl: mask ? await blobToDataUrl(mask) : null,
+    referenceImages: await fromStoredReferences(referenceImages),
+  };
+};
+
+const THUMBNAIL_SIZE = 160;
+
+const createThumbnail = async (imageUrl: string): Promise<Blob | null> => {
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+  const { canvas, ctx } = createCanvas(Math.round(image.width * scale), Math.round(image.height * scale));
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+};
+
+/**
+ * Lists saved projects, most recently edited first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await runRequest<ProjectRecord[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(({ id, name, createdAt, updatedAt, thumbnail, history }) => ({
+      id, name, createdAt, updatedAt, thumbnail, versionCount: history.order.length,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Creates an empty project.
+ * @param name The project name.
+ * @returns The new project's id.
+ */
+export const createProject = async (name: string): Promise<string> => {
+  const now = Date.now();
+  const record: ProjectRecord = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    thumbnail: null,
+    originalImage: null,
+    referenceImages: [],
+    prompt: '',
+    inpaintPrompt: '',
+    history: { nodes: {}, order: [], currentId: null, redoTargets: {} },
+    baseNodeId: null,
+    selection: null,
+    mask: null,
+  };
+  await putRecord(record);
+  return record.id;
+};
+
+/**
+ * Saves the editor state into an existing project. The name and anything else
+ * changed while the thumbnail is drawn are kept, and a project deleted in the
+ * meantime stays deleted.
+ * @param id The project id.
+ * @param state The editor state to persist.
+ */
+export const saveProjectState = async (id: string, state: ProjectState): Promise<void> => {
+  const nodes: Record<string, StoredHistoryNode> = {};
+  for (const nodeId of state.history.order) {
+    nodes[nodeId] = toStoredNode(state.history.nodes[nodeId]);
+  }
+  const thumbnailSource = state.history.currentId
+    ? state.history.nodes[state.history.currentId].imageUrl
+    : state.originalImage?.url;
+
+  // Undefined keeps the stored thumbnail when a new one cannot be drawn.
+  const thumbnail = thumbnailSource ? await createThumbnail(thumbnailSource).catch(() => undefined) : null;
+  const changes = {
+    originalImage: toStoredImage(state.originalImage),
+    referenceImages: toStoredReferences(state.referenceImages),
+    prompt: state.prompt,
+    inpaintPrompt: state.inpaintPrompt,
+    history: { ...state.history, nodes },
+    baseNodeId: state.baseNodeId,
+    selection: state.selection,
+    mask: state.maskUrl ? dataUrlToBlob(state.maskUrl) : null,
+  };
+
+  await updateProjectRecord(id, existing => ({
+    ...existing,
+    ...changes,
+    updatedAt: Date.now(),
+    thumbnail: thumbnail === undefined ? existing.thumbnail : thumbnail,
+  }));
+};
+
+/**
+ * Loads a project back into editor state.
+ * @param id The project id.
+ * @returns The project name and state, or null if it no longer exists.
+ */
+export const loadProjectState = async (id: string): Promise<{ name: string; state: ProjectState } | null> => {
+  const record = await getRecord(id);
+  if (!record) return null;
+
+  const nodes: Record<string, HistoryNode> = {};
+  for (const nodeId of record.history.order) {
+    nodes[nodeId] = await fromStoredNode(record.history.nodes[nodeId]);
+  }
+  return {
+    name: record.name,
+    state: {
+      originalImage: await fromStoredImage(record.originalImage),
+      referenceImages: await fromStoredReferences(record.referenceImages),
+      prompt: record.prompt,
+      inpaintPrompt: record.inpaintPrompt,
+      history: { ...record.history, nodes },
+      baseNodeId: record.baseNodeId,
+      selection: record.selection,
+      maskUrl: record.mask ? await blobToDataUrl(record.mask) : null,
+    },
+  };
+};
+
+/**
+ * Renames a project.
+ * @param id The project id.
+ * @param name The new name.
+ */
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  await updateProjectRecord(id, record => ({ ...record, name }));
+};
+
+/**
+ * Copies a project, including all of its versions.
+ * @param id The project to copy.
+ * @param name The name of the copy.
+ * @returns The id of the copy.
+ */
+export const duplicateProject = async (id: string, name: string): Promise<string> => {
+  const record = await getRecord(id);
+  if (!record) throw new Error(`Project ${id} not found.`);
+  const now = Date.now();
+  const copy: ProjectRecord = { ...record, id: crypto.randomUUID(), name, createdAt: now, updatedAt: now };
+  await putRecord(copy);
+  return copy.id;
+};
+
+/**
+ * Deletes a project and its images.
+ * @param id The project id.
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest<undefined>(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) {
+    localStorage.removeItem(LAST_PROJECT_STORAGE_KEY);
+  }
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_STORAGE_KEY);
+
+export const setLastProjectId = (id: string): void => {
+  localStorage.setItem(LAST_PROJECT_STORAGE_KEY, id);
+};
+
+/**
+ * Returns how much storage the app uses and how much the browser allows, in bytes.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,106 @@
+import { EditRequestOptions, ImageEditProvider, ImagePayload, ModelUsage, ReferenceImagePayload } from './imageEditProvider';
+import {
+  ImageEditErrorPayload,
+  RateLimitError,
+  NetworkError,
+  ServiceUnavailableError,
+  InvalidRequestError,
+  NoImageReturnedError,
+  RequestCancelledError,
+  deserializeImageEditError,
+  isCancellation,
+} from './imageEditErrors';
+
+// Empty means the same origin; in development Vite forwards /api to the proxy server.
+const PROXY_URL = process.env.PROXY_URL ?? '';
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+};
+
+const parseUsage = (value: unknown): ModelUsage | null => {
+  const usage = value as Partial<ModelUsage> | null | undefined;
+  if (typeof usage?.model !== 'string') return null;
+  const count = (tokens: unknown) => (typeof tokens === 'number' && tokens >= 0 ? tokens : 0);
+  return {
+    model: usage.model,
+    promptTokens: count(usage.promptTokens),
+    outputTokens: count(usage.outputTokens),
+    totalTokens: count(usage.totalTokens),
+  };
+};
+
+/**
+ * Posts a request to the proxy and returns the edited image, translating
+ * failures back into the service's error classes.
+ */
+const post = async (path: string, body: object, { signal, onUsage }: EditRequestOptions): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(`${PROXY_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted || isCancellation(error)) throw new RequestCancelledError();
+    throw new NetworkError({ cause: error });
+  }
+
+  const data: { image?: unknown; error?: ImageEditErrorPayload; usage?: unknown } | null = await response.json().catch(() => null);
+  const usage = parseUsage(data?.usage);
+  if (usage) onUsage?.(usage);
+  if (!response.ok) {
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    if (data?.error) throw deserializeImageEditError(data.error, retryAfterMs);
+    // No error body: the proxy itself is down or in front of something that failed.
+    if (response.status === 429) throw new RateLimitError({ retryAfterMs });
+    if (response.status >= 500) throw new ServiceUnavailableError();
+    throw new InvalidRequestError(response.status);
+  }
+  if (typeof data?.image !== 'string' || data.image.length === 0) {
+    throw new NoImageReturnedError({ finishReason: 'INVALID_RESPONSE', retryable: false });
+  }
+  return data.image;
+};
+
+/**
+ * Edits an image through the proxy server, which holds the API key.
+ * @param image The image to edit.
+ * @param prompt The text prompt describing the desired edits.
+ * @param references Optional reference images with their roles.
+ * @param options Request options such as the abort signal.
+ * @returns A promise that resolves to the base64-encoded string of the edited image.
+ */
+const editImage = (
+  image: ImagePayload,
+  prompt: string,
+  references: ReferenceImagePayload[] = [],
+  options: EditRequestOptions = {}
+): Promise<string> =>
+  post('/api/edit', { image, prompt, references, seed: options.seed, temperature: options.temperature }, options);
+
+/**
+ * Edits a masked area of an image through the proxy server.
+ * @param image The image to edit.
+ * @param mask A PNG mask, white where the edit should happen.
+ * @param prompt The text prompt for the selected area.
+ * @param options Request options such as the abort signal.
+ * @returns A promise that resolves to the base64-encoded string of the edited image.
+ */
+const editImageWithMask = (
+  image: ImagePayload,
+  mask: ImagePayload,
+  prompt: string,
+  options: EditRequestOptions = {}
+): Promise<string> =>
+  post('/api/inpaint', { image, mask, prompt, seed: options.seed, temperature: options.temperature }, options);
+
+export const proxyProvider: ImageEditProvider = {
+  id: 'proxy',
+  labelKey: 'app.provider.proxy',
+  editImage,
+  editImageWithMask,
+};
@@ -0,0 +1,56 @@
+import { RecipeStep, Selection } from '../types';
+import { EditRequestOptions } from './imageEditProvider';
+import { editImageWithPrompt, editImageWithSelection } from './imageEditService';
+import { throwIfCancelled } from './imageEditErrors';
+import { createSelectionMask } from '../utils/maskUtils';
+import { compositeMaskedEdit } from '../utils/compositing';
+import { renderAdjustments } from '../utils/adjustments';
+import { loadImage, canvasToBase64 } from '../utils/canvasUtils';
+import { toPixelSelection } from '../utils/recipes';
+
+export interface RecipeStepResult {
+  // Base64-encoded PNG of the new version.
+  imageBase64: string;
+  // The step's rectangle in pixels of the image it ran on, for area edits.
+  selection: Selection | null;
+}
+
+/**
+ * Runs one recipe step on an image, with the same calls the editor uses for
+ * that kind of edit.
+ * @param image The image to edit.
+ * @param step The step to run.
+ * @param options Request options such as the abort signal.
+ * @returns A promise that resolves to the new image.
+ * @throws An ImageEditError for failed model requests, or a LocalizedError for local failures.
+ */
+export const runRecipeStep = async (
+  image: { base64: string; mimeType: string },
+  step: RecipeStep,
+  options: EditRequestOptions = {}
+): Promise<RecipeStepResult> => {
+  const imageUrl = `data:${image.mimeType};base64,${image.base64}`;
+
+  if (step.kind === 'edit') {
+    const references = step.references.map(reference => ({ ...reference }));
+    const imageBase64 = await editImageWithPrompt(image.base64, image.mimeType, step.prompt, references, options);
+    return { imageBase64, selection: null };
+  }
+
+  const source = await loadImage(imageUrl);
+  throwIfCancelled(options.signal);
+
+  if (step.kind === 'adjust') {
+    const canvas = renderAdjustments(source, source.width, source.height, step.adjustments);
+    return { imageBase64: canvasToBase64(canvas), selection: null };
+  }
+
+  const selection = toPixelSelection(step.selection, { width: source.width, height: source.height });
+  const modelImageBase64 = await editImageWithSelection(image.base64, image.mimeType, step.prompt, selection, options);
+  if (!step.composite.enabled) {
+    return { imageBase64: modelImageBase64, selection };
+  }
+  const maskBase64 = await createSelectionMask(image.base64, image.mimeType, selection);
+  const imageBase64 = await compositeMaskedEdit(imageUrl, `data:image/png;base64,${modelImageBase64}`, maskBase64, step.composite);
+  return { imageBase64, selection };
+};
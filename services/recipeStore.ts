@@ -0,0 +1,26 @@
+import { Recipe } from '../types';
+import { RECIPES_STORE, runRequest } from './database';
+
+/**
+ * Lists saved recipes, by name.
+ */
+export const listRecipes = async (): Promise<Recipe[]> => {
+  const recipes = await runRequest<Recipe[]>(RECIPES_STORE, 'readonly', store => store.getAll());
+  return recipes.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Creates or replaces a recipe.
+ * @param recipe The recipe to save.
+ */
+export const saveRecipe = async (recipe: Recipe): Promise<void> => {
+  await runRequest<IDBValidKey>(RECIPES_STORE, 'readwrite', store => store.put(recipe));
+};
+
+/**
+ * Deletes a recipe.
+ * @param id The recipe id.
+ */
+export const deleteRecipe = async (id: string): Promise<void> => {
+  await runRequest<undefined>(RECIPES_STORE, 'readwrite', store => store.delete(id));
+};
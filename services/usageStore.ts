@@ -0,0 +1,143 @@
+import { BudgetSettings, UsageEntry } from '../types';
+import { USAGE_STORE, runRequest } from './database';
+import { DEFAULT_BUDGET_SETTINGS, estimateCost } from '../utils/usage';
+
+const BUDGET_STORAGE_KEY = 'usageBudget';
+// Kept in sessionStorage so reloading the tab continues the session and closing it ends it.
+const SESSION_STORAGE_KEY = 'usageSession';
+
+/**
+ * Running totals of the current browser session, checked against the budget
+ * before every request.
+ */
+export interface SessionUsage {
+  id: string;
+  startedAt: number;
+  requests: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export type UsageRecord = Omit<UsageEntry, 'id' | 'timestamp' | 'sessionId' | 'projectId' | 'projectName' | 'cost'>;
+
+const listeners = new Set<() => void>();
+let currentProject: { id: string; name: string } | null = null;
+
+const notify = () => listeners.forEach(listener => listener());
+
+const createSession = (): SessionUsage => ({
+  id: crypto.randomUUID(),
+  startedAt: Date.now(),
+  requests: 0,
+  totalTokens: 0,
+  cost: 0,
+});
+
+/**
+ * Returns the totals of the current session, starting one if needed.
+ */
+export const getSessionUsage = (): SessionUsage => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error("Could not read the usage session:", error);
+  }
+  const session = createSession();
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+};
+
+/**
+ * Starts a new session, so the budget counts from zero again. The log is kept.
+ */
+export const resetSessionUsage = (): void => {
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(createSession()));
+  notify();
+};
+
+/**
+ * Loads the budget from localStorage, falling back to no limit.
+ */
+export const loadBudgetSettings = (): BudgetSettings => {
+  try {
+    const stored = localStorage.getItem(BUDGET_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_BUDGET_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Could not read the budget settings:", error);
+  }
+  return DEFAULT_BUDGET_SETTINGS;
+};
+
+/**
+ * Persists the budget.
+ * @param settings The budget to save.
+ */
+export const saveBudgetSettings = (settings: BudgetSettings): void => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(settings));
+  notify();
+};
+
+/**
+ * Sets the project requests are attributed to from now on.
+ * @param project The open project, or null when edits belong to none (e.g. batch mode).
+ */
+export const setUsageProject = (project: { id: string; name: string } | null): void => {
+  currentProject = project;
+};
+
+/**
+ * Calls the listener whenever a request is recorded or the session or budget changes.
+ * @param listener The function to call.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Adds a request to the session totals and the usage log. Failing to store the
+ * log entry is reported on the console only, so it never breaks the edit.
+ * @param record What the request was and what it used.
+ */
+export const recordUsage = (record: UsageRecord): void => {
+  const session = getSessionUsage();
+  const entry: UsageEntry = {
+    ...record,
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    sessionId: session.id,
+    projectId: currentProject?.id ?? null,
+    projectName: currentProject?.name ?? null,
+    cost: estimateCost(record),
+  };
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({
+    ...session,
+    requests: session.requests + 1,
+    totalTokens: session.totalTokens + entry.totalTokens,
+    cost: session.cost + entry.cost,
+  }));
+  notify();
+  runRequest<IDBValidKey>(USAGE_STORE, 'readwrite', store => store.put(entry))
+    .then(notify)
+    .catch(error => console.error("Could not store the usage entry:", error));
+};
+
+/**
+ * Lists the usage log, oldest first.
+ */
+export const listUsage = async (): Promise<UsageEntry[]> => {
+  const entries = await runRequest<UsageEntry[]>(USAGE_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Deletes the whole usage log. Session totals, and so the budget, are not affected.
+ */
+export const clearUsage = async (): Promise<void> => {
+  await runRequest<undefined>(USAGE_STORE, 'readwrite', store => store.clear());
+  notify();
+};
@@ -0,0 +1,354 @@
+import { LocalizedMessage } from './i18n';
+
+export interface OriginalImage {
+  url: string;
+  base64: string;
+  mimeType: string;
+  // File name of the upload, used to name exports.
+  name?: string;
+  // The file as uploaded, before preprocessing, kept for full-resolution exports.
+  source?: SourceFile;
+  // What preprocessing changed, shown to the user (empty when the file was used as-is).
+  preprocessingNotes?: LocalizedMessage[];
+  // Edit history embedded in the file by an earlier export from this app.
+  provenance?: Provenance;
+}
+
+// What a reference image contributes to the edit; the role is described to the model next to the image.
+export type ReferenceRole = 'background' | 'style' | 'lighting' | 'color' | 'object';
+
+export interface ReferenceImage extends OriginalImage {
+  id: string;
+  role: ReferenceRole;
+}
+
+export interface SourceFile {
+  blob: Blob;
+  // Upright pixel size (after applying the EXIF orientation).
+  width: number;
+  height: number;
+  // How much larger the file is than the copy sent for editing (1 when not downscaled).
+  scale: number;
+}
+
+export type UploadFormat = 'auto' | 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface UploadSettings {
+  // Longest edge in pixels sent for editing; 0 keeps the full resolution.
+  maxEdge: number;
+  // 'auto' keeps supported formats and converts the rest.
+  format: UploadFormat;
+  keepMetadata: boolean;
+}
+
+// Rectangle in image pixel coordinates (not screen or percentage units).
+export interface Selection {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+/**
+ * Parameters of the local adjustment tools. They are kept on the version they
+ * produced, so the step can be reopened and changed later from its parent.
+ */
+export interface ImageAdjustments {
+  rotation: QuarterTurn;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  // Fine rotation in degrees; the image is enlarged so no empty corners show.
+  straighten: number;
+  // Fractions (0-1) of the rotated and straightened image, or null for no crop.
+  crop: Selection | null;
+  // -100 to 100, 0 leaves the image unchanged.
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // Input black and white points (0-255) and midtone gamma.
+  levels: { black: number; white: number; gamma: number };
+  // Output offsets (-64 to 64) at the quarter, half and three-quarter input tones.
+  curve: { shadows: number; midtones: number; highlights: number };
+  // Per-channel gains, usually set with the eyedropper.
+  whiteBalance: { r: number; g: number; b: number };
+}
+
+// 'adjust' covers local, non-AI changes such as the compliance auto-fix.
+export type HistoryNodeKind = 'edit' | 'inpaint' | 'adjust';
+
+/**
+ * A single result in the edit history. Nodes form a tree: full-image edits
+ * hang off the version chosen as base (or the original when `parentId` is
+ * null), and area edits hang off the version they were applied to.
+ */
+export interface HistoryNode {
+  id: string;
+  parentId: string | null;
+  kind: HistoryNodeKind;
+  imageUrl: string;
+  prompt: string;
+  selection: Selection | null;
+  // Painted mask (PNG data URL, opaque where painted) used for area edits.
+  maskUrl: string | null;
+  // References sent with the request, in the order they were given to the model.
+  referenceImages: ReferenceImage[];
+  // Shared by the versions generated together as variants of one request.
+  variantGroupId?: string;
+  starred?: boolean;
+  // Settings of the adjustment panel that produced an 'adjust' version.
+  adjustments?: ImageAdjustments;
+  // Model that generated an 'edit' or 'inpaint' version, as reported by the provider.
+  model?: string;
+  createdAt: number;
+}
+
+export interface EditHistory {
+  nodes: Record<string, HistoryNode>;
+  // Node ids in creation order, used for the timeline.
+  order: string[];
+  currentId: string | null;
+  // For each parent (or ROOT_KEY), the child that redo should return to.
+  redoTargets: Record<string, string>;
+}
+
+// Flat colours the model can be asked to put behind the product for chroma keying.
+export type KeyColor = 'green' | 'blue' | 'magenta';
+
+export interface ChromaKeySettings {
+  // Background colour to remove, as #rrggbb. Sampled from the image border by default.
+  keyColor: string;
+  // How far (0-100) a pixel's colour may lean away from the key and still be removed.
+  tolerance: number;
+  // Width (0-100) of the ramp between removed and kept pixels, which softens the edge.
+  softness: number;
+  // Share (0-100) of the key colour taken out of kept pixels, against coloured fringes.
+  despill: number;
+}
+
+export interface DropShadowSettings {
+  enabled: boolean;
+  // Direction the shadow falls, in degrees clockwise from the right (90 is straight down).
+  angle: number;
+  // Offset from the product, in % of the product height.
+  distance: number;
+  // Blur radius, in % of the product height.
+  blur: number;
+  // 0-100.
+  opacity: number;
+}
+
+export interface ContactShadowSettings {
+  enabled: boolean;
+  // Height of the flattened silhouette under the product, in % of the product height.
+  height: number;
+  // Blur radius, in % of the product height.
+  blur: number;
+  // 0-100.
+  opacity: number;
+}
+
+export interface ReflectionSettings {
+  enabled: boolean;
+  // Gap between the product and its reflection, in % of the product height.
+  distance: number;
+  // 0-100, at the top of the reflection.
+  opacity: number;
+  // Length over which the reflection fades out, in % of the product height.
+  fade: number;
+}
+
+// Sizes are relative to the product so photos of any resolution get the same look.
+export interface ShadowSettings {
+  dropShadow: DropShadowSettings;
+  contactShadow: ContactShadowSettings;
+  reflection: ReflectionSettings;
+}
+
+export interface ShadowPreset {
+  id: string;
+  name: string;
+  settings: ShadowSettings;
+}
+
+export type MaskTool = 'rectangle' | 'brush' | 'eraser' | 'lasso';
+
+export type MaskMode = 'add' | 'subtract';
+
+export interface MaskSettings {
+  tool: MaskTool;
+  // Whether the rectangle, brush and lasso add to or subtract from the selection. The eraser always subtracts.
+  mode: MaskMode;
+  // Brush diameter in image pixels.
+  brushSize: number;
+  // 0 gives a fully soft brush, 1 a hard-edged one.
+  brushHardness: number;
+}
+
+/**
+ * Controls how an area edit is blended back onto the previous version.
+ */
+export interface CompositeSettings {
+  // When false the model output replaces the whole image, as before.
+  enabled: boolean;
+  // Width in pixels of the soft transition inside the mask edge.
+  featherRadius: number;
+  // Shift the model output's colours to match the original along the seam.
+  matchColors: boolean;
+}
+
+export type ExportFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+export type ExportSizeMode = 'original' | 'max' | 'exact';
+
+/**
+ * A saved set of export options, e.g. one per sales channel.
+ */
+export interface ExportProfile {
+  id: string;
+  name: string;
+  format: ExportFormat;
+  // 1-100, ignored for PNG.
+  quality: number;
+  sizeMode: ExportSizeMode;
+  // Longest edge in pixels when sizeMode is 'max'.
+  maxDimension: number;
+  // Output size in pixels when sizeMode is 'exact'.
+  width: number;
+  height: number;
+  // How the image is fitted into an exact size: letterboxed or cropped to fill.
+  fit: 'pad' | 'crop';
+  // Fill colour for padding and transparent areas; null keeps transparency where the format allows it.
+  background: string | null;
+  // Tokens: {nome}, {sku}, {data}, {hora}, {perfil}, {largura}, {altura}, or their English
+  // and Spanish spellings ({name}, {nombre}, ...).
+  filenameTemplate: string;
+}
+
+export interface RecipeReference {
+  role: ReferenceRole;
+  name?: string;
+  // Image data without the data URL prefix, so recipes can be shared as plain JSON.
+  base64: string;
+  mimeType: string;
+}
+
+/**
+ * One step of a recipe, replayed with the same call that produced it. Area edits
+ * keep their rectangle as fractions (0-1) of the image so they fit photos of any size.
+ */
+export type RecipeStep =
+  | { kind: 'edit'; prompt: string; references: RecipeReference[] }
+  | { kind: 'inpaint'; prompt: string; selection: Selection; composite: CompositeSettings }
+  | { kind: 'adjust'; adjustments: ImageAdjustments };
+
+/**
+ * A named sequence of edits that can be replayed on other photos.
+ */
+export interface Recipe {
+  id: string;
+  name: string;
+  steps: RecipeStep[];
+  createdAt: number;
+}
+
+export type RecipeStepStatus = 'pending' | 'running' | 'done' | 'error';
+
+/**
+ * Progress of a recipe being replayed, one status per step.
+ */
+export interface RecipeRun {
+  recipeId: string;
+  statuses: RecipeStepStatus[];
+}
+
+export type UsageOperation = 'edit' | 'inpaint';
+
+/**
+ * One request sent to an image edit provider, as recorded in the usage log.
+ */
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  // Browser session the request was made in; budgets apply per session.
+  sessionId: string;
+  // Project open when the request was made; null in batch mode or before the first upload.
+  projectId: string | null;
+  projectName: string | null;
+  provider: string;
+  operation: UsageOperation;
+  // Model that answered, or the provider id when it reports no usage (e.g. the local provider).
+  model: string;
+  status: 'ok' | 'error' | 'cancelled';
+  // Error class name of failed requests.
+  errorCode?: string;
+  latencyMs: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // Estimated cost in US dollars at the list prices known to the app.
+  cost: number;
+}
+
+/**
+ * Spending limit for one browser session, in US dollars.
+ */
+export interface BudgetSettings {
+  // null means no limit.
+  limit: number | null;
+  // Share of the limit (0-100) at which the app starts warning.
+  warnPercent: number;
+}
+
+/**
+ * One edit recorded in an exported file's provenance.
+ */
+export interface ProvenanceStep {
+  kind: HistoryNodeKind;
+  prompt: string;
+  // Model that generated the version; null for local adjustments.
+  model: string | null;
+  // Rectangle of an area edit, in pixels of the image it was drawn on.
+  selection: Selection | null;
+  // Bounding box of a painted mask, in the same pixels.
+  maskBounds: Selection | null;
+  referenceRoles: ReferenceRole[];
+  // ISO 8601 time the version was created.
+  createdAt: string;
+}
+
+/**
+ * Disclosure of how an exported image was made, embedded in the file and
+ * optionally written next to it as JSON.
+ */
+export interface Provenance {
+  // Name and version of the format, so readers can tell it apart from other metadata.
+  format: 'editor-provenance';
+  version: 1;
+  software: string;
+  aiEdited: boolean;
+  original: {
+    name: string | null;
+    // Hex SHA-256 of the file as uploaded.
+    sha256: string | null;
+  };
+  // Oldest first; edits made before the file was re-uploaded come first.
+  steps: ProvenanceStep[];
+  exportedAt: string;
+}
+
+/**
+ * One product photo listed in an imported SKU catalogue.
+ */
+export interface CatalogueRow {
+  sku: string;
+  // Image file name as written in the CSV.
+  fileName: string;
+  // Instruction for this photo; null falls back to the batch prompt.
+  prompt: string | null;
+  referenceFileName: string | null;
+  referenceRole: ReferenceRole;
+  // 1-based position among the rows of the same SKU, used in the output name.
+  index: number;
+}
@@ -0,0 +1,230 @@
+import { ImageAdjustments, Selection } from '../types';
+import { createCanvas, fitWithin } from './canvasUtils';
+import { LocalizedError, Translate } from '../i18n';
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  straighten: 0,
+  crop: null,
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  levels: { black: 0, white: 255, gamma: 1 },
+  curve: { shadows: 0, midtones: 0, highlights: 0 },
+  whiteBalance: { r: 1, g: 1, b: 1 },
+};
+
+/**
+ * Size of the image after rotation and straightening, before cropping.
+ * @param width The source width.
+ * @param height The source height.
+ * @param adjustments The adjustments to apply.
+ */
+export const getRotatedSize = (
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments
+): { width: number; height: number } =>
+  adjustments.rotation === 90 || adjustments.rotation === 270 ? { width: height, height: width } : { width, height };
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+// Monotone cubic (Fritsch–Carlson) through the curve points, so the tone curve never folds back.
+const interpolateCurve = (xs: number[], ys: number[]): ((x: number) => number) => {
+  const n = xs.length;
+  const slopes = xs.slice(0, -1).map((x, i) => (ys[i + 1] - ys[i]) / (xs[i + 1] - x));
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  return (x: number) => {
+    let i = 0;
+    while (i < n - 2 && x > xs[i + 1]) i++;
+    const h = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[i] + (t3 - 2 * t2 + t) * h * tangents[i]
+      + (-2 * t3 + 3 * t2) * ys[i + 1] + (t3 - t2) * h * tangents[i + 1];
+  };
+};
+
+/**
+ * Builds the per-channel lookup tables for white balance, brightness,
+ * contrast, levels and curve, which are all applied channel by channel.
+ */
+const buildToneTables = (adjustments: ImageAdjustments): [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray] => {
+  const { brightness, contrast, levels, curve, whiteBalance } = adjustments;
+  const contrastFactor = (259 * (contrast * 2.55 + 255)) / (255 * (259 - contrast * 2.55));
+  const range = Math.max(1, levels.white - levels.black);
+  const curveAt = interpolateCurve(
+    [0, 64, 128, 192, 255],
+    [0, 64 + curve.shadows, 128 + curve.midtones, 192 + curve.highlights, 255]
+  );
+
+  const tone = (value: number): number => {
+    let v = value + brightness * 1.28;
+    v = contrastFactor * (v - 128) + 128;
+    v = Math.max(0, Math.min(1, (v - levels.black) / range));
+    v = 255 * Math.pow(v, 1 / levels.gamma);
+    return clampByte(curveAt(v));
+  };
+
+  return [whiteBalance.r, whiteBalance.g, whiteBalance.b].map(gain => {
+    const table = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) table[i] = tone(Math.min(255, i * gain));
+    return table;
+  }) as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+};
+
+const hasToneChanges = (adjustments: ImageAdjustments): boolean => {
+  const { brightness, contrast, levels, curve, whiteBalance } = adjustments;
+  return brightness !== 0 || contrast !== 0 || levels.black !== 0 || levels.white !== 255 || levels.gamma !== 1
+    || curve.shadows !== 0 || curve.midtones !== 0 || curve.highlights !== 0
+    || whiteBalance.r !== 1 || whiteBalance.g !== 1 || whiteBalance.b !== 1;
+};
+
+const applyTone = (ctx: CanvasRenderingContext2D, width: number, height: number, adjustments: ImageAdjustments) => {
+  if (!hasToneChanges(adjustments) && adjustments.saturation === 0) return;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  const [red, green, blue] = buildToneTables(adjustments);
+  const saturation = 1 + adjustments.saturation / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = red[data[i]];
+    let g = green[data[i + 1]];
+    let b = blue[data[i + 2]];
+    if (saturation !== 1) {
+      const grey = r * 0.299 + g * 0.587 + b * 0.114;
+      r = grey + (r - grey) * saturation;
+      g = grey + (g - grey) * saturation;
+      b = grey + (b - grey) * saturation;
+    }
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Draws the source with rotation, flips and straightening applied.
+ */
+const renderGeometry = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments
+): HTMLCanvasElement => {
+  const size = getRotatedSize(width, height, adjustments);
+  const { canvas, ctx } = createCanvas(size.width, size.height);
+  const angle = (adjustments.straighten * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  // Enlarge just enough for the tilted image to cover the whole frame.
+  const cover = Math.max(
+    (size.width * cos + size.height * sin) / size.width,
+    (size.width * sin + size.height * cos) / size.height
+  );
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(size.width / 2, size.height / 2);
+  // Flips come first so they mirror the image as displayed, whatever its rotation.
+  ctx.scale(adjustments.flipHorizontal ? -1 : 1, adjustments.flipVertical ? -1 : 1);
+  ctx.rotate(angle + (adjustments.rotation * Math.PI) / 180);
+  ctx.scale(cover, cover);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  return canvas;
+};
+
+/**
+ * Converts a crop given in fractions into pixels of an image of the given size.
+ * @param crop The crop, in fractions (0-1).
+ * @param width The image width.
+ * @param height The image height.
+ */
+export const cropToPixels = (crop: Selection, width: number, height: number): Selection => {
+  const x = Math.max(0, Math.min(width - 1, Math.round(crop.x * width)));
+  const y = Math.max(0, Math.min(height - 1, Math.round(crop.y * height)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(crop.height * height))),
+  };
+};
+
+/**
+ * Applies the local adjustments to an image.
+ * @param source The image to adjust.
+ * @param width The source width in pixels.
+ * @param height The source height in pixels.
+ * @param adjustments The adjustments to apply.
+ * @param options `skipCrop` renders the whole frame (for drawing the crop box
+ * over it), and `maxSize` limits the output for fast previews.
+ * @returns A canvas with the adjusted image.
+ */
+export const renderAdjustments = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments,
+  options: { skipCrop?: boolean; maxSize?: number } = {}
+): HTMLCanvasElement => {
+  // Previews work on a reduced copy; every step is resolution independent.
+  const { width: scaledWidth, height: scaledHeight } = fitWithin(width, height, options.maxSize);
+  let canvas = renderGeometry(source, scaledWidth, scaledHeight, adjustments);
+
+  if (adjustments.crop && !options.skipCrop) {
+    const crop = cropToPixels(adjustments.crop, canvas.width, canvas.height);
+    const { canvas: cropped, ctx } = createCanvas(crop.width, crop.height);
+    ctx.drawImage(canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+    canvas = cropped;
+  }
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new LocalizedError('errors.canvasContext');
+  }
+  applyTone(ctx, canvas.width, canvas.height, adjustments);
+  return canvas;
+};
+
+/**
+ * Computes white balance gains that make the sampled colour neutral grey,
+ * keeping the overall brightness.
+ * @param r The sampled red value (0-255).
+ * @param g The sampled green value.
+ * @param b The sampled blue value.
+ */
+export const whiteBalanceFromSample = (r: number, g: number, b: number): ImageAdjustments['whiteBalance'] => {
+  const mean = (r + g + b) / 3;
+  const gain = (channel: number) => Math.max(0.25, Math.min(4, mean / Math.max(1, channel)));
+  return { r: gain(r), g: gain(g), b: gain(b) };
+};
+
+/**
+ * Summarises the adjustments for the version history, e.g. "Local adjustment: rotate 90°, crop, contrast +20".
+ * @param t The translate function of the language to write in.
+ * @param adjustments The applied adjustments.
+ */
+export const describeAdjustments = (t: Translate, adjustments: ImageAdjustments): string => {
+  const parts: string[] = [];
+  const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+  if (adjustments.rotation) parts.push(t('adjust.summary.rotate', { degrees: adjustments.rotation }));
+  if (adjustments.flipHorizontal) parts.push(t('adjust.summary.flipHorizontal'));
+  if (adjustments.flipVertical) parts.push(t('adjust.summary.flipVertical'));
+  if (adjustments.straighten) parts.push(t('adjust.summary.straighten', { degrees: signed(adjustments.straighten) }));
+  if (adjustments.crop) parts.push(t('adjust.summary.crop'));
+  if (adjustments.brightness) parts.push(t('adjust.summary.brightness', { value: signed(adjustments.brightness) }));
+  if (adjustments.contrast) parts.push(t('adjust.summary.contrast', { value: signed(adjustments.contrast) }));
+  if (adjustments.saturation) parts.push(t('adjust.summary.saturation', { value: signed(adjustments.saturation) }));
+  const { levels, curve, whiteBalance } = adjustments;
+  if (levels.black !== 0 || levels.white !== 255 || levels.gamma !== 1) parts.push(t('adjust.summary.levels'));
+  if (curve.shadows || curve.midtones || curve.highlights) parts.push(t('adjust.summary.curve'));
+  if (whiteBalance.r !== 1 || whiteBalance.g !== 1 || whiteBalance.b !== 1) parts.push(t('adjust.summary.whiteBalance'));
+  return t('adjust.summary', { changes: parts.length > 0 ? parts.join(', ') : t('adjust.summary.none') });
+};
@@ -0,0 +1,54 @@
+import { LocalizedError } from '../i18n';
+
+/**
+ * Loads an image from a URL (data URL, object URL or same-origin path).
+ * @param src The image source.
+ * @returns A promise that resolves with the decoded image element.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+};
+
+/**
+ * Creates a canvas with a 2D context.
+ * @param width The canvas width in pixels.
+ * @param height The canvas height in pixels.
+ * @returns The canvas and its 2D rendering context.
+ */
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new LocalizedError('errors.canvasContext');
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Shrinks a size so its longest side fits a limit, keeping the aspect ratio.
+ * Sizes already within the limit are returned unchanged.
+ * @param width The width in pixels.
+ * @param height The height in pixels.
+ * @param maxSize The longest side allowed; no limit when omitted.
+ */
+export const fitWithin = (width: number, height: number, maxSize?: number): { width: number; height: number } => {
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(width, height)) : 1;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * Encodes a canvas as base64, without the data URL prefix.
+ * @param canvas The canvas to encode.
+ * @param mimeType The output format (defaults to PNG).
+ * @param quality Optional quality between 0 and 1 for lossy formats.
+ */
+export const canvasToBase64 = (canvas: HTMLCanvasElement, mimeType = 'image/png', quality?: number): string => {
+  return canvas.toDataURL(mimeType, quality).split(',')[1];
+};
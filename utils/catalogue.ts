@@ -0,0 +1,139 @@
+import { CatalogueRow, ExportProfile, ReferenceRole } from '../types';
+import { REFERENCE_ROLES } from '../services/imageEditProvider';
+import { parseCsv, toCsv } from './csv';
+import { buildExportFileName } from './exportUtils';
+import { stripExtension } from './fileUtils';
+import { Locale, LocalizedError } from '../i18n';
+
+type CatalogueColumn = 'sku' | 'fileName' | 'prompt' | 'reference' | 'referenceRole';
+
+// Accepted header spellings, compared without case or accents. Every language
+// works whatever the active one, as spreadsheets are shared across teams.
+const COLUMN_ALIASES: Record<CatalogueColumn, string[]> = {
+  sku: ['sku', 'code', 'codigo', 'product_code'],
+  fileName: ['filename', 'file_name', 'file', 'image', 'image_file', 'arquivo', 'imagem', 'archivo', 'imagen'],
+  prompt: ['prompt', 'instruction', 'instrucao', 'instruccion'],
+  reference: ['reference', 'reference_image', 'referencia', 'imagem_referencia', 'imagen_referencia'],
+  referenceRole: ['reference_role', 'role', 'papel', 'rol'],
+};
+
+// Results are JPEGs at the edited size on white, as marketplaces expect.
+export const CATALOGUE_EXPORT_PROFILE: ExportProfile = {
+  id: 'catalogue',
+  name: 'SKU JPEG',
+  format: 'image/jpeg',
+  quality: 90,
+  sizeMode: 'original',
+  maxDimension: 4000,
+  width: 2000,
+  height: 2000,
+  fit: 'pad',
+  background: '#ffffff',
+  filenameTemplate: '{sku}',
+};
+
+export type CatalogueStatus = 'pending' | 'processing' | 'done' | 'error' | 'missing_image';
+
+export interface CatalogueReportEntry {
+  row: CatalogueRow;
+  status: CatalogueStatus;
+  // Already translated, so the report reads in the language it was downloaded in.
+  error: string | null;
+  outputFile: string | null;
+}
+
+const normalizeHeader = (header: string): string =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const invalidCatalogue = (detail: string) => new LocalizedError('errors.catalogueInvalid', {}, { cause: new Error(detail) });
+
+/**
+ * Parses a SKU catalogue: a CSV with a header row and SKU and image file name
+ * columns, plus optional prompt, reference image and reference role columns.
+ * @param text The CSV document.
+ * @returns The rows, in file order.
+ * @throws A LocalizedError when a required column or value is missing.
+ */
+export const parseCatalogue = (text: string): CatalogueRow[] => {
+  const [header = [], ...records] = parseCsv(text);
+  const columns: Partial<Record<CatalogueColumn, number>> = {};
+  header.map(normalizeHeader).forEach((name, index) => {
+    const column = (Object.keys(COLUMN_ALIASES) as CatalogueColumn[]).find(key => COLUMN_ALIASES[key].includes(name));
+    if (column && columns[column] === undefined) columns[column] = index;
+  });
+  if (columns.sku === undefined || columns.fileName === undefined) {
+    throw new LocalizedError('errors.catalogueMissingColumns');
+  }
+
+  const counts = new Map<string, number>();
+  const rows: CatalogueRow[] = [];
+  records.forEach((record, index) => {
+    const cell = (column: CatalogueColumn) => (columns[column] === undefined ? '' : (record[columns[column]!] ?? '').trim());
+    if (record.every(value => value.trim() === '')) return;
+    const sku = cell('sku');
+    const fileName = cell('fileName');
+    // The header is line 1.
+    if (!sku || !fileName) throw invalidCatalogue(`Line ${index + 2} needs a SKU and an image file name`);
+
+    const role = cell('referenceRole').toLowerCase();
+    const position = (counts.get(sku) ?? 0) + 1;
+    counts.set(sku, position);
+    rows.push({
+      sku,
+      fileName,
+      prompt: cell('prompt') || null,
+      referenceFileName: cell('reference') || null,
+      // Unknown roles fall back to style, as for uploaded references.
+      referenceRole: REFERENCE_ROLES.includes(role as ReferenceRole) ? (role as ReferenceRole) : 'style',
+      index: position,
+    });
+  });
+  if (rows.length === 0) throw new LocalizedError('errors.catalogueEmpty');
+  return rows;
+};
+
+const baseName = (path: string): string => path.split(/[\\/]/).pop()!.trim().toLowerCase();
+
+/**
+ * Tells whether a file name listed in a catalogue refers to an uploaded file.
+ * Case and folders are ignored, and the listed name may leave out the extension.
+ * @param listed The name in the CSV.
+ * @param fileName The uploaded file's name.
+ */
+export const matchesCatalogueFile = (listed: string, fileName: string): boolean => {
+  const expected = baseName(listed);
+  const actual = baseName(fileName);
+  return expected === actual || expected === stripExtension(actual);
+};
+
+/**
+ * Tells whether two catalogue lines stand for the same output, e.g. the same
+ * line in a catalogue and in a later import of it: same SKU, position and image.
+ * @param a One line.
+ * @param b The other line.
+ */
+export const isSameCatalogueRow = (a: CatalogueRow, b: CatalogueRow): boolean =>
+  a.sku === b.sku && a.index === b.index && baseName(a.fileName) === baseName(b.fileName);
+
+/**
+ * Names the exported result of a catalogue row, e.g. "ABC-123_2.jpg".
+ * @param row The catalogue row.
+ * @param locale The language of the fallback names.
+ */
+export const catalogueOutputName = (row: CatalogueRow, locale: Locale): string =>
+  buildExportFileName(
+    { ...CATALOGUE_EXPORT_PROFILE, filenameTemplate: `{sku}_${row.index}` },
+    { locale, sku: row.sku, width: 0, height: 0 }
+  );
+
+/**
+ * Builds the processing report of a catalogue, one line per row. The columns
+ * keep fixed English names and status codes so the report can be matched back
+ * to the spreadsheet by formula.
+ * @param entries The rows and their outcome.
+ */
+export const catalogueReportToCsv = (entries: CatalogueReportEntry[]): string =>
+  toCsv([
+    ['sku', 'image_file', 'prompt', 'status', 'error', 'output_file'],
+    ...entries.map(({ row, status, error, outputFile }) => [row.sku, row.fileName, row.prompt, status, error, outputFile]),
+  ]);
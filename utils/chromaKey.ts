@@ -0,0 +1,174 @@
+import { ChromaKeySettings, KeyColor } from '../types';
+import { createCanvas, fitWithin } from './canvasUtils';
+
+export const KEY_COLORS: Record<KeyColor, string> = {
+  green: '#00ff00',
+  blue: '#0000ff',
+  magenta: '#ff00ff',
+};
+
+export const DEFAULT_CHROMA_KEY_SETTINGS: ChromaKeySettings = {
+  keyColor: KEY_COLORS.green,
+  tolerance: 40,
+  softness: 20,
+  despill: 50,
+};
+
+// CSS background that shows transparent pixels as a grey and white checkerboard.
+export const CHECKERBOARD_BACKGROUND = 'repeating-conic-gradient(#e5e7eb 0% 25%, #ffffff 0% 50%) 50% / 16px 16px';
+
+// Width of the border band sampled to find the key colour.
+const BORDER_SAMPLE = 4;
+
+/**
+ * Builds the instruction that asks the model to replace the background with a
+ * flat key colour, so it can be removed locally afterwards.
+ * @param color The key colour to ask for.
+ */
+export const keyBackgroundPrompt = (color: KeyColor): string =>
+  `Replace the entire background with a perfectly flat, uniform pure ${color} (${KEY_COLORS[color]}) backdrop. ` +
+  'Keep the product exactly as it is, fully visible and in the same position and size. ' +
+  'No shadows, reflections, gradients, texture or vignetting on the backdrop, and do not tint the product with the backdrop colour.';
+
+/**
+ * Parses a #rrggbb colour.
+ * @param hex The colour.
+ */
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Formats a colour as #rrggbb.
+ * @param r Red, 0-255.
+ * @param g Green, 0-255.
+ * @param b Blue, 0-255.
+ */
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+// Chroma (Cb, Cr) of a colour, in the BT.601 YCbCr space.
+const toChroma = (r: number, g: number, b: number): [number, number] => [
+  -0.168736 * r - 0.331264 * g + 0.5 * b,
+  0.5 * r - 0.418688 * g - 0.081312 * b,
+];
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+/**
+ * Finds the key colour as the median of a band along the image border, where
+ * only the backdrop is expected.
+ * @param data RGBA pixels.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns The colour as #rrggbb.
+ */
+export const detectKeyColor = (data: Uint8ClampedArray, width: number, height: number): string => {
+  const channels: [number[], number[], number[]] = [[], [], []];
+  const band = Math.max(1, Math.min(BORDER_SAMPLE, Math.floor(Math.min(width, height) / 4)));
+  for (let y = 0; y < height; y++) {
+    const isEdgeRow = y < band || y >= height - band;
+    for (let x = 0; x < width; x++) {
+      // Skip the interior of the other rows.
+      if (!isEdgeRow && x === band) x = Math.max(band, width - band);
+      const i = (y * width + x) * 4;
+      channels[0].push(data[i]);
+      channels[1].push(data[i + 1]);
+      channels[2].push(data[i + 2]);
+    }
+  }
+  return rgbToHex(median(channels[0]), median(channels[1]), median(channels[2]));
+};
+
+/**
+ * Removes the key colour from an image in place. A pixel is removed by how
+ * strongly its chroma points towards the key's, so darker and lighter shades of
+ * the backdrop go too, while neutral and differently coloured pixels stay.
+ * Kept pixels lose the key's share of their chroma (despill), which cleans
+ * coloured fringes along the edge.
+ * @param data RGBA pixels, changed in place.
+ * @param settings Key colour, tolerance, softness and despill.
+ * @param refine Optional RGBA overrides of the same size: where painted, the red
+ *   channel (255 keeps, 0 removes) replaces the computed alpha by the paint's alpha.
+ */
+export const applyChromaKey = (data: Uint8ClampedArray, settings: ChromaKeySettings, refine: Uint8ClampedArray | null = null): void => {
+  const [keyCb, keyCr] = toChroma(...hexToRgb(settings.keyColor));
+  const keyLength = Math.hypot(keyCb, keyCr);
+  // A grey key has no chroma to match; nothing is removed but the refinements.
+  const unitCb = keyLength > 1 ? keyCb / keyLength : 0;
+  const unitCr = keyLength > 1 ? keyCr / keyLength : 0;
+  const removeFrom = 1 - settings.tolerance / 100;
+  const keepBelow = removeFrom - settings.softness / 100;
+  const despill = settings.despill / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    let [cb, cr] = toChroma(r, g, b);
+
+    // Chroma along the key direction, minus what points elsewhere.
+    const along = cb * unitCb + cr * unitCr;
+    const across = Math.abs(cb * unitCr - cr * unitCb);
+    const strength = keyLength > 1 ? (along - across) / keyLength : 0;
+
+    let alpha: number;
+    if (strength >= removeFrom) alpha = 0;
+    else if (strength <= keepBelow) alpha = 1;
+    else alpha = (removeFrom - strength) / (removeFrom - keepBelow);
+
+    if (refine && refine[i + 3] > 0) {
+      const weight = refine[i + 3] / 255;
+      alpha = alpha * (1 - weight) + (refine[i] / 255) * weight;
+    }
+
+    const spill = Math.max(0, along - across) * despill;
+    if (spill > 0 && alpha > 0) {
+      cb -= spill * unitCb;
+      cr -= spill * unitCr;
+      data[i] = y + 1.402 * cr;
+      data[i + 1] = y - 0.344136 * cb - 0.714136 * cr;
+      data[i + 2] = y + 1.772 * cb;
+    }
+    data[i + 3] = Math.round(alpha * data[i + 3]);
+  }
+};
+
+/**
+ * Renders an image with its key colour removed.
+ * @param source The image with the flat key-colour backdrop.
+ * @param width The image width.
+ * @param height The image height.
+ * @param settings Key colour, tolerance, softness and despill.
+ * @param options `refine` is a canvas of manual keep/remove strokes covering the
+ *   image; `maxSize` limits the output for fast previews.
+ * @returns A canvas with transparency.
+ */
+export const renderCutout = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  settings: ChromaKeySettings,
+  options: { refine?: HTMLCanvasElement | null; maxSize?: number } = {}
+): HTMLCanvasElement => {
+  const { width: scaledWidth, height: scaledHeight } = fitWithin(width, height, options.maxSize);
+  const { canvas, ctx } = createCanvas(scaledWidth, scaledHeight);
+  ctx.drawImage(source, 0, 0, scaledWidth, scaledHeight);
+  const image = ctx.getImageData(0, 0, scaledWidth, scaledHeight);
+
+  let refine: Uint8ClampedArray | null = null;
+  if (options.refine) {
+    const { ctx: refineCtx } = createCanvas(scaledWidth, scaledHeight);
+    refineCtx.drawImage(options.refine, 0, 0, scaledWidth, scaledHeight);
+    refine = refineCtx.getImageData(0, 0, scaledWidth, scaledHeight).data;
+  }
+
+  applyChromaKey(image.data, settings, refine);
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
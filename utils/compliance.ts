@@ -0,0 +1,358 @@
+import { loadImage, createCanvas, canvasToBase64 } from './canvasUtils';
+import { LocalizedMessage, MessageKey } from '../i18n';
+
+/**
+ * Marketplace image requirements checked by the local analyser.
+ */
+export interface ComplianceRuleSet {
+  id: string;
+  name: string;
+  // Minimum width and height in pixels.
+  minWidth: number;
+  minHeight: number;
+  // Required width/height ratio, or null when any ratio is accepted.
+  aspectRatio: number | null;
+  // Minimum share of background pixels that must be pure white (0-100).
+  minWhiteBackground: number;
+  // Accepted range for how much of the frame the product fills along its longest side (0-100).
+  minFill: number;
+  maxFill: number;
+  // Reject images framed by a solid border.
+  forbidBorders: boolean;
+}
+
+export const COMPLIANCE_RULE_SETS: ComplianceRuleSet[] = [
+  {
+    id: 'amazon',
+    name: 'Amazon',
+    minWidth: 1000,
+    minHeight: 1000,
+    aspectRatio: null,
+    minWhiteBackground: 98,
+    minFill: 85,
+    maxFill: 100,
+    forbidBorders: true,
+  },
+  {
+    id: 'mercado-livre',
+    name: 'Mercado Livre',
+    minWidth: 1200,
+    minHeight: 1200,
+    aspectRatio: 1,
+    minWhiteBackground: 95,
+    minFill: 80,
+    maxFill: 95,
+    forbidBorders: true,
+  },
+  {
+    id: 'shopee',
+    name: 'Shopee',
+    minWidth: 500,
+    minHeight: 500,
+    aspectRatio: 1,
+    minWhiteBackground: 90,
+    minFill: 70,
+    maxFill: 95,
+    forbidBorders: true,
+  },
+];
+
+const CUSTOM_RULES_STORAGE_KEY = 'complianceCustomRules';
+
+export const DEFAULT_CUSTOM_RULE_SET: ComplianceRuleSet = {
+  id: 'custom',
+  // Not shown: the panel labels this set with compliance.custom.
+  name: 'Custom',
+  minWidth: 800,
+  minHeight: 800,
+  aspectRatio: null,
+  minWhiteBackground: 95,
+  minFill: 80,
+  maxFill: 95,
+  forbidBorders: true,
+};
+
+/**
+ * Loads the user's custom rule set from local storage.
+ */
+export const loadCustomRuleSet = (): ComplianceRuleSet => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_RULES_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_CUSTOM_RULE_SET, ...JSON.parse(stored), id: 'custom' };
+  } catch (error) {
+    console.error("Error reading custom compliance rules:", error);
+  }
+  return DEFAULT_CUSTOM_RULE_SET;
+};
+
+/**
+ * Persists the user's custom rule set.
+ * @param rules The rules to save.
+ */
+export const saveCustomRuleSet = (rules: ComplianceRuleSet): void => {
+  localStorage.setItem(CUSTOM_RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+export interface ComplianceCheck {
+  id: 'resolution' | 'aspect' | 'background' | 'fill' | 'border';
+  label: MessageKey;
+  passed: boolean;
+  detail: LocalizedMessage;
+}
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ComplianceReport {
+  width: number;
+  height: number;
+  // Share of background pixels that are pure white (0-100).
+  backgroundWhitePct: number;
+  // Product size along its longest side relative to the frame (0-100).
+  fillPct: number;
+  // Product bounds in image pixels, or null if no product was found.
+  productBox: BoundingBox | null;
+  hasBorder: boolean;
+  checks: ComplianceCheck[];
+  // Transparent PNG highlighting problems, same aspect ratio as the image.
+  overlayUrl: string;
+}
+
+// Analysis runs on a downscaled copy; ratios do not need full resolution.
+const ANALYSIS_MAX_EDGE = 800;
+// Channel value above which a pixel is treated as (near) white background.
+const NEAR_WHITE = 235;
+const ASPECT_TOLERANCE = 0.02;
+
+// Rounded here; the message formats the digits for the active language.
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Finds the background as the near-white (or transparent) region connected to
+ * the image edges, so white parts inside the product are not counted as background.
+ * @param data RGBA pixels.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns 1 for each background pixel, 0 for the product.
+ */
+export const findBackground = (data: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const background = new Uint8Array(width * height);
+  const isNearWhite = (i: number) =>
+    data[i * 4 + 3] < 16 ||
+    (data[i * 4] >= NEAR_WHITE && data[i * 4 + 1] >= NEAR_WHITE && data[i * 4 + 2] >= NEAR_WHITE);
+
+  const stack: number[] = [];
+  const push = (i: number) => {
+    if (!background[i] && isNearWhite(i)) {
+      background[i] = 1;
+      stack.push(i);
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    push(x);
+    push((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    push(y * width);
+    push(y * width + width - 1);
+  }
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    if (x > 0) push(i - 1);
+    if (x < width - 1) push(i + 1);
+    if (i >= width) push(i - width);
+    if (i < width * (height - 1)) push(i + width);
+  }
+  return background;
+};
+
+/**
+ * Detects a solid frame: the outermost rows and columns are mostly one non-white colour.
+ */
+const detectBorder = (data: Uint8ClampedArray, width: number, height: number): boolean => {
+  const edgePixels: number[] = [];
+  for (let x = 0; x < width; x++) edgePixels.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) edgePixels.push(y * width, y * width + width - 1);
+
+  const first = edgePixels[0] * 4;
+  const reference = [data[first], data[first + 1], data[first + 2]];
+  if (reference.every(channel => channel >= NEAR_WHITE)) return false;
+
+  const matching = edgePixels.filter(i =>
+    Math.abs(data[i * 4] - reference[0]) < 24 &&
+    Math.abs(data[i * 4 + 1] - reference[1]) < 24 &&
+    Math.abs(data[i * 4 + 2] - reference[2]) < 24
+  ).length;
+  return matching / edgePixels.length > 0.9;
+};
+
+/**
+ * Analyses an image against a marketplace rule set.
+ * @param imageUrl The image to analyse (data URL or object URL).
+ * @param rules The rule set to check against.
+ * @returns A promise that resolves to the measurements, the pass/fail checks and a highlight overlay.
+ */
+export const analyseCompliance = async (imageUrl: string, rules: ComplianceRuleSet): Promise<ComplianceReport> => {
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, ANALYSIS_MAX_EDGE / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const background = findBackground(data, width, height);
+  const hasBorder = detectBorder(data, width, height);
+
+  let backgroundCount = 0;
+  let pureWhiteCount = 0;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  const { canvas: overlay, ctx: overlayCtx } = createCanvas(width, height);
+  const overlayData = overlayCtx.createImageData(width, height);
+
+  for (let i = 0; i < background.length; i++) {
+    const x = i % width;
+    const y = (i - x) / width;
+    if (background[i]) {
+      backgroundCount++;
+      const isPureWhite = data[i * 4] === 255 && data[i * 4 + 1] === 255 && data[i * 4 + 2] === 255;
+      if (isPureWhite || data[i * 4 + 3] < 16) {
+        pureWhiteCount++;
+      } else {
+        // Off-white background pixels are highlighted in red.
+        overlayData.data.set([239, 68, 68, 150], i * 4);
+      }
+    } else {
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  overlayCtx.putImageData(overlayData, 0, 0);
+
+  const productBox = maxX >= 0
+    ? { x: minX / scale, y: minY / scale, width: (maxX - minX + 1) / scale, height: (maxY - minY + 1) / scale }
+    : null;
+  const fillPct = productBox
+    ? Math.max(productBox.width / image.width, productBox.height / image.height) * 100
+    : 0;
+  const backgroundWhitePct = backgroundCount > 0 ? (pureWhiteCount / backgroundCount) * 100 : 0;
+
+  if (productBox) {
+    overlayCtx.strokeStyle = fillPct >= rules.minFill && fillPct <= rules.maxFill ? 'rgb(34, 197, 94)' : 'rgb(234, 179, 8)';
+    overlayCtx.lineWidth = Math.max(2, width / 200);
+    overlayCtx.setLineDash([8, 6]);
+    overlayCtx.strokeRect(productBox.x * scale, productBox.y * scale, productBox.width * scale, productBox.height * scale);
+  }
+  if (hasBorder) {
+    overlayCtx.strokeStyle = 'rgb(239, 68, 68)';
+    overlayCtx.lineWidth = Math.max(4, width / 100);
+    overlayCtx.setLineDash([]);
+    overlayCtx.strokeRect(0, 0, width, height);
+  }
+
+  const aspect = image.width / image.height;
+  const checks: ComplianceCheck[] = [
+    {
+      id: 'resolution',
+      label: 'compliance.check.resolution',
+      passed: image.width >= rules.minWidth && image.height >= rules.minHeight,
+      detail: {
+        key: 'compliance.detail.resolution',
+        // Pixel sizes are passed as text so they are not digit-grouped.
+        params: {
+          width: String(image.width),
+          height: String(image.height),
+          minWidth: String(rules.minWidth),
+          minHeight: String(rules.minHeight),
+        },
+      },
+    },
+    {
+      id: 'aspect',
+      label: 'compliance.check.aspect',
+      passed: rules.aspectRatio === null || Math.abs(aspect - rules.aspectRatio) <= ASPECT_TOLERANCE * rules.aspectRatio,
+      detail: rules.aspectRatio === null
+        ? { key: 'compliance.detail.anyAspect', params: { ratio: round(aspect, 2) } }
+        : { key: 'compliance.detail.aspect', params: { ratio: round(aspect, 2), required: round(rules.aspectRatio, 2) } },
+    },
+    {
+      id: 'background',
+      label: 'compliance.check.background',
+      passed: backgroundWhitePct >= rules.minWhiteBackground,
+      detail: { key: 'compliance.detail.background', params: { percent: round(backgroundWhitePct, 1), min: rules.minWhiteBackground } },
+    },
+    {
+      id: 'fill',
+      label: 'compliance.check.fill',
+      passed: fillPct >= rules.minFill && fillPct <= rules.maxFill,
+      detail: { key: 'compliance.detail.fill', params: { percent: round(fillPct, 1), min: rules.minFill, max: rules.maxFill } },
+    },
+  ];
+  if (rules.forbidBorders) {
+    checks.push({
+      id: 'border',
+      label: 'compliance.check.border',
+      passed: !hasBorder,
+      detail: { key: hasBorder ? 'compliance.detail.border' : 'compliance.detail.noBorder' },
+    });
+  }
+
+  return {
+    width: image.width,
+    height: image.height,
+    backgroundWhitePct,
+    fillPct,
+    productBox,
+    hasBorder,
+    checks,
+    overlayUrl: overlay.toDataURL('image/png'),
+  };
+};
+
+/**
+ * Fixes the geometric issues: re-centres the product on a pure white canvas with
+ * the rule set's aspect ratio, padded so the product fills the target share of the frame.
+ * @param imageUrl The image to fix.
+ * @param productBox The product bounds found by the analyser.
+ * @param rules The rule set to satisfy.
+ * @returns A promise that resolves to the base64-encoded PNG of the fixed image.
+ */
+export const autoFixCompliance = async (
+  imageUrl: string,
+  productBox: BoundingBox,
+  rules: ComplianceRuleSet
+): Promise<string> => {
+  const image = await loadImage(imageUrl);
+  // Aim for the middle of the accepted fill range.
+  const targetFill = (rules.minFill + rules.maxFill) / 200;
+  const ratio = rules.aspectRatio ?? image.width / image.height;
+
+  // Smallest frame with the required ratio in which the product fills the target share of the limiting side.
+  let frameWidth = Math.max(productBox.width / targetFill, (productBox.height / targetFill) * ratio);
+  let frameHeight = frameWidth / ratio;
+  // Never go below the minimum resolution; the product is scaled up if needed.
+  const upscale = Math.max(1, rules.minWidth / frameWidth, rules.minHeight / frameHeight);
+  frameWidth = Math.round(frameWidth * upscale);
+  frameHeight = Math.round(frameHeight * upscale);
+
+  const { canvas, ctx } = createCanvas(frameWidth, frameHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, frameWidth, frameHeight);
+  ctx.imageSmoothingQuality = 'high';
+  const drawWidth = productBox.width * upscale;
+  const drawHeight = productBox.height * upscale;
+  ctx.drawImage(
+    image,
+    productBox.x, productBox.y, productBox.width, productBox.height,
+    (frameWidth - drawWidth) / 2, (frameHeight - drawHeight) / 2, drawWidth, drawHeight
+  );
+  return canvasToBase64(canvas);
+};
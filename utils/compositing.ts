@@ -0,0 +1,107 @@
+import { CompositeSettings } from '../types';
+import { loadImage, createCanvas, canvasToBase64 } from './canvasUtils';
+
+// Band width (in pixels) used to sample seam colours when feathering is off.
+const MIN_SEAM_BAND = 6;
+
+/**
+ * Turns a black/white mask into per-pixel blend weights (0..1). The feather is
+ * applied inwards only, so every pixel outside the mask gets weight 0.
+ */
+const buildWeights = (
+  mask: HTMLImageElement,
+  width: number,
+  height: number,
+  featherRadius: number
+): { weights: Float32Array; seam: Float32Array } => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(mask, 0, 0, width, height);
+  const hard = ctx.getImageData(0, 0, width, height).data;
+
+  // Blurring the hard mask and remapping [0.5, 1] to [0, 1] ramps the edge inside the selection.
+  const blurAt = (radius: number): Uint8ClampedArray => {
+    const { ctx: blurCtx } = createCanvas(width, height);
+    blurCtx.filter = `blur(${radius / 2}px)`;
+    blurCtx.drawImage(mask, 0, 0, width, height);
+    return blurCtx.getImageData(0, 0, width, height).data;
+  };
+
+  const weights = new Float32Array(width * height);
+  const feathered = featherRadius > 0 ? blurAt(featherRadius) : null;
+  const band = blurAt(Math.max(featherRadius, MIN_SEAM_BAND));
+  const seam = new Float32Array(width * height);
+
+  for (let i = 0; i < weights.length; i++) {
+    const inside = hard[i * 4] >= 128;
+    if (!inside) continue;
+    weights[i] = feathered ? Math.max(0, Math.min(1, (feathered[i * 4] / 255 - 0.5) * 2)) : 1;
+    const b = band[i * 4] / 255;
+    // Pixels just inside the edge, used to compare colours on both images.
+    seam[i] = b < 0.95 ? 1 : 0;
+  }
+  return { weights, seam };
+};
+
+/**
+ * Blends only the masked region of a model output onto the previous image, so
+ * that everything outside the selection stays pixel-identical.
+ * @param baseUrl The image the area edit was requested on (data URL).
+ * @param resultUrl The image returned by the model (data URL); it is resized to the base if needed.
+ * @param maskBase64 The base64-encoded black/white PNG mask sent to the model.
+ * @param settings Feather radius and colour matching options.
+ * @returns A promise that resolves to the base64-encoded PNG of the composited image.
+ */
+export const compositeMaskedEdit = async (
+  baseUrl: string,
+  resultUrl: string,
+  maskBase64: string,
+  settings: Pick<CompositeSettings, 'featherRadius' | 'matchColors'>
+): Promise<string> => {
+  const [base, result, mask] = await Promise.all([
+    loadImage(baseUrl),
+    loadImage(resultUrl),
+    loadImage(`data:image/png;base64,${maskBase64}`),
+  ]);
+  const width = base.width;
+  const height = base.height;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(base, 0, 0);
+  const output = ctx.getImageData(0, 0, width, height);
+
+  const { ctx: resultCtx } = createCanvas(width, height);
+  resultCtx.drawImage(result, 0, 0, width, height);
+  const edited = resultCtx.getImageData(0, 0, width, height).data;
+
+  const { weights, seam } = buildWeights(mask, width, height, settings.featherRadius);
+  const px = output.data;
+
+  // Average colour difference along the seam, applied to the whole edited region.
+  const offset = [0, 0, 0];
+  if (settings.matchColors) {
+    const sums = [0, 0, 0];
+    let count = 0;
+    for (let i = 0; i < seam.length; i++) {
+      if (!seam[i]) continue;
+      for (let c = 0; c < 3; c++) sums[c] += px[i * 4 + c] - edited[i * 4 + c];
+      count++;
+    }
+    if (count > 0) {
+      for (let c = 0; c < 3; c++) offset[c] = sums[c] / count;
+    }
+  }
+
+  for (let i = 0; i < weights.length; i++) {
+    const w = weights[i];
+    if (w === 0) continue;
+    const o = i * 4;
+    for (let c = 0; c < 3; c++) {
+      const matched = edited[o + c] + offset[c];
+      px[o + c] = px[o + c] * (1 - w) + matched * w;
+    }
+    px[o + 3] = px[o + 3] * (1 - w) + edited[o + 3] * w;
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvasToBase64(canvas);
+};
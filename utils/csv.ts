@@ -0,0 +1,71 @@
+// Spreadsheet apps read a leading byte-order mark as "this file is UTF-8".
+const BOM = '\uFEFF';
+
+// Spreadsheets run text starting with these as a formula; a leading quote keeps it text.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number | null | undefined): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  // Numbers are written by the app itself, so negative values stay numeric.
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV document (RFC 4180, comma separated) from rows of cells. Text
+ * cells that a spreadsheet would run as a formula are prefixed with a quote.
+ * @param rows The rows, header first.
+ * @returns The CSV text, prefixed with a BOM so spreadsheets detect UTF-8.
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+  BOM + rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Parses CSV text (RFC 4180) into rows of cells. The delimiter is a comma, or a
+ * semicolon when the first line has more of those, as spreadsheets write in
+ * locales that use the comma for decimals.
+ * @param text The CSV document.
+ * @returns The rows, without trailing empty lines.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.startsWith(BOM) ? text.slice(1) : text;
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  while (rows.length > 0 && rows[rows.length - 1].every(value => value.trim() === '')) rows.pop();
+  return rows;
+};
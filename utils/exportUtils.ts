@@ -0,0 +1,263 @@
+import { ExportFormat, ExportProfile, ImageAdjustments, SourceFile } from '../types';
+import { loadImage, createCanvas } from './canvasUtils';
+import { stripExtension } from './fileUtils';
+import { renderAdjustments } from './adjustments';
+import { Locale, LocalizedError, MessageKey, formatFileDate, translate } from '../i18n';
+
+const PROFILES_STORAGE_KEY = 'exportProfiles';
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+export const DEFAULT_EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'mercado-livre',
+    name: 'Mercado Livre 1200×1200 JPEG 85',
+    format: 'image/jpeg',
+    quality: 85,
+    sizeMode: 'exact',
+    maxDimension: 1200,
+    width: 1200,
+    height: 1200,
+    fit: 'pad',
+    background: '#ffffff',
+    filenameTemplate: '{sku}_{nome}_ml',
+  },
+  {
+    id: 'instagram',
+    name: 'Instagram 1080×1350',
+    format: 'image/jpeg',
+    quality: 90,
+    sizeMode: 'exact',
+    maxDimension: 1350,
+    width: 1080,
+    height: 1350,
+    fit: 'crop',
+    background: '#ffffff',
+    filenameTemplate: '{nome}_instagram_{data}',
+  },
+  {
+    id: 'png-original',
+    name: 'PNG tamanho original',
+    format: 'image/png',
+    quality: 100,
+    sizeMode: 'original',
+    maxDimension: 4000,
+    width: 2000,
+    height: 2000,
+    fit: 'pad',
+    background: null,
+    filenameTemplate: '{nome}_editado',
+  },
+];
+
+const BUILT_IN_PROFILE_NAMES: Record<string, MessageKey> = {
+  'mercado-livre': 'export.profile.mercadoLivre',
+  instagram: 'export.profile.instagram',
+  'png-original': 'export.profile.pngOriginal',
+};
+
+/**
+ * Names a profile in the active language. Built-in presets are translated
+ * until the user renames them; saved names are shown as typed.
+ * @param profile The profile.
+ * @param locale The language to show built-in names in.
+ */
+export const exportProfileName = (profile: ExportProfile, locale: Locale): string => {
+  const builtIn = DEFAULT_EXPORT_PROFILES.find(preset => preset.id === profile.id);
+  return builtIn && builtIn.name === profile.name ? translate(locale, BUILT_IN_PROFILE_NAMES[profile.id]) : profile.name;
+};
+
+/**
+ * Loads the saved export profiles, falling back to the built-in channel presets.
+ */
+export const loadExportProfiles = (): ExportProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+    }
+  } catch (error) {
+    console.error("Error reading export profiles:", error);
+  }
+  return DEFAULT_EXPORT_PROFILES;
+};
+
+/**
+ * Persists the export profiles in local storage.
+ * @param profiles The profiles to save.
+ */
+export const saveExportProfiles = (profiles: ExportProfile[]): void => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+interface FileNameContext {
+  // Language of the date format and of the fallback names.
+  locale: Locale;
+  sourceName?: string;
+  sku?: string;
+  date?: Date;
+  width: number;
+  height: number;
+}
+
+type FileNameToken = 'name' | 'sku' | 'date' | 'time' | 'profile' | 'width' | 'height';
+
+// Token spellings per language. Every spelling works whatever the active
+// language, so saved templates keep working after switching.
+const FILENAME_TOKENS: Record<Locale, Record<FileNameToken, string>> = {
+  'pt-BR': { name: 'nome', sku: 'sku', date: 'data', time: 'hora', profile: 'perfil', width: 'largura', height: 'altura' },
+  en: { name: 'name', sku: 'sku', date: 'date', time: 'time', profile: 'profile', width: 'width', height: 'height' },
+  es: { name: 'nombre', sku: 'sku', date: 'fecha', time: 'hora', profile: 'perfil', width: 'ancho', height: 'alto' },
+};
+
+/**
+ * Lists the filename template tokens as written in a language, e.g. "{nome}".
+ * @param locale The language of the token names.
+ */
+export const getFileNameTokens = (locale: Locale): string[] =>
+  Object.values(FILENAME_TOKENS[locale]).map(token => `{${token}}`);
+
+// Keeps file names portable across operating systems.
+const sanitizeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-').replace(/\s+/g, ' ').replace(/^[-_. ]+|[-_. ]+$/g, '');
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Expands a filename template for an export.
+ * @param profile The export profile, providing the template, name and format.
+ * @param context Values for the template tokens.
+ * @returns The file name, including the extension of the profile's format.
+ */
+export const buildExportFileName = (profile: ExportProfile, context: FileNameContext): string => {
+  const date = context.date ?? new Date();
+  const { locale } = context;
+  const defaultName = translate(locale, 'export.defaultName');
+  const values: Record<FileNameToken, string> = {
+    name: context.sourceName ? stripExtension(context.sourceName) : defaultName,
+    sku: context.sku?.trim() || translate(locale, 'export.noSku'),
+    date: formatFileDate(locale, date),
+    time: `${pad2(date.getHours())}${pad2(date.getMinutes())}${pad2(date.getSeconds())}`,
+    profile: exportProfileName(profile, locale),
+    width: String(context.width),
+    height: String(context.height),
+  };
+  const tokens: Record<string, string> = {};
+  for (const names of Object.values(FILENAME_TOKENS)) {
+    for (const [token, name] of Object.entries(names) as [FileNameToken, string][]) {
+      tokens[name] = values[token];
+    }
+  }
+  const expanded = profile.filenameTemplate.replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match);
+  return `${sanitizeFileName(expanded) || defaultName}.${FORMAT_EXTENSIONS[profile.format]}`;
+};
+
+/**
+ * Computes the output size of an export for a source image.
+ * @param profile The export profile.
+ * @param sourceWidth The source image width.
+ * @param sourceHeight The source image height.
+ */
+export const getExportSize = (
+  profile: ExportProfile,
+  sourceWidth: number,
+  sourceHeight: number
+): { width: number; height: number } => {
+  if (profile.sizeMode === 'exact') {
+    return { width: Math.max(1, Math.round(profile.width)), height: Math.max(1, Math.round(profile.height)) };
+  }
+  if (profile.sizeMode === 'max') {
+    const scale = Math.min(1, profile.maxDimension / Math.max(sourceWidth, sourceHeight));
+    return { width: Math.max(1, Math.round(sourceWidth * scale)), height: Math.max(1, Math.round(sourceHeight * scale)) };
+  }
+  return { width: sourceWidth, height: sourceHeight };
+};
+
+/**
+ * Downscales in steps of at most 2x, which avoids the aliasing of a single large reduction.
+ */
+const resampleImage = (image: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number, height: number): CanvasImageSource => {
+  let current: CanvasImageSource = image;
+  let currentWidth = sourceWidth;
+  let currentHeight = sourceHeight;
+  while (currentWidth / 2 > width && currentHeight / 2 > height) {
+    const nextWidth = Math.round(currentWidth / 2);
+    const nextHeight = Math.round(currentHeight / 2);
+    const { canvas, ctx } = createCanvas(nextWidth, nextHeight);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(current, 0, 0, nextWidth, nextHeight);
+    current = canvas;
+    currentWidth = nextWidth;
+    currentHeight = nextHeight;
+  }
+  return current;
+};
+
+/**
+ * Renders a version from the uploaded file at its full resolution by replaying
+ * the adjustment steps on it, rather than enlarging the downscaled copy that was edited.
+ * @param source The uploaded file.
+ * @param steps The adjustment settings of each step, oldest first (see getAdjustmentSteps).
+ * @returns A promise that resolves to a canvas with the version at full resolution.
+ */
+export const renderSourceFile = async (source: SourceFile, steps: ImageAdjustments[]): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(source.blob, { imageOrientation: 'from-image' });
+  const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return steps.reduce((image, adjustments) => renderAdjustments(image, image.width, image.height, adjustments), canvas);
+};
+
+/**
+ * Renders an image with the size, fit, background and format of an export profile.
+ * @param imageSource The image to export: a data URL or object URL, or a rendered canvas.
+ * @param profile The export profile.
+ * @param sourceScale Factor from the image up to the resolution of the uploaded
+ * file, so "original" and "max" sizes refer to the full-resolution upload rather
+ * than the downscaled copy that was edited. The image is enlarged, so this sets
+ * the pixel size only; detail lost to the downscaling does not come back.
+ * @returns A promise that resolves to the encoded file and its pixel size.
+ */
+export const renderExport = async (
+  imageSource: string | HTMLCanvasElement,
+  profile: ExportProfile,
+  sourceScale = 1
+): Promise<{ blob: Blob; width: number; height: number }> => {
+  const image = typeof imageSource === 'string' ? await loadImage(imageSource) : imageSource;
+  const { width, height } = getExportSize(
+    profile,
+    Math.round(image.width * sourceScale),
+    Math.round(image.height * sourceScale)
+  );
+
+  // Fit the source into the output box: scale to fit for pad, scale to fill for crop.
+  const scale = profile.sizeMode === 'exact'
+    ? (profile.fit === 'crop' ? Math.max : Math.min)(width / image.width, height / image.height)
+    : width / image.width;
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  // JPEG has no alpha channel, so it always needs a fill colour.
+  const background = profile.background ?? (profile.format === 'image/jpeg' ? '#ffffff' : null);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  const source = resampleImage(image, image.width, image.height, Math.round(drawWidth), Math.round(drawHeight));
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  const blob = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(resolve, profile.format, profile.format === 'image/png' ? undefined : profile.quality / 100)
+  );
+  if (!blob) {
+    throw new LocalizedError('errors.exportFailed');
+  }
+  return { blob, width, height };
+};
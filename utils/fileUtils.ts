@@ -35,3 +35,93 @@ export const fileToBase64 = (file: File): Promise<{ base64: string; mimeType: st
     };
   });
 };
+
+/**
+ * Splits a base64 data URL into its raw base64 payload and MIME type.
+ * @param dataUrl The data URL to split, e.g. "data:image/png;base64,...".
+ * @returns An object with the base64 string and MIME type, or null if the URL is malformed.
+ */
+export const dataUrlToBase64 = (dataUrl: string): { base64: string; mimeType: string } | null => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeTypeMatch = header?.match(/:(.*?);/);
+  if (!base64 || !mimeTypeMatch) {
+    return null;
+  }
+  return { base64, mimeType: mimeTypeMatch[1] };
+};
+
+/**
+ * Decodes a base64 string (without the data URL prefix) into raw bytes.
+ * @param base64 The base64-encoded data.
+ * @returns The decoded bytes.
+ */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Returns the file name without its extension, e.g. "produto-01" for "produto-01.jpg".
+ * @param fileName The file name to strip.
+ */
+export const stripExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
+
+/**
+ * Triggers a browser download for a URL (data URL or object URL).
+ * @param url The URL to download.
+ * @param fileName The suggested file name.
+ */
+export const downloadUrl = (url: string, fileName: string): void => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Triggers a browser download for a Blob and releases its object URL afterwards.
+ * @param blob The data to download.
+ * @param fileName The suggested file name.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Converts a base64 data URL into a Blob.
+ * @param dataUrl The data URL to convert.
+ * @returns The decoded Blob, typed with the data URL's MIME type.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const parsed = dataUrlToBase64(dataUrl);
+  if (!parsed) {
+    throw new Error('Invalid data URL.');
+  }
+  return new Blob([base64ToBytes(parsed.base64)], { type: parsed.mimeType });
+};
+
+/**
+ * Reads a Blob as a base64 data URL.
+ * @param blob The Blob to read.
+ * @returns A promise that resolves with the data URL.
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(blob);
+  });
+};
@@ -0,0 +1,157 @@
+import { EditHistory, HistoryNode, ImageAdjustments } from '../types';
+
+// Key used in `redoTargets` for nodes that descend directly from the original image.
+const ROOT_KEY = '__root__';
+
+const parentKey = (parentId: string | null): string => parentId ?? ROOT_KEY;
+
+/**
+ * Creates an empty edit history.
+ * @returns A history with no versions and no current node.
+ */
+export const createEmptyHistory = (): EditHistory => ({
+  nodes: {},
+  order: [],
+  currentId: null,
+  redoTargets: {},
+});
+
+/**
+ * Points every ancestor of the given node at the branch leading to it, so that
+ * redo walks back down the path the user last visited.
+ */
+const withRedoPath = (history: EditHistory, nodeId: string | null): Record<string, string> => {
+  const redoTargets = { ...history.redoTargets };
+  let node = nodeId ? history.nodes[nodeId] : undefined;
+  while (node) {
+    redoTargets[parentKey(node.parentId)] = node.id;
+    node = node.parentId ? history.nodes[node.parentId] : undefined;
+  }
+  return redoTargets;
+};
+
+/**
+ * Adds a new version to the history and makes it the current one.
+ * @param history The current history.
+ * @param node The new version, without id and timestamp.
+ * @returns The updated history.
+ */
+export const addHistoryNode = (
+  history: EditHistory,
+  node: Omit<HistoryNode, 'id' | 'createdAt'>
+): EditHistory => {
+  const newNode: HistoryNode = {
+    ...node,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+  };
+  const next: EditHistory = {
+    ...history,
+    nodes: { ...history.nodes, [newNode.id]: newNode },
+    order: [...history.order, newNode.id],
+    currentId: newNode.id,
+  };
+  return { ...next, redoTargets: withRedoPath(next, newNode.id) };
+};
+
+/**
+ * Adds several sibling versions at once, such as the variants of one request,
+ * and makes the first of them the current one.
+ * @param history The current history.
+ * @param nodes The new versions, without id and timestamp.
+ * @returns The updated history.
+ */
+export const addHistoryNodes = (
+  history: EditHistory,
+  nodes: Omit<HistoryNode, 'id' | 'createdAt'>[]
+): EditHistory => {
+  if (nodes.length === 0) return history;
+  const next = nodes.reduce(addHistoryNode, history);
+  return checkoutHistoryNode(next, next.order[history.order.length]);
+};
+
+/**
+ * Stars or unstars a version.
+ * @param history The current history.
+ * @param nodeId The version to toggle.
+ * @returns The updated history.
+ */
+export const toggleHistoryNodeStar = (history: EditHistory, nodeId: string): EditHistory => {
+  const node = history.nodes[nodeId];
+  if (!node) return history;
+  return { ...history, nodes: { ...history.nodes, [nodeId]: { ...node, starred: !node.starred } } };
+};
+
+/**
+ * Makes the given version the current one.
+ * @param history The current history.
+ * @param nodeId The id of the version to show, or null for the original image.
+ * @returns The updated history.
+ */
+export const checkoutHistoryNode = (history: EditHistory, nodeId: string | null): EditHistory => {
+  if (nodeId !== null && !history.nodes[nodeId]) return history;
+  return { ...history, currentId: nodeId, redoTargets: withRedoPath(history, nodeId) };
+};
+
+export const canUndo = (history: EditHistory): boolean => history.currentId !== null;
+
+export const canRedo = (history: EditHistory): boolean =>
+  Boolean(history.redoTargets[parentKey(history.currentId)]);
+
+/**
+ * Moves to the parent of the current version.
+ * @param history The current history.
+ * @returns The updated history.
+ */
+export const undoHistory = (history: EditHistory): EditHistory => {
+  if (!history.currentId) return history;
+  const current = history.nodes[history.currentId];
+  // Redo targets are left untouched so that redo returns to the version we just left.
+  return { ...history, currentId: current.parentId };
+};
+
+/**
+ * Moves to the child of the current version that was visited last.
+ * @param history The current history.
+ * @returns The updated history.
+ */
+export const redoHistory = (history: EditHistory): EditHistory => {
+  const targetId = history.redoTargets[parentKey(history.currentId)];
+  if (!targetId) return history;
+  return { ...history, currentId: targetId };
+};
+
+/**
+ * Returns the ids of the given version and all of its ancestors.
+ * @param history The current history.
+ * @param nodeId The version to start from.
+ * @returns A set with the ids on the path from the original image to the node.
+ */
+export const getHistoryPath = (history: EditHistory, nodeId: string | null): Set<string> => {
+  const path = new Set<string>();
+  let node = nodeId ? history.nodes[nodeId] : undefined;
+  while (node) {
+    path.add(node.id);
+    node = node.parentId ? history.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+/**
+ * Lists the adjustment panel settings that lead from the original image to a
+ * version, so the version can be rendered again from another copy of the original.
+ * @param history The current history.
+ * @param nodeId The version, or null for the original image.
+ * @returns The settings of each step, oldest first, or null when a step was an
+ * AI edit or a local edit that cannot be replayed, such as a cutout.
+ */
+export const getAdjustmentSteps = (history: EditHistory, nodeId: string | null): ImageAdjustments[] | null => {
+  const steps: ImageAdjustments[] = [];
+  let node = nodeId ? history.nodes[nodeId] : undefined;
+  while (node) {
+    if (node.kind !== 'adjust' || !node.adjustments) return null;
+    steps.unshift(node.adjustments);
+    node = node.parentId ? history.nodes[node.parentId] : undefined;
+  }
+  return steps;
+};
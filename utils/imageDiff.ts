@@ -0,0 +1,67 @@
+import { loadImage, createCanvas } from './canvasUtils';
+
+export interface DiffResult {
+  // Heatmap PNG (data URL) at the size of the "after" image.
+  heatmapUrl: string;
+  // Share of pixels whose largest channel difference exceeds the threshold (0-100).
+  changedPct: number;
+}
+
+// Differences below this (0-255) are treated as encoding noise.
+const CHANGE_THRESHOLD = 12;
+
+// Maps a 0..1 intensity to a transparent → yellow → red ramp.
+const heatColor = (t: number): [number, number, number, number] => {
+  if (t <= 0) return [0, 0, 0, 0];
+  const alpha = Math.round(80 + 175 * t);
+  return t < 0.5 ? [255, Math.round(255 - 90 * t * 2), 0, alpha] : [255, Math.round(165 * (1 - t) * 2), 0, alpha];
+};
+
+/**
+ * Builds a pixel-difference heatmap between two versions of an image, to spot
+ * unintended changes such as altered logos or label text.
+ * @param beforeUrl The earlier image; it is resized to the later one if sizes differ.
+ * @param afterUrl The later image.
+ * @returns A promise that resolves to the heatmap and the share of changed pixels.
+ */
+export const computeDiffHeatmap = async (beforeUrl: string, afterUrl: string): Promise<DiffResult> => {
+  const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)]);
+  const width = after.width;
+  const height = after.height;
+
+  const { ctx: beforeCtx } = createCanvas(width, height);
+  beforeCtx.drawImage(before, 0, 0, width, height);
+  const a = beforeCtx.getImageData(0, 0, width, height).data;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(after, 0, 0);
+  const afterData = ctx.getImageData(0, 0, width, height);
+  const b = afterData.data;
+
+  const out = ctx.createImageData(width, height);
+  let changed = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const diff = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+    // Dimmed greyscale of the result underneath so the heat can be located on the product.
+    const grey = Math.round((b[i] * 0.299 + b[i + 1] * 0.587 + b[i + 2] * 0.114) * 0.5 + 64);
+    if (diff > CHANGE_THRESHOLD) {
+      changed++;
+      const [r, g, bl, alpha] = heatColor(Math.min(1, diff / 128));
+      const mix = alpha / 255;
+      out.data[i] = Math.round(r * mix + grey * (1 - mix));
+      out.data[i + 1] = Math.round(g * mix + grey * (1 - mix));
+      out.data[i + 2] = Math.round(bl * mix + grey * (1 - mix));
+    } else {
+      out.data[i] = grey;
+      out.data[i + 1] = grey;
+      out.data[i + 2] = grey;
+    }
+    out.data[i + 3] = 255;
+  }
+  ctx.putImageData(out, 0, 0);
+
+  return {
+    heatmapUrl: canvas.toDataURL('image/png'),
+    changedPct: (changed / (width * height)) * 100,
+  };
+};
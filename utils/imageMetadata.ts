@@ -0,0 +1,306 @@
+import { crc32 } from './zip';
+
+/**
+ * Reads and writes text metadata in encoded image files without re-encoding
+ * the pixels: PNG text chunks, and XMP packets in JPEG and WebP.
+ */
+
+export type MetadataFormat = 'png' | 'jpeg' | 'webp';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Identifies the APP1 segment holding XMP, as opposed to the one holding Exif.
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+// A JPEG segment length is 16 bits and counts its own two bytes.
+export const MAX_JPEG_XMP_BYTES = 0xffff - 2 - JPEG_XMP_HEADER.length;
+const WEBP_XMP_FLAG = 0x04;
+
+const textEncoder = new TextEncoder();
+const utf8Decoder = new TextDecoder();
+const latin1Decoder = new TextDecoder('latin1');
+
+const latin1Bytes = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => (char.charCodeAt(0) <= 0xff ? char.charCodeAt(0) : 0x3f));
+
+const asciiAt = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * Tells the container format of an encoded image from its first bytes.
+ * @param bytes The file contents.
+ * @returns The format, or null for formats without metadata support.
+ */
+export const detectMetadataFormat = (bytes: Uint8Array): MetadataFormat | null => {
+  if (PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (asciiAt(bytes, 0, 4) === 'RIFF' && asciiAt(bytes, 8, 4) === 'WEBP') return 'webp';
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+export interface PngTextEntry {
+  keyword: string;
+  text: string;
+  // iTXt holds UTF-8 text; tEXt is limited to Latin-1.
+  international?: boolean;
+}
+
+const buildPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1Bytes(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const buildPngTextChunk = ({ keyword, text, international }: PngTextEntry): Uint8Array => {
+  if (!international) {
+    return buildPngChunk('tEXt', concatBytes([latin1Bytes(keyword), new Uint8Array([0]), latin1Bytes(text)]));
+  }
+  // Keyword, then compression flag and method (uncompressed), empty language tag and translated keyword.
+  return buildPngChunk('iTXt', concatBytes([
+    latin1Bytes(keyword),
+    new Uint8Array([0, 0, 0, 0, 0]),
+    textEncoder.encode(text),
+  ]));
+};
+
+const forEachPngChunk = (bytes: Uint8Array, visit: (type: string, start: number, dataStart: number, length: number) => void) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = asciiAt(bytes, offset + 4, 4);
+    visit(type, offset, offset + 8, length);
+    if (type === 'IEND') return;
+    offset += 12 + length;
+  }
+};
+
+const readPngKeyword = (bytes: Uint8Array, dataStart: number, length: number): string => {
+  const data = bytes.subarray(dataStart, dataStart + length);
+  const end = data.indexOf(0);
+  return latin1Decoder.decode(data.subarray(0, end < 0 ? data.length : end));
+};
+
+/**
+ * Adds text chunks to a PNG, right after its header so readers that stop
+ * early still see them. Existing chunks with the same keywords are dropped.
+ * @param bytes The PNG file.
+ * @param entries The keyword/text pairs to add.
+ * @returns The new file.
+ */
+export const addPngTextChunks = (bytes: Uint8Array, entries: PngTextEntry[]): Uint8Array => {
+  const keywords = new Set(entries.map(entry => entry.keyword));
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  forEachPngChunk(bytes, (type, start, dataStart, length) => {
+    const chunk = bytes.subarray(start, dataStart + length + 4);
+    if ((type === 'tEXt' || type === 'iTXt') && keywords.has(readPngKeyword(bytes, dataStart, length))) return;
+    parts.push(chunk);
+    if (type === 'IHDR') parts.push(...entries.map(buildPngTextChunk));
+  });
+  return concatBytes(parts);
+};
+
+/**
+ * Reads the uncompressed tEXt and iTXt chunks of a PNG.
+ * @param bytes The PNG file.
+ * @returns The text of each keyword; compressed chunks are skipped.
+ */
+export const readPngTextChunks = (bytes: Uint8Array): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  forEachPngChunk(bytes, (type, _start, dataStart, length) => {
+    if (type !== 'tEXt' && type !== 'iTXt') return;
+    const data = bytes.subarray(dataStart, dataStart + length);
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd < 0) return;
+    const keyword = latin1Decoder.decode(data.subarray(0, keywordEnd));
+    if (type === 'tEXt') {
+      entries[keyword] = latin1Decoder.decode(data.subarray(keywordEnd + 1));
+      return;
+    }
+    if (data[keywordEnd + 1] !== 0) return;
+    const languageEnd = data.indexOf(0, keywordEnd + 3);
+    const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+    if (translatedEnd < 0) return;
+    entries[keyword] = utf8Decoder.decode(data.subarray(translatedEnd + 1));
+  });
+  return entries;
+};
+
+// ---------------------------------------------------------------------------
+// JPEG
+// ---------------------------------------------------------------------------
+
+interface JpegSegment {
+  marker: number;
+  // The whole segment, marker and length included.
+  bytes: Uint8Array;
+}
+
+const isJpegXmpSegment = ({ marker, bytes }: JpegSegment): boolean =>
+  marker === 0xe1 && latin1Decoder.decode(bytes.subarray(4, 4 + JPEG_XMP_HEADER.length)) === JPEG_XMP_HEADER;
+
+/**
+ * Splits a JPEG into the marker segments after SOI and everything from the
+ * start of scan on, where the entropy-coded data leaves no more metadata.
+ */
+const splitJpeg = (bytes: Uint8Array): { segments: JpegSegment[]; rest: Uint8Array } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker: bytes[offset + 1], bytes: bytes.subarray(offset, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return { segments, rest: bytes.subarray(offset) };
+};
+
+const embedJpegXmp = (bytes: Uint8Array, xmp: string): Uint8Array => {
+  const packet = textEncoder.encode(xmp);
+  if (packet.length > MAX_JPEG_XMP_BYTES) {
+    throw new RangeError(`XMP packet of ${packet.length} bytes does not fit in a JPEG segment.`);
+  }
+  const length = 2 + JPEG_XMP_HEADER.length + packet.length;
+  const xmpSegment: JpegSegment = {
+    marker: 0xe1,
+    bytes: concatBytes([new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]), latin1Bytes(JPEG_XMP_HEADER), packet]),
+  };
+  const { segments, rest } = splitJpeg(bytes);
+  const kept = segments.filter(segment => !isJpegXmpSegment(segment));
+  // Readers expect the JFIF and Exif headers first, so XMP goes right after them.
+  let insertAt = 0;
+  while (insertAt < kept.length && (kept[insertAt].marker === 0xe0 || kept[insertAt].marker === 0xe1)) insertAt++;
+  kept.splice(insertAt, 0, xmpSegment);
+  return concatBytes([bytes.subarray(0, 2), ...kept.map(segment => segment.bytes), rest]);
+};
+
+const readJpegXmp = (bytes: Uint8Array): string | null => {
+  const segment = splitJpeg(bytes).segments.find(isJpegXmpSegment);
+  return segment ? utf8Decoder.decode(segment.bytes.subarray(4 + JPEG_XMP_HEADER.length)) : null;
+};
+
+// ---------------------------------------------------------------------------
+// WebP
+// ---------------------------------------------------------------------------
+
+interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+const readRiffChunks = (bytes: Uint8Array): RiffChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc: asciiAt(bytes, offset, 4), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even size.
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+const writeRiffChunks = (chunks: RiffChunk[]): Uint8Array => {
+  const parts = chunks.map(({ fourcc, data }) => {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(latin1Bytes(fourcc), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+  });
+  const body = concatBytes(parts);
+  const header = new Uint8Array(12);
+  header.set(latin1Bytes('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(latin1Bytes('WEBP'), 8);
+  return concatBytes([header, body]);
+};
+
+// Builds the extended header that simple (VP8/VP8L-only) files lack, which metadata chunks require.
+const createVp8xChunk = (image: RiffChunk): RiffChunk => {
+  const { data } = image;
+  let width: number;
+  let height: number;
+  let hasAlpha = false;
+  if (image.fourcc === 'VP8L') {
+    const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    hasAlpha = ((bits >>> 28) & 1) === 1;
+  } else {
+    width = ((data[6] | (data[7] << 8)) & 0x3fff);
+    height = ((data[8] | (data[9] << 8)) & 0x3fff);
+  }
+  const header = new Uint8Array(10);
+  header[0] = hasAlpha ? 0x10 : 0;
+  const writeUint24 = (offset: number, value: number) => {
+    header[offset] = value & 0xff;
+    header[offset + 1] = (value >> 8) & 0xff;
+    header[offset + 2] = (value >> 16) & 0xff;
+  };
+  writeUint24(4, width - 1);
+  writeUint24(7, height - 1);
+  return { fourcc: 'VP8X', data: header };
+};
+
+const embedWebpXmp = (bytes: Uint8Array, xmp: string): Uint8Array => {
+  let chunks = readRiffChunks(bytes).filter(chunk => chunk.fourcc !== 'XMP ');
+  if (chunks[0]?.fourcc !== 'VP8X') {
+    const image = chunks.find(chunk => chunk.fourcc === 'VP8 ' || chunk.fourcc === 'VP8L');
+    if (!image) throw new RangeError('The WebP file has no image data.');
+    chunks = [createVp8xChunk(image), ...chunks];
+  }
+  const vp8x = new Uint8Array(chunks[0].data);
+  vp8x[0] |= WEBP_XMP_FLAG;
+  // Metadata chunks come after the image data.
+  return writeRiffChunks([{ fourcc: 'VP8X', data: vp8x }, ...chunks.slice(1), { fourcc: 'XMP ', data: textEncoder.encode(xmp) }]);
+};
+
+const readWebpXmp = (bytes: Uint8Array): string | null => {
+  const chunk = readRiffChunks(bytes).find(({ fourcc }) => fourcc === 'XMP ');
+  return chunk ? utf8Decoder.decode(chunk.data) : null;
+};
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Stores an XMP packet in a JPEG or WebP file, replacing any existing one.
+ * @param bytes The file.
+ * @param xmp The XMP packet.
+ * @returns The new file.
+ * @throws A RangeError when the file is not a JPEG or WebP, or the packet is too large.
+ */
+export const embedXmp = (bytes: Uint8Array, xmp: string): Uint8Array => {
+  const format = detectMetadataFormat(bytes);
+  if (format === 'jpeg') return embedJpegXmp(bytes, xmp);
+  if (format === 'webp') return embedWebpXmp(bytes, xmp);
+  throw new RangeError('XMP can only be embedded in JPEG and WebP files here.');
+};
+
+/**
+ * Reads the XMP packet of a PNG, JPEG or WebP file.
+ * @param bytes The file.
+ * @returns The packet, or null if there is none.
+ */
+export const readXmp = (bytes: Uint8Array): string | null => {
+  switch (detectMetadataFormat(bytes)) {
+    case 'png': return readPngTextChunks(bytes)['XML:com.adobe.xmp'] ?? null;
+    case 'jpeg': return readJpegXmp(bytes);
+    case 'webp': return readWebpXmp(bytes);
+    default: return null;
+  }
+};
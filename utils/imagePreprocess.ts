@@ -0,0 +1,288 @@
+import { OriginalImage, UploadSettings } from '../types';
+import { createCanvas } from './canvasUtils';
+import { fileToBase64, blobToDataUrl, dataUrlToBase64 } from './fileUtils';
+import { LocalizedError, LocalizedMessage, MessageKey } from '../i18n';
+
+const SETTINGS_STORAGE_KEY = 'uploadSettings';
+
+// Formats every edit provider accepts; anything else is converted before upload.
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const FORMAT_LABELS: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+};
+
+const JPEG_QUALITY = 0.92;
+
+const ORIENTATION_NOTES: Record<number, MessageKey> = {
+  2: 'upload.orientation.2',
+  3: 'upload.orientation.3',
+  4: 'upload.orientation.4',
+  5: 'upload.orientation.5',
+  6: 'upload.orientation.6',
+  7: 'upload.orientation.7',
+  8: 'upload.orientation.8',
+};
+
+export const DEFAULT_UPLOAD_SETTINGS: UploadSettings = {
+  maxEdge: 2048,
+  format: 'auto',
+  keepMetadata: false,
+};
+
+/**
+ * Loads the saved upload preprocessing settings.
+ */
+export const loadUploadSettings = (): UploadSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_UPLOAD_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Error reading upload settings:", error);
+  }
+  return DEFAULT_UPLOAD_SETTINGS;
+};
+
+/**
+ * Persists the upload preprocessing settings in local storage.
+ * @param settings The settings to save.
+ */
+export const saveUploadSettings = (settings: UploadSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+interface JpegSegment {
+  // Offset of the segment's marker in the file.
+  start: number;
+  bytes: Uint8Array;
+}
+
+interface JpegInfo {
+  orientation: number;
+  // File offset of the orientation value, so copied EXIF can be reset to 1.
+  orientationOffset: number | null;
+  littleEndian: boolean;
+  isCmyk: boolean;
+  // APP1 segments (EXIF and XMP), including their markers.
+  metadataSegments: JpegSegment[];
+}
+
+const readJpegInfo = (bytes: Uint8Array): JpegInfo => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const info: JpegInfo = { orientation: 1, orientationOffset: null, littleEndian: false, isCmyk: false, metadataSegments: [] };
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no more headers follow.
+    if (marker === 0xda) break;
+    const length = view.getUint16(offset + 2);
+    const data = offset + 4;
+
+    if (marker === 0xe1) {
+      info.metadataSegments.push({ start: offset, bytes: bytes.subarray(offset, offset + 2 + length) });
+      const isExif = String.fromCharCode(...bytes.subarray(data, data + 4)) === 'Exif';
+      if (isExif) {
+        const tiff = data + 6;
+        const littleEndian = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        const entries = view.getUint16(ifd, littleEndian);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, littleEndian) === 0x0112) {
+            info.orientation = view.getUint16(entry + 8, littleEndian);
+            info.orientationOffset = entry + 8;
+            info.littleEndian = littleEndian;
+          }
+        }
+      }
+    } else if (marker >= 0xc0 && marker <= 0xc2) {
+      // Frame header: the component count tells greyscale/RGB from CMYK.
+      info.isCmyk = bytes[data + 5] === 4;
+    }
+    offset += 2 + length;
+  }
+  return info;
+};
+
+const hasPngMetadata = (bytes: Uint8Array): boolean => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (['tEXt', 'iTXt', 'zTXt', 'eXIf', 'tIME'].includes(type)) return true;
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return false;
+};
+
+const hasWebpMetadata = (bytes: Uint8Array): boolean => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    if (type === 'EXIF' || type === 'XMP ') return true;
+    const length = view.getUint32(offset + 4, true);
+    offset += 8 + length + (length % 2);
+  }
+  return false;
+};
+
+// Copies the source's EXIF/XMP into a freshly encoded JPEG. Orientation is
+// reset to 1 because the pixels are already upright.
+const insertJpegMetadata = (encoded: Uint8Array, info: JpegInfo): Uint8Array => {
+  const segments = info.metadataSegments.map(({ start, bytes }) => {
+    const copy = bytes.slice();
+    if (info.orientationOffset !== null) {
+      const relative = info.orientationOffset - start;
+      if (relative >= 0 && relative + 2 <= copy.length) {
+        new DataView(copy.buffer).setUint16(relative, 1, info.littleEndian);
+      }
+    }
+    return copy;
+  });
+  const output = new Uint8Array(encoded.length + segments.reduce((sum, segment) => sum + segment.length, 0));
+  // SOI marker first, then the metadata, then the rest of the new file.
+  output.set(encoded.subarray(0, 2), 0);
+  let offset = 2;
+  for (const segment of segments) {
+    output.set(segment, offset);
+    offset += segment.length;
+  }
+  output.set(encoded.subarray(2), offset);
+  return output;
+};
+
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const data = ctx.getImageData(0, 0, width, height).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+const formatLabel = (mimeType: string): string =>
+  FORMAT_LABELS[mimeType] ?? (mimeType.replace(/^image\//, '').toUpperCase() || '?');
+
+/**
+ * Prepares an uploaded photo for editing: applies the EXIF orientation,
+ * downscales it to the configured maximum edge, converts formats the edit
+ * providers cannot read and strips or keeps metadata. The untouched file is
+ * kept on the result for full-resolution exports.
+ * @param file The uploaded file.
+ * @param settings The preprocessing settings.
+ * @returns A promise that resolves to the image to edit, with a list of what was changed.
+ */
+export const preprocessImage = async (file: File, settings: UploadSettings): Promise<OriginalImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const mimeType = file.type;
+  let jpegInfo: JpegInfo | null = null;
+  if (mimeType === 'image/jpeg') {
+    try {
+      jpegInfo = readJpegInfo(bytes);
+    } catch (err) {
+      // Damaged headers only cost us the orientation and metadata details.
+      console.error("Error reading JPEG headers:", err);
+    }
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (err) {
+    console.error("Error decoding uploaded image:", err);
+    throw new LocalizedError('errors.unsupportedFormat', { format: formatLabel(mimeType) }, { cause: err });
+  }
+  const sourceWidth = bitmap.width;
+  const sourceHeight = bitmap.height;
+
+  const hasMetadata = jpegInfo
+    ? jpegInfo.metadataSegments.length > 0
+    : mimeType === 'image/png' ? hasPngMetadata(bytes)
+    : mimeType === 'image/webp' ? hasWebpMetadata(bytes)
+    : false;
+  const orientation = jpegInfo?.orientation ?? 1;
+  const scale = settings.maxEdge > 0 ? Math.min(1, settings.maxEdge / Math.max(sourceWidth, sourceHeight)) : 1;
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const needsReencode = orientation !== 1
+    || scale < 1
+    || !SUPPORTED_MIME_TYPES.includes(mimeType)
+    || (settings.format !== 'auto' && settings.format !== mimeType)
+    || Boolean(jpegInfo?.isCmyk)
+    || (hasMetadata && !settings.keepMetadata);
+
+  const source = { blob: file as Blob, width: sourceWidth, height: sourceHeight, scale: 1 / scale };
+
+  if (!needsReencode) {
+    bitmap.close();
+    const { base64 } = await fileToBase64(file);
+    return {
+      url: URL.createObjectURL(file),
+      base64,
+      mimeType,
+      name: file.name,
+      source,
+      preprocessingNotes: [],
+    };
+  }
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  let outputType = settings.format === 'auto' ? mimeType : settings.format;
+  if (!SUPPORTED_MIME_TYPES.includes(outputType)) {
+    outputType = hasTransparency(ctx, width, height) ? 'image/png' : 'image/jpeg';
+  }
+
+  const blob = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(resolve, outputType, outputType === 'image/png' ? undefined : JPEG_QUALITY)
+  );
+  if (!blob) {
+    throw new LocalizedError('errors.preprocessFailed');
+  }
+
+  const notes: LocalizedMessage[] = [];
+  if (ORIENTATION_NOTES[orientation]) {
+    notes.push({ key: ORIENTATION_NOTES[orientation] });
+  }
+  if (scale < 1) {
+    notes.push({ key: 'upload.downscaled', params: { fromWidth: sourceWidth, fromHeight: sourceHeight, width, height } });
+  }
+  if (outputType !== mimeType) {
+    notes.push({ key: 'upload.converted', params: { from: formatLabel(mimeType), to: formatLabel(outputType) } });
+  } else if (jpegInfo?.isCmyk) {
+    notes.push({ key: 'upload.cmyk' });
+  }
+
+  let output = blob;
+  if (hasMetadata) {
+    if (!settings.keepMetadata) {
+      notes.push({ key: 'upload.metadataRemoved' });
+    } else if (jpegInfo && outputType === 'image/jpeg') {
+      const encoded = new Uint8Array(await blob.arrayBuffer());
+      output = new Blob([insertJpegMetadata(encoded, jpegInfo)], { type: outputType });
+    } else {
+      notes.push({ key: 'upload.metadataUnsupported', params: { format: formatLabel(outputType) } });
+    }
+  }
+
+  const parsed = dataUrlToBase64(await blobToDataUrl(output));
+  if (!parsed) {
+    throw new LocalizedError('errors.preprocessFailed');
+  }
+  return {
+    url: URL.createObjectURL(output),
+    base64: parsed.base64,
+    mimeType: outputType,
+    name: file.name,
+    source,
+    preprocessingNotes: notes,
+  };
+};
@@ -0,0 +1,53 @@
+import { LocalizedError } from '../i18n';
+
+/**
+ * Drag data type carrying the id of a history version, set when a result card is
+ * dragged so the original slot can tell it apart from files and links.
+ */
+export const HISTORY_NODE_MIME = 'application/x-editor-history-node';
+
+// Types that can hold an image dropped or pasted from outside the app.
+export const EXTERNAL_IMAGE_TYPES = ['Files', 'text/uri-list'];
+
+const isWebUrl = (value: string): boolean => /^(https?:|data:image\/)/i.test(value);
+
+/**
+ * Returns the files of a drop or paste, in order.
+ * @param data The event's DataTransfer.
+ */
+export const getTransferredFiles = (data: DataTransfer): File[] => Array.from(data.files);
+
+/**
+ * Returns the image link of a drop or paste, e.g. an image dragged from another
+ * browser tab or a copied address.
+ * @param data The event's DataTransfer.
+ * @returns The first http(s) or image data URL, or null if there is none.
+ */
+export const getTransferredUrl = (data: DataTransfer): string | null => {
+  // uri-list may hold several lines and comments starting with '#'.
+  const uriList = data.getData('text/uri-list').split(/\r?\n/).map(line => line.trim());
+  const candidates = [...uriList.filter(line => line && !line.startsWith('#')), data.getData('text/plain').trim()];
+  return candidates.find(isWebUrl) ?? null;
+};
+
+/**
+ * Downloads an image link into a File, so it goes through the same checks as an upload.
+ * The server has to allow cross-origin requests for this to work.
+ * @param url The address of the image.
+ * @returns The downloaded file, named after the last segment of the URL.
+ * @throws A LocalizedError when the download fails.
+ */
+export const fetchImageFile = async (url: string): Promise<File> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new LocalizedError('errors.urlImportFailed', {}, { cause: error });
+  }
+  if (!response.ok) {
+    throw new LocalizedError('errors.urlImportFailed', {}, { cause: new Error(`HTTP ${response.status}`) });
+  }
+  const blob = await response.blob();
+  const name = url.startsWith('data:') ? 'image' : decodeURIComponent(new URL(url).pathname.split('/').pop() || 'image');
+  return new File([blob], name, { type: blob.type });
+};
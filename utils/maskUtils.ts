@@ -0,0 +1,90 @@
+import { MaskMode, Selection } from '../types';
+import { loadImage, createCanvas, canvasToBase64 } from './canvasUtils';
+
+interface MaskSources {
+  // Rectangular selection in image pixels.
+  selection?: Selection | null;
+  // Whether the rectangle adds to or cuts out of the painted mask.
+  selectionMode?: MaskMode;
+  // Painted mask as a data URL; any non-transparent pixel counts as selected.
+  paintedMaskUrl?: string | null;
+}
+
+/**
+ * Builds the black/white PNG mask sent to the model by combining the painted
+ * mask layer with the rectangular selection.
+ * @param base64ImageData The base64-encoded image the mask is for.
+ * @param mimeType The MIME type of the image.
+ * @param sources The painted mask and/or rectangular selection.
+ * @returns A promise that resolves to the base64-encoded PNG mask: white inside the selection, black elsewhere.
+ */
+export const composeMask = async (
+  base64ImageData: string,
+  mimeType: string,
+  { selection, selectionMode = 'add', paintedMaskUrl }: MaskSources
+): Promise<string> => {
+  // We need to re-add the data URL prefix for the image to load
+  const image = await loadImage(`data:${mimeType};base64,${base64ImageData}`);
+  const { canvas, ctx } = createCanvas(image.width, image.height);
+
+  // Draw the mask: black background, white selection area
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (paintedMaskUrl) {
+    const painted = await loadImage(paintedMaskUrl);
+    const { canvas: layer, ctx: layerCtx } = createCanvas(canvas.width, canvas.height);
+    layerCtx.drawImage(painted, 0, 0, canvas.width, canvas.height);
+    // Recolour every painted pixel white while keeping its (soft-brush) alpha.
+    layerCtx.globalCompositeOperation = 'source-in';
+    layerCtx.fillStyle = 'white';
+    layerCtx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(layer, 0, 0);
+  }
+
+  if (selection && selection.width > 0 && selection.height > 0) {
+    ctx.fillStyle = selectionMode === 'add' ? 'white' : 'black';
+    ctx.fillRect(selection.x, selection.y, selection.width, selection.height);
+  }
+
+  return canvasToBase64(canvas);
+};
+
+/**
+ * Builds a black/white PNG mask for a rectangular selection.
+ * @param base64ImageData The base64-encoded image the mask is for.
+ * @param mimeType The MIME type of the image.
+ * @param selection The selection rectangle in image pixels.
+ * @returns A promise that resolves to the base64-encoded PNG mask: white inside the selection, black elsewhere.
+ */
+export const createSelectionMask = (
+  base64ImageData: string,
+  mimeType: string,
+  selection: Selection
+): Promise<string> => composeMask(base64ImageData, mimeType, { selection });
+
+/**
+ * Finds the rectangle enclosing every painted pixel of a mask layer.
+ * @param paintedMaskUrl The painted mask as a data URL; any non-transparent pixel counts.
+ * @param width The width of the image the mask applies to.
+ * @param height The height of the image the mask applies to.
+ * @returns The bounds in image pixels, or null when nothing is painted.
+ */
+export const getMaskBounds = async (paintedMaskUrl: string, width: number, height: number): Promise<Selection | null> => {
+  const painted = await loadImage(paintedMaskUrl);
+  // The layer is drawn at the image's size when the mask is composed, so measure it the same way.
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(painted, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
@@ -0,0 +1,201 @@
+import { EditHistory, HistoryNode, OriginalImage, Provenance, ProvenanceStep } from '../types';
+import { base64ToBytes } from './fileUtils';
+import { loadImage } from './canvasUtils';
+import { getMaskBounds } from './maskUtils';
+import { MAX_JPEG_XMP_BYTES, addPngTextChunks, detectMetadataFormat, embedXmp, readPngTextChunks, readXmp } from './imageMetadata';
+
+export const PROVENANCE_SOFTWARE = 'Editor de Fotos de Produto com IA';
+
+// PNG keyword of the full provenance JSON, next to the standard XMP keyword.
+const PNG_PROVENANCE_KEYWORD = 'provenance';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// IPTC term marketplaces look for: an image edited with generative AI.
+const IPTC_DIGITAL_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia';
+// Namespace of the app's own XMP property, which carries the JSON.
+const PROVENANCE_NAMESPACE = 'urn:editor-de-fotos:provenance:1';
+
+/**
+ * Computes the SHA-256 of some data as lowercase hex.
+ * @param data The bytes or Blob to hash.
+ */
+export const sha256Hex = async (data: Blob | Uint8Array): Promise<string> => {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const toProvenanceStep = async (node: HistoryNode, parent: HistoryNode | null, original: OriginalImage): Promise<ProvenanceStep> => {
+  let maskBounds = null;
+  if (node.maskUrl) {
+    // The mask was painted over the parent version.
+    const base = await loadImage(parent?.imageUrl ?? original.url);
+    maskBounds = await getMaskBounds(node.maskUrl, base.width, base.height);
+  }
+  return {
+    kind: node.kind,
+    prompt: node.prompt,
+    model: node.kind === 'adjust' ? null : node.model ?? null,
+    selection: node.selection,
+    maskBounds,
+    referenceRoles: node.referenceImages.map(reference => reference.role),
+    createdAt: new Date(node.createdAt).toISOString(),
+  };
+};
+
+/**
+ * Wraps an original and its edits, oldest first, into the provenance format.
+ * @param original The first uploaded file.
+ * @param steps The edits made since.
+ */
+export const createProvenance = (original: Provenance['original'], steps: ProvenanceStep[]): Provenance => ({
+  format: 'editor-provenance',
+  version: 1,
+  software: PROVENANCE_SOFTWARE,
+  aiEdited: steps.some(step => step.kind !== 'adjust'),
+  original,
+  steps,
+  exportedAt: new Date().toISOString(),
+});
+
+/**
+ * Describes how a version was made: the uploaded file and every edit leading
+ * to the version. A file that already carried provenance when it was uploaded
+ * keeps its original and earlier steps.
+ * @param history The edit history.
+ * @param nodeId The exported version.
+ * @param original The uploaded image.
+ */
+export const buildProvenance = async (history: EditHistory, nodeId: string, original: OriginalImage): Promise<Provenance> => {
+  const path: HistoryNode[] = [];
+  let ancestor: HistoryNode | undefined = history.nodes[nodeId];
+  while (ancestor) {
+    path.unshift(ancestor);
+    ancestor = ancestor.parentId ? history.nodes[ancestor.parentId] : undefined;
+  }
+  const steps = await Promise.all(path.map(node =>
+    toProvenanceStep(node, node.parentId ? history.nodes[node.parentId] : null, original)
+  ));
+  return createProvenance(
+    original.provenance?.original ?? {
+      name: original.name ?? null,
+      sha256: await sha256Hex(original.source?.blob ?? base64ToBytes(original.base64)),
+    },
+    [...(original.provenance?.steps ?? []), ...steps]
+  );
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string): string =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+/**
+ * Short plain-text disclosure, for the XMP description and the PNG comment.
+ * @param provenance The provenance to summarise.
+ */
+export const describeProvenance = (provenance: Provenance): string => {
+  const models = [...new Set(provenance.steps.map(step => step.model).filter(Boolean))].join(', ');
+  return provenance.aiEdited
+    ? `Edited with generative AI (${models || 'unknown model'}) in ${provenance.software}; ${provenance.steps.length} step(s).`
+    : `Edited in ${provenance.software} without generative AI; ${provenance.steps.length} step(s).`;
+};
+
+/**
+ * Builds an XMP packet with the standard disclosure fields and the full provenance as JSON.
+ * @param provenance The provenance to embed.
+ */
+export const provenanceToXmp = (provenance: Provenance): string => [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  '  <rdf:Description rdf:about=""',
+  '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+  '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+  '    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+  `    xmlns:editor="${PROVENANCE_NAMESPACE}"`,
+  `    xmp:CreatorTool="${escapeXml(provenance.software)}"`,
+  `    xmp:ModifyDate="${provenance.exportedAt}"`,
+  ...(provenance.aiEdited ? [`    Iptc4xmpExt:DigitalSourceType="${IPTC_DIGITAL_SOURCE_TYPE}"`] : []),
+  '    >',
+  `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(describeProvenance(provenance))}</rdf:li></rdf:Alt></dc:description>`,
+  `   <editor:provenance>${escapeXml(JSON.stringify(provenance))}</editor:provenance>`,
+  '  </rdf:Description>',
+  ' </rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="r"?>',
+].join('\n');
+
+const parseProvenanceJson = (json: string): Provenance | null => {
+  try {
+    const data = JSON.parse(json);
+    return data?.format === 'editor-provenance' && Array.isArray(data.steps) ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+const provenanceFromXmp = (xmp: string): Provenance | null => {
+  const match = xmp.match(/<editor:provenance>([\s\S]*?)<\/editor:provenance>/);
+  return match ? parseProvenanceJson(unescapeXml(match[1])) : null;
+};
+
+// JPEG segments are limited to 64 KB; the oldest steps give way first (the JSON sidecar keeps them all).
+const fitXmp = (provenance: Provenance, maxBytes: number): string => {
+  let steps = provenance.steps;
+  let xmp = provenanceToXmp(provenance);
+  while (new TextEncoder().encode(xmp).length > maxBytes && steps.length > 1) {
+    steps = steps.slice(1);
+    xmp = provenanceToXmp({ ...provenance, steps });
+  }
+  return xmp;
+};
+
+/**
+ * Writes provenance into an exported file: PNG text chunks (the JSON plus an
+ * XMP packet), or an XMP packet in JPEG and WebP. Other formats are returned as is.
+ * @param blob The encoded image.
+ * @param provenance The provenance to embed.
+ * @returns A promise that resolves to the file with the metadata.
+ */
+export const embedProvenance = async (blob: Blob, provenance: Provenance): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const format = detectMetadataFormat(bytes);
+  if (format === 'png') {
+    return new Blob([addPngTextChunks(bytes, [
+      { keyword: 'Software', text: provenance.software },
+      { keyword: 'Description', text: describeProvenance(provenance), international: true },
+      { keyword: PNG_PROVENANCE_KEYWORD, text: JSON.stringify(provenance), international: true },
+      { keyword: PNG_XMP_KEYWORD, text: provenanceToXmp(provenance), international: true },
+    ])], { type: blob.type });
+  }
+  if (format === 'jpeg' || format === 'webp') {
+    const xmp = format === 'jpeg' ? fitXmp(provenance, MAX_JPEG_XMP_BYTES) : provenanceToXmp(provenance);
+    return new Blob([embedXmp(bytes, xmp)], { type: blob.type });
+  }
+  return blob;
+};
+
+/**
+ * Reads the provenance an earlier export embedded in a file.
+ * @param blob The uploaded file.
+ * @returns The provenance, or null when the file carries none.
+ */
+export const readProvenance = async (blob: Blob): Promise<Provenance | null> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (detectMetadataFormat(bytes) === 'png') {
+    const json = readPngTextChunks(bytes)[PNG_PROVENANCE_KEYWORD];
+    const provenance = json ? parseProvenanceJson(json) : null;
+    if (provenance) return provenance;
+  }
+  const xmp = readXmp(bytes);
+  return xmp ? provenanceFromXmp(xmp) : null;
+};
+
+/**
+ * Serialises provenance for the optional JSON file saved next to an export.
+ * @param provenance The provenance to save.
+ */
+export const provenanceToSidecar = (provenance: Provenance): Blob =>
+  new Blob([JSON.stringify(provenance, null, 2)], { type: 'application/json' });
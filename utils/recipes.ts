@@ -0,0 +1,227 @@
+import {
+  CompositeSettings,
+  EditHistory,
+  HistoryNode,
+  ImageAdjustments,
+  Recipe,
+  RecipeStep,
+  ReferenceRole,
+  Selection,
+} from '../types';
+import { REFERENCE_ROLES } from '../services/imageEditProvider';
+import { DEFAULT_ADJUSTMENTS } from './adjustments';
+import { loadImage } from './canvasUtils';
+import { Size } from './viewport';
+import { LocalizedError } from '../i18n';
+
+// Marks exported files so unrelated JSON is rejected on import.
+const RECIPE_FORMAT = 'editor-recipe';
+const RECIPE_FORMAT_VERSION = 1;
+
+/**
+ * Converts a selection in image pixels into fractions of the image.
+ * @param selection The selection in pixels.
+ * @param size The size of the image it was drawn on.
+ */
+export const toRelativeSelection = (selection: Selection, size: Size): Selection => ({
+  x: selection.x / size.width,
+  y: selection.y / size.height,
+  width: selection.width / size.width,
+  height: selection.height / size.height,
+});
+
+/**
+ * Converts a selection in fractions of the image back into pixels.
+ * @param selection The relative selection.
+ * @param size The size of the image to apply it to.
+ */
+export const toPixelSelection = (selection: Selection, size: Size): Selection => ({
+  x: Math.round(selection.x * size.width),
+  y: Math.round(selection.y * size.height),
+  width: Math.round(selection.width * size.width),
+  height: Math.round(selection.height * size.height),
+});
+
+/**
+ * Builds recipe steps from the versions leading to a node, oldest first.
+ * Painted masks and adjustments without saved settings (such as the compliance
+ * auto-fix) cannot be replayed on another photo, so those versions are left out.
+ * @param history The edit history.
+ * @param nodeId The last version to include.
+ * @param composite Blending used when the area edits are replayed.
+ * @returns The steps and how many versions were left out.
+ */
+export const recipeStepsFromHistory = async (
+  history: EditHistory,
+  nodeId: string,
+  composite: CompositeSettings
+): Promise<{ steps: RecipeStep[]; skipped: number }> => {
+  const path: HistoryNode[] = [];
+  let ancestor: HistoryNode | undefined = history.nodes[nodeId];
+  while (ancestor) {
+    path.unshift(ancestor);
+    ancestor = ancestor.parentId ? history.nodes[ancestor.parentId] : undefined;
+  }
+
+  const steps: RecipeStep[] = [];
+  let skipped = 0;
+  for (const node of path) {
+    if (node.kind === 'edit') {
+      steps.push({
+        kind: 'edit',
+        prompt: node.prompt,
+        references: node.referenceImages.map(({ role, name, base64, mimeType }) => ({ role, name, base64, mimeType })),
+      });
+    } else if (node.kind === 'inpaint' && node.selection && !node.maskUrl) {
+      // The rectangle was drawn on the parent, which has the same size as the composited result.
+      const parent = node.parentId ? history.nodes[node.parentId] : null;
+      const image = await loadImage(parent?.imageUrl ?? node.imageUrl);
+      steps.push({
+        kind: 'inpaint',
+        prompt: node.prompt,
+        selection: toRelativeSelection(node.selection, { width: image.width, height: image.height }),
+        composite,
+      });
+    } else if (node.kind === 'adjust' && node.adjustments) {
+      steps.push({ kind: 'adjust', adjustments: node.adjustments });
+    } else {
+      skipped++;
+    }
+  }
+  return { steps, skipped };
+};
+
+/**
+ * Serialises a recipe into the shareable JSON format.
+ * @param recipe The recipe to export.
+ */
+export const serializeRecipe = (recipe: Recipe): string =>
+  JSON.stringify({ format: RECIPE_FORMAT, version: RECIPE_FORMAT_VERSION, name: recipe.name, steps: recipe.steps }, null, 2);
+
+const invalidRecipe = (detail: string) => new LocalizedError('errors.recipeInvalid', {}, { cause: new Error(detail) });
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+type NumberRanges<T> = { [K in keyof T]: [number, number] };
+
+// Ranges of the adjustment panel's controls; the renderer uses imported values as they are.
+const ADJUSTMENT_RANGES: NumberRanges<Pick<ImageAdjustments, 'straighten' | 'brightness' | 'contrast' | 'saturation'>> = {
+  straighten: [-45, 45],
+  brightness: [-100, 100],
+  contrast: [-100, 100],
+  saturation: [-100, 100],
+};
+const LEVELS_RANGES: NumberRanges<ImageAdjustments['levels']> = { black: [0, 254], white: [1, 255], gamma: [0.2, 3] };
+const CURVE_RANGES: NumberRanges<ImageAdjustments['curve']> = { shadows: [-64, 64], midtones: [-64, 64], highlights: [-64, 64] };
+const WHITE_BALANCE_RANGES: NumberRanges<ImageAdjustments['whiteBalance']> = { r: [0.25, 4], g: [0.25, 4], b: [0.25, 4] };
+const FEATHER_RANGE: [number, number] = [0, 64];
+
+/**
+ * Reads a group of numeric settings. Missing ones keep their defaults, as
+ * settings may have been added after the recipe was written.
+ */
+const parseNumbers = <T extends object>(value: unknown, defaults: T, ranges: Partial<NumberRanges<T>>, fail: () => Error): T => {
+  if (value === undefined) return defaults;
+  if (!value || typeof value !== 'object') throw fail();
+  const values = value as Record<string, unknown>;
+  const parsed = { ...defaults };
+  for (const [key, [min, max]] of Object.entries(ranges) as [keyof T & string, [number, number]][]) {
+    if (values[key] === undefined) continue;
+    if (!isInRange(values[key], min, max)) throw fail();
+    parsed[key] = values[key] as T[keyof T & string];
+  }
+  return parsed;
+};
+
+const parseAdjustments = (value: Record<string, unknown>, index: number): ImageAdjustments => {
+  const fail = () => invalidRecipe(`Step ${index + 1} has invalid adjustments.`);
+  const { rotation, flipHorizontal, flipVertical, crop, levels, curve, whiteBalance } = value;
+  if (rotation !== undefined && ![0, 90, 180, 270].includes(rotation as number)) throw fail();
+  if ([flipHorizontal, flipVertical].some(flag => flag !== undefined && typeof flag !== 'boolean')) throw fail();
+  const cropRect = crop as Partial<Selection> | null | undefined;
+  if (cropRect && ![cropRect.x, cropRect.y, cropRect.width, cropRect.height].every(isFraction)) throw fail();
+  const parsedLevels = parseNumbers(levels, DEFAULT_ADJUSTMENTS.levels, LEVELS_RANGES, fail);
+  if (parsedLevels.black >= parsedLevels.white) throw fail();
+
+  return {
+    ...parseNumbers(value, DEFAULT_ADJUSTMENTS, ADJUSTMENT_RANGES, fail),
+    rotation: (rotation as ImageAdjustments['rotation'] | undefined) ?? DEFAULT_ADJUSTMENTS.rotation,
+    flipHorizontal: (flipHorizontal as boolean | undefined) ?? DEFAULT_ADJUSTMENTS.flipHorizontal,
+    flipVertical: (flipVertical as boolean | undefined) ?? DEFAULT_ADJUSTMENTS.flipVertical,
+    crop: cropRect ? (cropRect as Selection) : null,
+    levels: parsedLevels,
+    curve: parseNumbers(curve, DEFAULT_ADJUSTMENTS.curve, CURVE_RANGES, fail),
+    whiteBalance: parseNumbers(whiteBalance, DEFAULT_ADJUSTMENTS.whiteBalance, WHITE_BALANCE_RANGES, fail),
+  };
+};
+
+const parseStep = (value: unknown, index: number): RecipeStep => {
+  const step = value as Record<string, unknown> | null;
+  if (step?.kind === 'edit' && typeof step.prompt === 'string' && Array.isArray(step.references)) {
+    const references = step.references.map(reference => {
+      const { role, name, base64, mimeType } = (reference ?? {}) as Record<string, unknown>;
+      if (!REFERENCE_ROLES.includes(role as ReferenceRole) || typeof base64 !== 'string' || typeof mimeType !== 'string'
+        || !mimeType.startsWith('image/')) {
+        throw invalidRecipe(`Step ${index + 1} has an invalid reference.`);
+      }
+      return { role: role as ReferenceRole, name: typeof name === 'string' ? name : undefined, base64, mimeType };
+    });
+    return { kind: 'edit', prompt: step.prompt, references };
+  }
+  if (step?.kind === 'inpaint' && typeof step.prompt === 'string') {
+    const selection = step.selection as Partial<Selection> | undefined;
+    if (!selection || ![selection.x, selection.y, selection.width, selection.height].every(isFraction)) {
+      throw invalidRecipe(`Step ${index + 1} needs a selection given as fractions of the image.`);
+    }
+    const composite = (step.composite ?? {}) as Record<keyof CompositeSettings, unknown>;
+    if ([composite.enabled, composite.matchColors].some(flag => flag !== undefined && typeof flag !== 'boolean')
+      || (composite.featherRadius !== undefined && !isInRange(composite.featherRadius, ...FEATHER_RANGE))) {
+      throw invalidRecipe(`Step ${index + 1} has invalid blending settings.`);
+    }
+    return {
+      kind: 'inpaint',
+      prompt: step.prompt,
+      selection: selection as Selection,
+      composite: {
+        enabled: (composite.enabled as boolean | undefined) ?? true,
+        featherRadius: (composite.featherRadius as number | undefined) ?? 8,
+        matchColors: (composite.matchColors as boolean | undefined) ?? true,
+      },
+    };
+  }
+  if (step?.kind === 'adjust' && step.adjustments && typeof step.adjustments === 'object') {
+    // Settings added after the recipe was written keep their neutral values.
+    return { kind: 'adjust', adjustments: parseAdjustments(step.adjustments as Record<string, unknown>, index) };
+  }
+  throw invalidRecipe(`Step ${index + 1} is not an edit, inpaint or adjust step.`);
+};
+
+/**
+ * Reads a recipe exported with serializeRecipe.
+ * @param text The JSON file contents.
+ * @returns A new recipe with a fresh id.
+ * @throws A LocalizedError when the file is not a valid recipe.
+ */
+export const parseRecipe = (text: string): Recipe => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new LocalizedError('errors.recipeInvalid', {}, { cause: error });
+  }
+  if (data?.format !== RECIPE_FORMAT || typeof data.version !== 'number' || data.version > RECIPE_FORMAT_VERSION) {
+    throw invalidRecipe('Unknown file format or version.');
+  }
+  if (typeof data.name !== 'string' || !Array.isArray(data.steps) || data.steps.length === 0) {
+    throw invalidRecipe('A recipe needs a name and at least one step.');
+  }
+  return {
+    id: crypto.randomUUID(),
+    name: data.name,
+    steps: data.steps.map(parseStep),
+    createdAt: Date.now(),
+  };
+};
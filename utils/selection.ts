@@ -0,0 +1,96 @@
+import { Selection } from '../types';
+import { Size } from './viewport';
+
+/**
+ * Part of the selection rectangle a drag started on: a corner or edge handle
+ * (named after compass points) resizes it, 'move' drags it as a whole.
+ */
+export type SelectionHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw' | 'move';
+
+export const RESIZE_HANDLES: Exclude<SelectionHandle, 'move'>[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+export const HANDLE_CURSORS: Record<SelectionHandle, string> = {
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+  move: 'move',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Builds the rectangle spanned by two points, in whichever order they were given.
+ * @param a One corner, in image pixels.
+ * @param b The opposite corner, in image pixels.
+ */
+export const selectionFromPoints = (a: { x: number; y: number }, b: { x: number; y: number }): Selection => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+/**
+ * Keeps a selection inside the image, shrinking it if it is larger than the image.
+ * @param selection The selection in image pixels.
+ * @param bounds The natural image size.
+ * @returns The clamped selection.
+ */
+export const clampSelection = (selection: Selection, bounds: Size): Selection => {
+  const width = clamp(selection.width, 0, bounds.width);
+  const height = clamp(selection.height, 0, bounds.height);
+  return {
+    x: clamp(selection.x, 0, bounds.width - width),
+    y: clamp(selection.y, 0, bounds.height - height),
+    width,
+    height,
+  };
+};
+
+/**
+ * Applies a drag to the selection it started from. Moving keeps the size and stops at
+ * the image edges; resizing moves only the grabbed edges, and dragging an edge past
+ * the opposite one flips the rectangle instead of giving it a negative size.
+ * @param start The selection when the drag started.
+ * @param handle The part of the selection that was grabbed.
+ * @param dx Horizontal distance dragged, in image pixels.
+ * @param dy Vertical distance dragged, in image pixels.
+ * @param bounds The natural image size.
+ * @returns The updated selection.
+ */
+export const dragSelection = (
+  start: Selection,
+  handle: SelectionHandle,
+  dx: number,
+  dy: number,
+  bounds: Size
+): Selection => {
+  if (handle === 'move') {
+    return clampSelection({ ...start, x: start.x + dx, y: start.y + dy }, bounds);
+  }
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  if (handle.includes('w')) left = clamp(left + dx, 0, bounds.width);
+  if (handle.includes('e')) right = clamp(right + dx, 0, bounds.width);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bounds.height);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, 0, bounds.height);
+  return selectionFromPoints({ x: left, y: top }, { x: right, y: bottom });
+};
+
+/**
+ * Rounds a selection to whole image pixels, as shown in the numeric fields.
+ * @param selection The selection in image pixels.
+ */
+export const roundSelection = (selection: Selection): Selection => ({
+  x: Math.round(selection.x),
+  y: Math.round(selection.y),
+  width: Math.round(selection.width),
+  height: Math.round(selection.height),
+});
@@ -0,0 +1,215 @@
+import { ShadowPreset, ShadowSettings } from '../types';
+import { createCanvas, fitWithin } from './canvasUtils';
+import { BoundingBox, findBackground } from './compliance';
+import { LocalizedError, Translate } from '../i18n';
+
+const PRESETS_STORAGE_KEY = 'shadowPresets';
+
+// Share of the border that must be background for the product to be cut out cleanly.
+const MIN_CLEAN_BORDER = 0.9;
+// Alpha below which a pixel counts as transparent.
+const TRANSPARENT_ALPHA = 16;
+
+export const DEFAULT_SHADOW_SETTINGS: ShadowSettings = {
+  dropShadow: { enabled: true, angle: 60, distance: 3, blur: 4, opacity: 30 },
+  contactShadow: { enabled: true, height: 4, blur: 2, opacity: 45 },
+  reflection: { enabled: false, distance: 0, opacity: 25, fade: 35 },
+};
+
+/**
+ * Reads the saved shadow presets.
+ */
+export const loadShadowPresets = (): ShadowPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        // Effects added after a preset was saved keep their defaults.
+        return parsed.map((preset: ShadowPreset) => ({
+          ...preset,
+          settings: {
+            dropShadow: { ...DEFAULT_SHADOW_SETTINGS.dropShadow, ...preset.settings?.dropShadow },
+            contactShadow: { ...DEFAULT_SHADOW_SETTINGS.contactShadow, ...preset.settings?.contactShadow },
+            reflection: { ...DEFAULT_SHADOW_SETTINGS.reflection, ...preset.settings?.reflection },
+          },
+        }));
+      }
+    }
+  } catch (error) {
+    console.error("Error reading shadow presets:", error);
+  }
+  return [];
+};
+
+/**
+ * Saves the shadow presets.
+ * @param presets The presets to keep.
+ */
+export const saveShadowPresets = (presets: ShadowPreset[]): void => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+interface ProductLayer {
+  // The product alone, on a transparent canvas of the image's size.
+  product: HTMLCanvasElement;
+  box: BoundingBox;
+  // Whether the image itself had a transparent background (otherwise it was white).
+  isTransparent: boolean;
+}
+
+/**
+ * Separates the product from a clean white or transparent background.
+ * @throws A LocalizedError when the background is not clean enough to find the silhouette.
+ */
+const extractProduct = (source: CanvasImageSource, width: number, height: number): ProductLayer => {
+  const { canvas: product, ctx } = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  const background = findBackground(data, width, height);
+
+  let borderBackground = 0;
+  let borderTransparent = 0;
+  let borderCount = 0;
+  const countBorder = (i: number) => {
+    borderCount++;
+    borderBackground += background[i];
+    if (data[i * 4 + 3] < TRANSPARENT_ALPHA) borderTransparent++;
+  };
+  for (let x = 0; x < width; x++) {
+    countBorder(x);
+    countBorder((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    countBorder(y * width);
+    countBorder(y * width + width - 1);
+  }
+  if (borderBackground / borderCount < MIN_CLEAN_BORDER) {
+    throw new LocalizedError('errors.shadowsNeedCleanBackground');
+  }
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let i = 0; i < background.length; i++) {
+    const x = i % width;
+    const y = (i - x) / width;
+    if (!background[i]) {
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      continue;
+    }
+    // Background next to the product keeps part of its alpha, by how far it is from white, to antialias the edge.
+    const touchesProduct = (x > 0 && !background[i - 1]) || (x < width - 1 && !background[i + 1])
+      || (i >= width && !background[i - width]) || (i < width * (height - 1) && !background[i + width]);
+    if (touchesProduct) {
+      const whiteness = Math.min(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) / 255;
+      data[i * 4 + 3] = Math.round(data[i * 4 + 3] * Math.min(1, (1 - whiteness) * 4));
+    } else {
+      data[i * 4 + 3] = 0;
+    }
+  }
+  if (maxX < 0) {
+    throw new LocalizedError('errors.shadowsNeedCleanBackground');
+  }
+  ctx.putImageData(image, 0, 0);
+
+  return {
+    product,
+    box: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+    isTransparent: borderTransparent / borderCount >= MIN_CLEAN_BORDER,
+  };
+};
+
+/**
+ * Redraws a product photo with a drop shadow, a contact shadow and a floor
+ * reflection computed from its silhouette. The output keeps the image size and
+ * its background: white stays white, transparent stays transparent.
+ * @param source The image, on a clean white or transparent background.
+ * @param width The image width.
+ * @param height The image height.
+ * @param settings The effects to add.
+ * @param options `maxSize` limits the output for fast previews.
+ * @returns A canvas with the effects.
+ * @throws A LocalizedError when the product cannot be separated from the background.
+ */
+export const renderShadows = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  settings: ShadowSettings,
+  options: { maxSize?: number } = {}
+): HTMLCanvasElement => {
+  const { width: scaledWidth, height: scaledHeight } = fitWithin(width, height, options.maxSize);
+  const { product, box, isTransparent } = extractProduct(source, scaledWidth, scaledHeight);
+  // Effect sizes are given in % of the product height.
+  const unit = box.height / 100;
+  const floor = box.y + box.height;
+
+  const { ctx: silhouetteCtx, canvas: silhouette } = createCanvas(scaledWidth, scaledHeight);
+  silhouetteCtx.drawImage(product, 0, 0);
+  silhouetteCtx.globalCompositeOperation = 'source-in';
+  silhouetteCtx.fillStyle = '#000000';
+  silhouetteCtx.fillRect(0, 0, scaledWidth, scaledHeight);
+
+  const { canvas, ctx } = createCanvas(scaledWidth, scaledHeight);
+  if (!isTransparent) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, scaledWidth, scaledHeight);
+  }
+
+  const { reflection, contactShadow, dropShadow } = settings;
+  if (reflection.enabled && reflection.opacity > 0) {
+    // Mirror the product below the floor line, then fade it out with a gradient.
+    const top = floor + reflection.distance * unit;
+    const { canvas: mirrored, ctx: mirrorCtx } = createCanvas(scaledWidth, scaledHeight);
+    mirrorCtx.translate(0, top + floor);
+    mirrorCtx.scale(1, -1);
+    mirrorCtx.drawImage(product, 0, 0);
+    mirrorCtx.setTransform(1, 0, 0, 1, 0, 0);
+    const fadeEnd = top + Math.max(1, reflection.fade * unit);
+    const gradient = mirrorCtx.createLinearGradient(0, top, 0, fadeEnd);
+    gradient.addColorStop(0, `rgba(0, 0, 0, ${reflection.opacity / 100})`);
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    mirrorCtx.globalCompositeOperation = 'destination-in';
+    mirrorCtx.fillStyle = gradient;
+    mirrorCtx.fillRect(0, 0, scaledWidth, scaledHeight);
+    ctx.drawImage(mirrored, 0, 0);
+  }
+
+  if (contactShadow.enabled && contactShadow.opacity > 0) {
+    // The silhouette squashed into a thin band centred on the floor line.
+    const bandHeight = Math.max(1, contactShadow.height * unit);
+    ctx.save();
+    ctx.globalAlpha = contactShadow.opacity / 100;
+    if (contactShadow.blur > 0) ctx.filter = `blur(${contactShadow.blur * unit}px)`;
+    ctx.drawImage(silhouette, box.x, box.y, box.width, box.height, box.x, floor - bandHeight / 2, box.width, bandHeight);
+    ctx.restore();
+  }
+
+  if (dropShadow.enabled && dropShadow.opacity > 0) {
+    const radians = (dropShadow.angle * Math.PI) / 180;
+    ctx.save();
+    ctx.globalAlpha = dropShadow.opacity / 100;
+    if (dropShadow.blur > 0) ctx.filter = `blur(${dropShadow.blur * unit}px)`;
+    ctx.drawImage(silhouette, Math.cos(radians) * dropShadow.distance * unit, Math.sin(radians) * dropShadow.distance * unit);
+    ctx.restore();
+  }
+
+  ctx.drawImage(product, 0, 0);
+  return canvas;
+};
+
+/**
+ * Summarises the effects for the version history, e.g. "Shadows: drop shadow, reflection".
+ * @param t The translate function of the language to write in.
+ * @param settings The applied settings.
+ */
+export const describeShadows = (t: Translate, settings: ShadowSettings): string => {
+  const parts: string[] = [];
+  if (settings.dropShadow.enabled) parts.push(t('shadows.summary.dropShadow'));
+  if (settings.contactShadow.enabled) parts.push(t('shadows.summary.contactShadow'));
+  if (settings.reflection.enabled) parts.push(t('shadows.summary.reflection'));
+  return t('shadows.summary', { effects: parts.join(', ') });
+};
@@ -0,0 +1,136 @@
+import { BudgetSettings, UsageEntry } from '../types';
+import { ModelUsage } from '../services/imageEditProvider';
+import { toCsv } from './csv';
+
+interface ModelPricing {
+  // US dollars per million tokens.
+  input: number;
+  output: number;
+}
+
+// List prices, matched by model name prefix. Models missing here (the local
+// provider, the stub backend) count as free.
+const MODEL_PRICING: { prefix: string; pricing: ModelPricing }[] = [
+  { prefix: 'gemini-2.5-flash-image', pricing: { input: 0.3, output: 30 } },
+];
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  limit: null,
+  warnPercent: 80,
+};
+
+/**
+ * Estimates what a request cost from the tokens the model reported.
+ * @param usage The reported usage.
+ * @returns The cost in US dollars, 0 for models without a known price.
+ */
+export const estimateCost = (usage: ModelUsage): number => {
+  const pricing = MODEL_PRICING.find(({ prefix }) => usage.model.startsWith(prefix))?.pricing;
+  if (!pricing) return 0;
+  return (usage.promptTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+};
+
+export interface UsageTotals {
+  requests: number;
+  failed: number;
+  totalTokens: number;
+  cost: number;
+  // Average latency of the successful requests, in milliseconds.
+  averageLatencyMs: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  // Project name or day, depending on how the entries were grouped.
+  label: string;
+}
+
+/**
+ * Adds up a set of usage entries.
+ * @param entries The entries to total.
+ */
+export const totalUsage = (entries: UsageEntry[]): UsageTotals => {
+  const succeeded = entries.filter(entry => entry.status === 'ok');
+  return {
+    requests: entries.length,
+    failed: entries.filter(entry => entry.status === 'error').length,
+    totalTokens: entries.reduce((sum, entry) => sum + entry.totalTokens, 0),
+    cost: entries.reduce((sum, entry) => sum + entry.cost, 0),
+    averageLatencyMs: succeeded.length > 0
+      ? succeeded.reduce((sum, entry) => sum + entry.latencyMs, 0) / succeeded.length
+      : 0,
+  };
+};
+
+/**
+ * Local calendar day of a timestamp, as YYYY-MM-DD.
+ * @param timestamp Milliseconds since the epoch.
+ */
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Totals usage entries per group, most expensive first.
+ * @param entries The entries to group.
+ * @param groupOf Returns the group key and label of an entry.
+ */
+export const groupUsage = (
+  entries: UsageEntry[],
+  groupOf: (entry: UsageEntry) => { key: string; label: string }
+): UsageGroup[] => {
+  const groups = new Map<string, { label: string; entries: UsageEntry[] }>();
+  for (const entry of entries) {
+    const { key, label } = groupOf(entry);
+    const group = groups.get(key) ?? { label, entries: [] };
+    group.entries.push(entry);
+    groups.set(key, group);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, label: group.label, ...totalUsage(group.entries) }))
+    .sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+};
+
+export type BudgetState = 'none' | 'ok' | 'warning' | 'exceeded';
+
+/**
+ * Compares a session's spending with the budget.
+ * @param spent The session's estimated cost in US dollars.
+ * @param settings The budget settings.
+ */
+export const getBudgetState = (spent: number, settings: BudgetSettings): BudgetState => {
+  if (settings.limit === null) return 'none';
+  if (spent >= settings.limit) return 'exceeded';
+  if (spent >= settings.limit * (settings.warnPercent / 100)) return 'warning';
+  return 'ok';
+};
+
+/**
+ * Builds the usage log as CSV, one row per request, with machine-readable
+ * columns (ISO dates, dot decimals) so finance tools can import it as is.
+ * @param entries The entries to export.
+ */
+export const usageToCsv = (entries: UsageEntry[]): string =>
+  toCsv([
+    [
+      'timestamp', 'session_id', 'project_id', 'project_name', 'provider', 'operation', 'model', 'status',
+      'error_code', 'latency_ms', 'prompt_tokens', 'output_tokens', 'total_tokens', 'estimated_cost_usd',
+    ],
+    ...entries.map(entry => [
+      new Date(entry.timestamp).toISOString(),
+      entry.sessionId,
+      entry.projectId,
+      entry.projectName,
+      entry.provider,
+      entry.operation,
+      entry.model,
+      entry.status,
+      entry.errorCode,
+      Math.round(entry.latencyMs),
+      entry.promptTokens,
+      entry.outputTokens,
+      entry.totalTokens,
+      entry.cost.toFixed(6),
+    ]),
+  ]);
@@ -0,0 +1,64 @@
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Position of the image inside the editor viewport: `scale` is screen pixels per
+ * image pixel and (x, y) is the image's top-left corner in viewport pixels.
+ */
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+// Highest zoom, in screen pixels per image pixel.
+export const MAX_ZOOM = 16;
+
+/**
+ * Returns the transform that fits the whole image inside the viewport, centred.
+ * @param viewport The viewport size in screen pixels.
+ * @param image The natural image size.
+ */
+export const fitView = (viewport: Size, image: Size): ViewTransform => {
+  const scale = Math.min(viewport.width / image.width, viewport.height / image.height);
+  return {
+    scale,
+    x: (viewport.width - image.width * scale) / 2,
+    y: (viewport.height - image.height * scale) / 2,
+  };
+};
+
+/**
+ * Returns a transform at the given scale that keeps the point under the viewport
+ * centre in place, e.g. for the 1:1 button.
+ */
+export const zoomToScale = (view: ViewTransform, viewport: Size, scale: number): ViewTransform =>
+  zoomAt(view, { x: viewport.width / 2, y: viewport.height / 2 }, scale / view.scale, viewport);
+
+/**
+ * Zooms by a factor around a point in viewport coordinates (the cursor or pinch centre),
+ * so the image pixel under that point stays put.
+ * @param view The current transform.
+ * @param anchor The zoom centre in viewport pixels.
+ * @param factor The zoom factor, > 1 to zoom in.
+ * @param viewport The viewport size, used to derive the minimum zoom.
+ * @param image Optional natural image size; when given, zooming out stops at half the fit scale.
+ */
+export const zoomAt = (
+  view: ViewTransform,
+  anchor: { x: number; y: number },
+  factor: number,
+  viewport: Size,
+  image?: Size
+): ViewTransform => {
+  const minScale = image ? fitView(viewport, image).scale / 2 : 0.01;
+  const scale = Math.max(minScale, Math.min(MAX_ZOOM, view.scale * factor));
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    x: anchor.x - (anchor.x - view.x) * ratio,
+    y: anchor.y - (anchor.y - view.y) * ratio,
+  };
+};